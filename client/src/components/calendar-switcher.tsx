@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FolderCog, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Calendar, InsertCalendar, WorkCalendar } from "@shared/schema";
+
+interface CalendarSwitcherProps {
+  // null shows events from every calendar
+  selectedCalendarId: string | null;
+  onCalendarChange: (calendarId: string | null) => void;
+}
+
+const ALL_CALENDARS = "all";
+const STANDARD_WORK_WEEK = "standard";
+
+export default function CalendarSwitcher({ selectedCalendarId, onCalendarChange }: CalendarSwitcherProps) {
+  const { toast } = useToast();
+  const [newCalendarName, setNewCalendarName] = useState("");
+
+  const { data: calendars = [] } = useQuery<Calendar[]>({
+    queryKey: ["/api/calendars"],
+  });
+
+  const { data: workCalendars = [] } = useQuery<WorkCalendar[]>({
+    queryKey: ["/api/work-calendars"],
+  });
+
+  const createCalendarMutation = useMutation({
+    mutationFn: async (calendar: InsertCalendar) => {
+      const response = await apiRequest("POST", "/api/calendars", calendar);
+      return response.json();
+    },
+    onSuccess: (calendar: Calendar) => {
+      toast({
+        title: "Success",
+        description: `Calendar "${calendar.name}" created.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendars"] });
+      setNewCalendarName("");
+      onCalendarChange(calendar.id);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setWorkCalendarMutation = useMutation({
+    mutationFn: async ({ calendarId, workCalendarId }: { calendarId: string; workCalendarId: string | null }) => {
+      await apiRequest("PATCH", `/api/calendars/${calendarId}`, { workCalendarId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendars"] });
+      // Business-day dates of the calendar's events may have moved
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change the work calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCalendarMutation = useMutation({
+    mutationFn: async (calendarId: string) => {
+      await apiRequest("DELETE", `/api/calendars/${calendarId}`);
+    },
+    onSuccess: (_data, calendarId) => {
+      toast({
+        title: "Success",
+        description: "Calendar deleted. Its events were kept without a calendar.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendars"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      if (selectedCalendarId === calendarId) {
+        onCalendarChange(null);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateCalendar = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCalendarName.trim();
+    if (name) {
+      createCalendarMutation.mutate({ name });
+    }
+  };
+
+  const handleDeleteCalendar = (calendar: Calendar) => {
+    if (confirm(`Delete the calendar "${calendar.name}"? Its events will be kept without a calendar.`)) {
+      deleteCalendarMutation.mutate(calendar.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={selectedCalendarId ?? ALL_CALENDARS}
+        onValueChange={(value) => onCalendarChange(value === ALL_CALENDARS ? null : value)}
+      >
+        <SelectTrigger className="w-48" data-testid="select-calendar-switcher">
+          <SelectValue placeholder="All calendars" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CALENDARS}>All calendars</SelectItem>
+          {calendars.map((calendar) => (
+            <SelectItem key={calendar.id} value={calendar.id}>
+              {calendar.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="icon" data-testid="button-manage-calendars">
+            <FolderCog className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Calendars</DialogTitle>
+            <DialogDescription>
+              Group events into separate calendars. Relative events can still anchor to events in any calendar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreateCalendar} className="flex space-x-2">
+            <Input
+              placeholder="New calendar name"
+              value={newCalendarName}
+              onChange={(e) => setNewCalendarName(e.target.value)}
+              maxLength={255}
+              data-testid="input-new-calendar"
+            />
+            <Button
+              type="submit"
+              disabled={createCalendarMutation.isPending || !newCalendarName.trim()}
+              data-testid="button-create-calendar"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </form>
+
+          {calendars.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No calendars yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {calendars.map((calendar) => (
+                <div
+                  key={calendar.id}
+                  className="flex items-center justify-between bg-secondary/50 p-3 rounded-lg border border-border"
+                  data-testid={`calendar-item-${calendar.id}`}
+                >
+                  <div>
+                    <p className="font-medium text-foreground">{calendar.name}</p>
+                    {calendar.description && (
+                      <p className="text-xs text-muted-foreground">{calendar.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {workCalendars.length > 0 && (
+                      <Select
+                        value={calendar.workCalendarId ?? STANDARD_WORK_WEEK}
+                        onValueChange={(value) => setWorkCalendarMutation.mutate({
+                          calendarId: calendar.id,
+                          workCalendarId: value === STANDARD_WORK_WEEK ? null : value,
+                        })}
+                      >
+                        <SelectTrigger className="w-36 h-8 text-xs" data-testid={`select-work-calendar-${calendar.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={STANDARD_WORK_WEEK}>Mon-Fri</SelectItem>
+                          {workCalendars.map((workCalendar) => (
+                            <SelectItem key={workCalendar.id} value={workCalendar.id}>
+                              {workCalendar.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteCalendar(calendar)}
+                      disabled={deleteCalendarMutation.isPending}
+                      data-testid={`button-delete-calendar-${calendar.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { Calendar, CalendarDays, Link, Plus } from "lucide-react";
+import { Calendar, CalendarDays, Egg, Link, Plus, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,9 +10,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import TagInput from "@/components/tag-input";
+import RecurrenceBuilder, { newRecurrenceRule } from "@/components/recurrence-builder";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useWorkWeeks } from "@/hooks/use-work-weeks";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertEventSchema, type InsertEvent, type Event } from "@shared/schema";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import { adjustToWorkday, calculateEventDate, calculateRelativeEventDate, describeDateRule, formatCalendarDate, toCalendarDate, type ResolutionExplanation } from "@shared/date-resolver";
+import { insertEventSchema, type AnchorOption, type InsertEvent, type Event, type Calendar as CalendarEntity, type WorkCalendar } from "@shared/schema";
 import { z } from "zod";
 
 const fixedDateSchema = insertEventSchema.extend({
@@ -28,28 +34,63 @@ const nthDateSchema = insertEventSchema.extend({
   month: z.number(),
 });
 
+// Either a time period and unit or a target weekday
 const relativeDateSchema = insertEventSchema.extend({
   dateType: z.literal("relative"),
-  relativePeriod: z.number(),
-  relativeUnit: z.enum(["days", "weeks", "months", "years"]),
+  relativePeriod: z.number().nullable(),
+  relativeUnit: z.enum(["days", "weeks", "months", "years", "businessDays"]).nullable(),
   relativeDirection: z.enum(["before", "after"]),
   relativeEventId: z.string(),
+}).refine(data => (data.relativeWeekday ?? null) !== null || (!!data.relativePeriod && !!data.relativeUnit), {
+  message: "Time period is required",
+  path: ["relativePeriod"],
+});
+
+const recurringDateSchema = insertEventSchema.extend({
+  dateType: z.literal("recurring"),
+  recurrenceRule: insertEventSchema.shape.recurrenceRule.refine(rule => !!rule, "Recurrence rule is required"),
+});
+
+const easterDateSchema = insertEventSchema.extend({
+  dateType: z.literal("easter"),
+  easterVariant: z.enum(["western", "orthodox"]),
+  easterOffset: z.number().int(),
 });
 
 interface EventFormProps {
   onEventCreated: () => void;
   editingEvent?: Event | null;
   onEditComplete?: () => void;
+  // Calendar new events are created in, normally the one selected in the switcher
+  defaultCalendarId?: string | null;
 }
 
-export default function EventForm({ onEventCreated, editingEvent, onEditComplete }: EventFormProps) {
+// Select items cannot have an empty value, so "no calendar" gets its own
+const NO_CALENDAR = "none";
+const CALENDAR_WORK_WEEK = "calendar";
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export default function EventForm({ onEventCreated, editingEvent, onEditComplete, defaultCalendarId = null }: EventFormProps) {
   const [activeTab, setActiveTab] = useState(editingEvent?.dateType || "fixed");
+  // Version the form was loaded from, sent as If-Match so concurrent edits are detected
+  const [baseVersion, setBaseVersion] = useState(editingEvent?.version);
+  const [conflict, setConflict] = useState<{ current: Event; pending: Partial<InsertEvent> } | null>(null);
   const { toast } = useToast();
 
-  const { data: events = [] } = useQuery<Event[]>({
-    queryKey: ["/api/events"],
+  const { data: anchors = [] } = useQuery<AnchorOption[]>({
+    queryKey: ["/api/events", "anchors"],
   });
 
+  const { data: calendars = [] } = useQuery<CalendarEntity[]>({
+    queryKey: ["/api/calendars"],
+  });
+
+  const { data: workCalendars = [] } = useQuery<WorkCalendar[]>({
+    queryKey: ["/api/work-calendars"],
+  });
+
+  const workWeeks = useWorkWeeks();
+
   const createEventMutation = useMutation({
     mutationFn: async (event: InsertEvent) => {
       const response = await apiRequest("POST", "/api/events", event);
@@ -62,7 +103,7 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       onEventCreated();
-      form.reset();
+      form.reset(getDefaultValues(null));
     },
     onError: () => {
       toast({
@@ -74,9 +115,11 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
   });
 
   const updateEventMutation = useMutation({
-    mutationFn: async (event: Partial<InsertEvent>) => {
+    mutationFn: async ({ event, version }: { event: Partial<InsertEvent>; version?: number }) => {
       if (!editingEvent?.id) throw new Error("No event ID for update");
-      const response = await apiRequest("PATCH", `/api/events/${editingEvent.id}`, event);
+      const response = await apiRequest("PATCH", `/api/events/${editingEvent.id}`, event, {
+        "If-Match": version !== undefined ? `"${version}"` : "*",
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -88,10 +131,19 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
       onEditComplete?.();
       form.reset();
     },
-    onError: () => {
+    onError: (error, { event }) => {
+      if (error instanceof ApiError && error.status === 409) {
+        const { current } = JSON.parse(error.body);
+        setConflict({ current, pending: event });
+        return;
+      }
+      // Refused edits, such as an anchor loop, come with the reason
+      const description = error instanceof ApiError && error.status === 400
+        ? JSON.parse(error.body).message
+        : "Failed to update event. Please try again.";
       toast({
         title: "Error",
-        description: "Failed to update event. Please try again.",
+        description,
         variant: "destructive",
       });
     },
@@ -102,40 +154,66 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
       case "fixed": return fixedDateSchema;
       case "nth": return nthDateSchema;
       case "relative": return relativeDateSchema;
+      case "recurring": return recurringDateSchema;
+      case "easter": return easterDateSchema;
       default: return fixedDateSchema;
     }
   };
 
-  const getDefaultValues = () => {
-    if (editingEvent) {
+  const getDefaultValues = (event: Event | null | undefined = editingEvent) => {
+    if (event) {
       const base = {
-        title: editingEvent.title,
-        description: editingEvent.description || "",
-        dateType: editingEvent.dateType,
+        title: event.title,
+        description: event.description || "",
+        dateType: event.dateType,
+        calendarId: event.calendarId ?? null,
+        workCalendarId: event.workCalendarId ?? null,
+        weekendAdjustment: event.weekendAdjustment ?? "none",
+        category: event.category || "",
+        tags: event.tags,
       };
       
-      switch (editingEvent.dateType) {
+      switch (event.dateType) {
         case "fixed":
           return {
             ...base,
-            startDate: editingEvent.startDate ? new Date(editingEvent.startDate).toISOString().split('T')[0] : "",
-            endDate: editingEvent.endDate ? new Date(editingEvent.endDate).toISOString().split('T')[0] : "",
+            startDate: event.startDate ? formatCalendarDate(toCalendarDate(event.startDate)) : "",
+            endDate: event.endDate ? formatCalendarDate(toCalendarDate(event.endDate)) : "",
           };
         case "nth":
           return {
             ...base,
-            nthOccurrence: editingEvent.nthOccurrence || 1,
-            dayOfWeek: editingEvent.dayOfWeek || 1,
-            month: editingEvent.month || 1,
-            baseYear: editingEvent.baseYear || new Date().getFullYear(),
+            nthOccurrence: event.nthOccurrence || 1,
+            dayOfWeek: event.dayOfWeek || 1,
+            month: event.month || 1,
+            baseYear: event.baseYear || new Date().getFullYear(),
+            recurUntilYear: event.recurUntilYear ?? null,
+            nthFrequency: event.nthFrequency,
+            nthMonths: event.nthMonths ?? null,
+            nthInterval: event.nthInterval ?? null,
           };
         case "relative":
           return {
             ...base,
-            relativePeriod: editingEvent.relativePeriod || 1,
-            relativeUnit: editingEvent.relativeUnit || "days",
-            relativeDirection: editingEvent.relativeDirection || "before",
-            relativeEventName: editingEvent.relativeEventName || "",
+            relativePeriod: (event.relativeWeekday ?? null) !== null ? null : event.relativePeriod || 1,
+            relativeUnit: (event.relativeWeekday ?? null) !== null ? null : event.relativeUnit || "days",
+            relativeDirection: event.relativeDirection || "before",
+            relativeEventId: event.relativeEventId || "",
+            relativeWeekday: event.relativeWeekday ?? null,
+            relativeWeekdayOrdinal: event.relativeWeekdayOrdinal ?? null,
+          };
+        case "recurring":
+          return {
+            ...base,
+            recurrenceRule: event.recurrenceRule ?? "",
+          };
+        case "easter":
+          return {
+            ...base,
+            easterVariant: event.easterVariant ?? "western",
+            easterOffset: event.easterOffset ?? 0,
+            baseYear: event.baseYear || new Date().getFullYear(),
+            recurUntilYear: event.recurUntilYear ?? null,
           };
         default:
           return base;
@@ -145,16 +223,25 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
     const base = {
       title: "",
       description: "",
-      dateType: activeTab as "fixed" | "nth" | "relative",
+      dateType: activeTab as "fixed" | "nth" | "relative" | "recurring" | "easter",
+      calendarId: defaultCalendarId,
+      workCalendarId: null,
+      weekendAdjustment: "none" as const,
+      category: "",
+      tags: [],
     };
     
     switch (activeTab) {
       case "fixed":
         return { ...base, startDate: "", endDate: "" };
       case "nth":
-        return { ...base, nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: new Date().getFullYear() };
+        return { ...base, nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: new Date().getFullYear(), recurUntilYear: null, nthFrequency: "yearly" as const, nthMonths: null, nthInterval: null };
       case "relative":
-        return { ...base, relativePeriod: 1, relativeUnit: "days" as const, relativeDirection: "before" as const, relativeEventName: "" };
+        return { ...base, relativePeriod: 1, relativeUnit: "days" as const, relativeDirection: "before" as const, relativeEventId: "", relativeWeekday: null, relativeWeekdayOrdinal: null };
+      case "recurring":
+        return { ...base, recurrenceRule: newRecurrenceRule() };
+      case "easter":
+        return { ...base, easterVariant: "western" as const, easterOffset: 0, baseYear: new Date().getFullYear(), recurUntilYear: null };
       default:
         return base;
     }
@@ -165,10 +252,36 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
     defaultValues: getDefaultValues(),
   });
 
+  // The reference event's date, for the pattern preview of relative events;
+  // a pack holiday has none until it is installed
+  const referenceEventId: string | undefined = form.watch("relativeEventId");
+  const referenceIsPackHoliday = !!anchors.find(anchor => anchor.id === referenceEventId)?.pack;
+  const { data: referenceResolution } = useQuery<ResolutionExplanation>({
+    queryKey: ["/api/events", referenceEventId, "resolution"],
+    enabled: activeTab === "relative" && !!referenceEventId && !referenceIsPackHoliday,
+  });
+
+  // The Nth tab shows the month controls the chosen frequency needs
+  const nthFrequency = form.watch("nthFrequency") ?? "yearly";
+  // The Easter tab edits the signed offset as a number of days and a relation
+  const easterOffset: number = form.watch("easterOffset") ?? 0;
+  // The Relative tab counts either a time period or weekdays from the anchor
+  const relativeWeekday: number | null = form.watch("relativeWeekday") ?? null;
+  const relativeDirection = form.watch("relativeDirection") ?? "before";
+
+  const setRelativeMode = (mode: string) => {
+    const byWeekday = mode === "weekday";
+    form.setValue("relativeWeekday", byWeekday ? 1 : null);
+    form.setValue("relativeWeekdayOrdinal", byWeekday ? 1 : null);
+    form.setValue("relativePeriod", byWeekday ? null : 1);
+    form.setValue("relativeUnit", byWeekday ? null : "days");
+  };
+
   // Reset form when editingEvent changes
   useEffect(() => {
     if (editingEvent) {
       setActiveTab(editingEvent.dateType);
+      setBaseVersion(editingEvent.version);
       const defaultValues = getDefaultValues();
       form.reset(defaultValues);
       
@@ -180,6 +293,13 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
     }
   }, [editingEvent]);
 
+  // New events follow the calendar switcher
+  useEffect(() => {
+    if (!editingEvent) {
+      form.setValue("calendarId", defaultCalendarId);
+    }
+  }, [defaultCalendarId]);
+
   const onSubmit = (data: any) => {
     const eventData: InsertEvent = {
       ...data,
@@ -187,42 +307,83 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
     };
     
     if (editingEvent) {
-      updateEventMutation.mutate(eventData);
+      updateEventMutation.mutate({ event: eventData, version: baseVersion });
     } else {
       createEventMutation.mutate(eventData);
     }
   };
 
+  // Discard local edits and continue from the copy someone else saved
+  const handleReloadConflict = () => {
+    if (!conflict) return;
+    setActiveTab(conflict.current.dateType);
+    setBaseVersion(conflict.current.version);
+    form.reset(getDefaultValues(conflict.current));
+    queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    setConflict(null);
+  };
+
+  // Save local edits on top of the newer copy
+  const handleOverwriteConflict = () => {
+    if (!conflict) return;
+    setBaseVersion(conflict.current.version);
+    updateEventMutation.mutate({ event: conflict.pending, version: conflict.current.version });
+    setConflict(null);
+  };
+
+  // Shows the day the pattern resolves to, as the list and the exports will
+  const withResolvedDate = (pattern: string, resolve: () => Date | null) => {
+    try {
+      const date = resolve();
+      return date ? `${pattern} (${date.toLocaleDateString()})` : pattern;
+    } catch {
+      return `${pattern} (no such day)`;
+    }
+  };
+
   const getPatternPreview = () => {
     const formData = form.getValues();
     
     if (activeTab === "nth") {
-      const occurrences = ["1st", "2nd", "3rd", "4th", "Last"];
-      const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const months = ["January", "February", "March", "April", "May", "June", 
-                     "July", "August", "September", "October", "November", "December"];
-      
-      const occurrence = formData.nthOccurrence === -1 ? "Last" : occurrences[(formData.nthOccurrence || 1) - 1];
-      const day = days[formData.dayOfWeek || 0];
-      const month = months[(formData.month || 1) - 1];
-      
-      return occurrence && day && month ? `${occurrence} ${day} in ${month}` : "Pattern preview";
+      const pattern = { ...formData, dateType: "nth" } as Event;
+      const rule = describeDateRule(pattern);
+      if (rule === "incomplete nth pattern") return "Pattern preview";
+      return withResolvedDate(rule, () => calculateEventDate(pattern, [], workWeeks));
     }
     
     if (activeTab === "relative") {
-      const referenceEventName = formData.relativeEventName;
-      const period = formData.relativePeriod;
-      const unit = formData.relativeUnit;
-      const direction = formData.relativeDirection;
+      const referenceEvent = anchors.find(event => event.id === formData.relativeEventId);
+      const pattern = { ...formData, dateType: "relative" } as Event;
+      const rule = describeDateRule(pattern, referenceEvent?.title);
       
-      return period && unit && direction && referenceEventName 
-        ? `${period} ${unit} ${direction} ${referenceEventName}`
-        : "Pattern preview";
+      if (!referenceEvent || rule === "incomplete relative pattern") return "Pattern preview";
+      return withResolvedDate(rule, () => {
+        const referenceDate = referenceResolution?.date ? toCalendarDate(referenceResolution.date) : null;
+        if (!referenceDate) return null;
+        const date = calculateRelativeEventDate(pattern, referenceDate, workWeeks(pattern));
+        return adjustToWorkday(date, pattern.weekendAdjustment, workWeeks(pattern));
+      });
+    }
+
+    if (activeTab === "recurring") {
+      const pattern = { ...formData, dateType: "recurring" } as Event;
+      const rule = describeDateRule(pattern);
+      if (rule === "no recurrence rule" || rule === "unreadable recurrence rule") return "Pattern preview";
+      return withResolvedDate(rule, () => calculateEventDate(pattern, [], workWeeks));
+    }
+
+    if (activeTab === "easter") {
+      const pattern = { ...formData, dateType: "easter" } as Event;
+      return withResolvedDate(describeDateRule(pattern), () => calculateEventDate(pattern, [], workWeeks));
     }
     
     return "";
   };
 
+  // Work calendars only matter to business-day offsets and weekend adjustments
+  const usesWorkWeek = (activeTab === "relative" && form.watch("relativeUnit") === "businessDays")
+    || (form.watch("weekendAdjustment") ?? "none") !== "none";
+
   return (
     <Card data-testid="event-form" className={editingEvent ? "ring-2 ring-primary" : ""}>
       <CardHeader>
@@ -233,19 +394,28 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={(value) => {
-          setActiveTab(value);
+          setActiveTab(value as "fixed" | "nth" | "relative" | "recurring" | "easter");
           // Reset form with proper defaults for the new tab
           const newDefaults = {
             title: "",
             description: "",
-            dateType: value as "fixed" | "nth" | "relative",
+            dateType: value as "fixed" | "nth" | "relative" | "recurring" | "easter",
+            calendarId: form.getValues("calendarId") ?? defaultCalendarId,
+            workCalendarId: form.getValues("workCalendarId") ?? null,
+            weekendAdjustment: form.getValues("weekendAdjustment") ?? "none",
+            category: "",
+            tags: [],
             ...(value === "fixed" && { startDate: "", endDate: "" }),
-            ...(value === "nth" && { nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: new Date().getFullYear() }),
-            ...(value === "relative" && { relativePeriod: 1, relativeUnit: "days" as const, relativeDirection: "before" as const, relativeEventName: "" }),
+            ...(value === "nth" && { nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: new Date().getFullYear(), recurUntilYear: null, nthFrequency: "yearly" as const, nthMonths: null, nthInterval: null }),
+            ...(value === "relative" && { relativePeriod: 1, relativeUnit: "days" as const, relativeDirection: "before" as const, relativeEventId: "", relativeWeekday: null, relativeWeekdayOrdinal: null }),
+            // Sent along so that an event switched away from Relative drops its anchor
+            ...(value !== "relative" && { relativePeriod: null, relativeUnit: null, relativeDirection: null, relativeEventId: null, relativeWeekday: null, relativeWeekdayOrdinal: null }),
+            ...(value === "recurring" && { recurrenceRule: newRecurrenceRule() }),
+            ...(value === "easter" && { easterVariant: "western" as const, easterOffset: 0, baseYear: new Date().getFullYear(), recurUntilYear: null }),
           };
           form.reset(newDefaults);
         }}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="fixed" className="flex items-center space-x-2" data-testid="tab-fixed">
               <Calendar className="h-4 w-4" />
               <span>Fixed Date</span>
@@ -258,6 +428,14 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
               <Link className="h-4 w-4" />
               <span>Relative Date</span>
             </TabsTrigger>
+            <TabsTrigger value="recurring" className="flex items-center space-x-2" data-testid="tab-recurring">
+              <Repeat className="h-4 w-4" />
+              <span>Recurring</span>
+            </TabsTrigger>
+            <TabsTrigger value="easter" className="flex items-center space-x-2" data-testid="tab-easter">
+              <Egg className="h-4 w-4" />
+              <span>Easter</span>
+            </TabsTrigger>
           </TabsList>
 
           <Form {...form}>
@@ -277,6 +455,37 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
                 )}
               />
 
+              {calendars.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="calendarId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Calendar</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === NO_CALENDAR ? null : value)}
+                        value={field.value ?? NO_CALENDAR}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-calendar">
+                            <SelectValue placeholder="Select calendar" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_CALENDAR}>No calendar</SelectItem>
+                          {calendars.map((calendar) => (
+                            <SelectItem key={calendar.id} value={calendar.id}>
+                              {calendar.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <TabsContent value="fixed" className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
@@ -309,7 +518,86 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
               </TabsContent>
 
               <TabsContent value="nth" className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="nthFrequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Frequency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value ?? "yearly"} data-testid="select-nth-frequency">
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="yearly">Every year</SelectItem>
+                            <SelectItem value="monthly">Every month</SelectItem>
+                            <SelectItem value="quarterly">Every quarter</SelectItem>
+                            <SelectItem value="selectedMonths">Selected months</SelectItem>
+                            <SelectItem value="weeks">Every few weeks</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {nthFrequency === "weeks" && (
+                    <FormField
+                      control={form.control}
+                      name="nthInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Weeks Between</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              placeholder="2"
+                              {...field}
+                              value={field.value || ""}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || null)}
+                              data-testid="input-nth-interval"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                {nthFrequency === "selectedMonths" && (
+                  <FormField
+                    control={form.control}
+                    name="nthMonths"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Months</FormLabel>
+                        <FormControl>
+                          <ToggleGroup
+                            type="multiple"
+                            variant="outline"
+                            size="sm"
+                            className="flex-wrap justify-start"
+                            value={(field.value ?? []).map(String)}
+                            onValueChange={(values) => field.onChange(values.length > 0 ? values.map(Number).sort((a, b) => a - b) : null)}
+                            data-testid="toggle-nth-months"
+                          >
+                            {["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"].map((label, index) => (
+                              <ToggleGroupItem key={label} value={String(index + 1)} aria-label={label}>
+                                {label}
+                              </ToggleGroupItem>
+                            ))}
+                          </ToggleGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className={`grid grid-cols-1 gap-4 ${nthFrequency === "selectedMonths" ? "md:grid-cols-2" : "md:grid-cols-3"}`}>
                   <FormField
                     control={form.control}
                     name="nthOccurrence"
@@ -360,31 +648,221 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
                       </FormItem>
                     )}
                   />
+                  {nthFrequency !== "selectedMonths" && (
+                    <FormField
+                      control={form.control}
+                      name="month"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{nthFrequency === "yearly" ? "Month" : "Starting Month"}</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()} data-testid="select-month">
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="1">January</SelectItem>
+                              <SelectItem value="2">February</SelectItem>
+                              <SelectItem value="3">March</SelectItem>
+                              <SelectItem value="4">April</SelectItem>
+                              <SelectItem value="5">May</SelectItem>
+                              <SelectItem value="6">June</SelectItem>
+                              <SelectItem value="7">July</SelectItem>
+                              <SelectItem value="8">August</SelectItem>
+                              <SelectItem value="9">September</SelectItem>
+                              <SelectItem value="10">October</SelectItem>
+                              <SelectItem value="11">November</SelectItem>
+                              <SelectItem value="12">December</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="baseYear"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Base Year</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            placeholder={new Date().getFullYear().toString()}
+                            {...field}
+                            value={field.value || ""}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || new Date().getFullYear())}
+                            data-testid="input-base-year"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="recurUntilYear"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat Until Year</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            placeholder="Base year only"
+                            {...field}
+                            value={field.value || ""}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || null)}
+                            data-testid="input-recur-until-year"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
+                <div className="bg-muted p-4 rounded-md">
+                  <p className="text-sm text-muted-foreground">
+                    Pattern preview: <span className="font-medium text-foreground">{getPatternPreview()}</span>
+                  </p>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="relative" className="space-y-4">
+                <FormItem>
+                  <FormLabel>Counted In</FormLabel>
+                  <Select onValueChange={setRelativeMode} value={relativeWeekday === null ? "period" : "weekday"}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-relative-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="period">A time period, e.g. 3 days before</SelectItem>
+                      <SelectItem value="weekday">Weekdays, e.g. the first Monday after</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {relativeWeekday !== null && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="relativeWeekdayOrdinal"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Which</FormLabel>
+                            <Select onValueChange={(value) => field.onChange(parseInt(value))} value={String(field.value ?? 1)}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-relative-weekday-ordinal">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="1">{relativeDirection === "before" ? "last" : "first"}</SelectItem>
+                                <SelectItem value="2">second</SelectItem>
+                                <SelectItem value="3">third</SelectItem>
+                                <SelectItem value="4">fourth</SelectItem>
+                                <SelectItem value="0">nearest, counting the same day</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="relativeWeekday"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Weekday</FormLabel>
+                            <Select onValueChange={(value) => field.onChange(parseInt(value))} value={String(field.value)}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-relative-weekday">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {WEEKDAYS.map((name, index) => (
+                                  <SelectItem key={name} value={String(index)}>{name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                  {relativeWeekday === null && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="relativePeriod"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Time Period</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                placeholder="10" 
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                data-testid="input-relative-period"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="relativeUnit"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Unit</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value} data-testid="select-relative-unit">
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="days">days</SelectItem>
+                                <SelectItem value="weeks">weeks</SelectItem>
+                                <SelectItem value="months">months</SelectItem>
+                                <SelectItem value="years">years</SelectItem>
+                                <SelectItem value="businessDays">business days</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
                   <FormField
                     control={form.control}
-                    name="month"
+                    name="relativeDirection"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Month</FormLabel>
-                        <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()} data-testid="select-month">
+                        <FormLabel>Relation</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} data-testid="select-relative-direction">
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="1">January</SelectItem>
-                            <SelectItem value="2">February</SelectItem>
-                            <SelectItem value="3">March</SelectItem>
-                            <SelectItem value="4">April</SelectItem>
-                            <SelectItem value="5">May</SelectItem>
-                            <SelectItem value="6">June</SelectItem>
-                            <SelectItem value="7">July</SelectItem>
-                            <SelectItem value="8">August</SelectItem>
-                            <SelectItem value="9">September</SelectItem>
-                            <SelectItem value="10">October</SelectItem>
-                            <SelectItem value="11">November</SelectItem>
-                            <SelectItem value="12">December</SelectItem>
+                            <SelectItem value="before">before</SelectItem>
+                            <SelectItem value="after">after</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -392,28 +870,56 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
                     )}
                   />
                 </div>
-                
+
+                <FormField
+                  control={form.control}
+                  name="relativeEventId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reference Event</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} data-testid="select-reference-event">
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select reference event" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {anchors
+                            .filter(event => event.dateType !== 'relative') // Don't allow relative events to reference other relative events
+                            .map((event) => (
+                            <SelectItem key={event.id} value={event.id}>
+                              {/* Pack holidays are installed when an event is saved against them */}
+                              {event.pack ? `${event.title} (${event.pack})` : event.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="bg-muted p-4 rounded-md">
+                  <p className="text-sm text-muted-foreground">
+                    Pattern preview: <span className="font-medium text-foreground">{getPatternPreview()}</span>
+                  </p>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="recurring" className="space-y-4">
                 <FormField
                   control={form.control}
-                  name="baseYear"
+                  name="recurrenceRule"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Base Year</FormLabel>
                       <FormControl>
-                        <Input 
-                          type="number" 
-                          placeholder={new Date().getFullYear().toString()}
-                          {...field}
-                          value={field.value || ""}
-                          onChange={(e) => field.onChange(parseInt(e.target.value) || new Date().getFullYear())}
-                          data-testid="input-base-year"
-                        />
+                        <RecurrenceBuilder value={field.value ?? ""} onChange={field.onChange} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                
+
                 <div className="bg-muted p-4 rounded-md">
                   <p className="text-sm text-muted-foreground">
                     Pattern preview: <span className="font-medium text-foreground">{getPatternPreview()}</span>
@@ -421,107 +927,170 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
                 </div>
               </TabsContent>
 
-              <TabsContent value="relative" className="space-y-4">
+              <TabsContent value="easter" className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormItem>
+                    <FormLabel>Days</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="0"
+                        value={Math.abs(easterOffset)}
+                        onChange={(e) => {
+                          const days = Math.max(0, parseInt(e.target.value) || 0);
+                          form.setValue("easterOffset", easterOffset < 0 ? -days : days);
+                        }}
+                        data-testid="input-easter-days"
+                      />
+                    </FormControl>
+                  </FormItem>
+                  <FormItem>
+                    <FormLabel>Relation</FormLabel>
+                    <Select
+                      onValueChange={(direction) => form.setValue("easterOffset", direction === "before" ? -Math.abs(easterOffset) : Math.abs(easterOffset))}
+                      value={easterOffset < 0 ? "before" : "after"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-easter-direction">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="before">before</SelectItem>
+                        <SelectItem value="after">after</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
                   <FormField
                     control={form.control}
-                    name="relativePeriod"
+                    name="easterVariant"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Time Period</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            placeholder="10" 
-                            {...field}
-                            value={field.value || ""}
-                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                            data-testid="input-relative-period"
-                          />
-                        </FormControl>
+                        <FormLabel>Easter</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-easter-variant">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="western">Western Easter Sunday</SelectItem>
+                            <SelectItem value="orthodox">Orthodox Easter Sunday</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
-                    name="relativeUnit"
+                    name="baseYear"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Unit</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value} data-testid="select-relative-unit">
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="days">days</SelectItem>
-                            <SelectItem value="weeks">weeks</SelectItem>
-                            <SelectItem value="months">months</SelectItem>
-                            <SelectItem value="years">years</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <FormLabel>Base Year</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder={new Date().getFullYear().toString()}
+                            {...field}
+                            value={field.value || ""}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || new Date().getFullYear())}
+                            data-testid="input-easter-base-year"
+                          />
+                        </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                   <FormField
                     control={form.control}
-                    name="relativeDirection"
+                    name="recurUntilYear"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Relation</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value} data-testid="select-relative-direction">
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="before">before</SelectItem>
-                            <SelectItem value="after">after</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <FormLabel>Repeat Until Year</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="Base year only"
+                            {...field}
+                            value={field.value || ""}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || null)}
+                            data-testid="input-easter-recur-until-year"
+                          />
+                        </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                 </div>
 
+                <div className="bg-muted p-4 rounded-md">
+                  <p className="text-sm text-muted-foreground">
+                    Pattern preview: <span className="font-medium text-foreground">{getPatternPreview()}</span>
+                  </p>
+                </div>
+              </TabsContent>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="relativeEventName"
+                  name="weekendAdjustment"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Reference Event Name</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value} data-testid="select-reference-event">
+                      <FormLabel>On a Day Off</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? "none"}>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select or type event name" />
+                          <SelectTrigger data-testid="select-weekend-adjustment">
+                            <SelectValue />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {events
-                            .filter(event => event.dateType !== 'relative') // Don't allow relative events to reference other relative events
-                            .map((event) => (
-                            <SelectItem key={event.id} value={event.title}>
-                              {event.title}
-                            </SelectItem>
-                          ))}
+                          <SelectItem value="none">Keep the date</SelectItem>
+                          <SelectItem value="nextWorkday">Move to the next business day</SelectItem>
+                          <SelectItem value="previousWorkday">Move to the previous business day</SelectItem>
+                          <SelectItem value="nearest">Move to the nearest business day</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+                {workCalendars.length > 0 && usesWorkWeek && (
+                  <FormField
+                    control={form.control}
+                    name="workCalendarId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Work Calendar</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === CALENDAR_WORK_WEEK ? null : value)}
+                          value={field.value ?? CALENDAR_WORK_WEEK}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-work-calendar">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={CALENDAR_WORK_WEEK}>Same as its calendar</SelectItem>
+                            {workCalendars.map((workCalendar) => (
+                              <SelectItem key={workCalendar.id} value={workCalendar.id}>
+                                {workCalendar.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
 
-                <div className="bg-muted p-4 rounded-md">
-                  <p className="text-sm text-muted-foreground">
-                    Pattern preview: <span className="font-medium text-foreground">{getPatternPreview()}</span>
-                  </p>
-                </div>
-              </TabsContent>
+              </div>
 
               <FormField
                 control={form.control}
@@ -542,6 +1111,35 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
                 )}
               />
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Holiday" {...field} value={field.value || ""} maxLength={100} data-testid="input-category" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <TagInput value={field.value || []} onChange={field.onChange} placeholder="Type a tag and press Enter" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="flex justify-end space-x-2">
                 {editingEvent && onEditComplete && (
                   <Button 
@@ -569,6 +1167,26 @@ export default function EventForm({ onEventCreated, editingEvent, onEditComplete
             </form>
           </Form>
         </Tabs>
+
+        <AlertDialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+          <AlertDialogContent data-testid="dialog-edit-conflict">
+            <AlertDialogHeader>
+              <AlertDialogTitle>This event was changed by someone else</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{conflict?.current.title}" was saved in another tab or by a teammate after you started editing.
+                Reload their version to discard your changes, or overwrite it with yours.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={handleReloadConflict} data-testid="button-conflict-reload">
+                Reload their version
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={handleOverwriteConflict} data-testid="button-conflict-overwrite">
+                Overwrite with mine
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,181 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnchorOption, Event, EventRevision } from "@shared/schema";
+
+// Revisions as returned by the history endpoint, with the dates each side resolved to
+type RevisionWithDates = EventRevision & {
+  resolvedBefore: string | null;
+  resolvedAfter: string | null;
+};
+
+interface EventHistoryProps {
+  event: Event;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  category: "Category",
+  tags: "Tags",
+  workCalendarId: "Work calendar",
+  weekendAdjustment: "On a day off",
+  dateType: "Date type",
+  startDate: "Start date",
+  endDate: "End date",
+  nthOccurrence: "Occurrence",
+  dayOfWeek: "Day of week",
+  month: "Month",
+  baseYear: "Base year",
+  recurUntilYear: "Repeats until",
+  nthFrequency: "Frequency",
+  nthMonths: "Months",
+  nthInterval: "Weeks between",
+  relativePeriod: "Period",
+  relativeUnit: "Unit",
+  relativeDirection: "Direction",
+  relativeEventId: "Reference event",
+  relativeEventName: "Reference event", // revisions recorded before anchors were referenced by id
+  relativeWeekday: "Weekday",
+  relativeWeekdayOrdinal: "Which weekday",
+  recurrenceRule: "Recurrence rule",
+  easterVariant: "Easter",
+  easterOffset: "Days from Easter",
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "nthMonths" && Array.isArray(value) && value.length > 0) {
+    const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+    return value.map(month => months[month - 1] ?? String(month)).join(", ");
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (field === "startDate" || field === "endDate") {
+    return new Date(value as string).toLocaleDateString();
+  }
+  if (field === "dayOfWeek" || field === "relativeWeekday") {
+    const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+    return days[value as number] ?? String(value);
+  }
+  if (field === "nthOccurrence" && value === -1) return "Last";
+  if (field === "relativeUnit" && value === "businessDays") return "business days";
+  return String(value);
+};
+
+const formatResolvedDate = (value: string | null) => {
+  return value ? new Date(value).toLocaleDateString() : "Date not set";
+};
+
+export default function EventHistory({ event }: EventHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<RevisionWithDates[]>({
+    queryKey: ["/api/events", event.id, "history"],
+  });
+
+  const { data: anchors = [] } = useQuery<AnchorOption[]>({
+    queryKey: ["/api/events", "anchors"],
+  });
+
+  // Anchors are stored by id; show their titles where the event still exists
+  const formatChange = (field: string, value: unknown) => {
+    if (field === "relativeEventId" && value) {
+      return anchors.find(e => e.id === value)?.title ?? "Deleted event";
+    }
+    return formatValue(field, value);
+  };
+
+  const revertMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest("POST", `/api/events/${event.id}/revert/${revision}`);
+      return response.json();
+    },
+    onSuccess: (_data, revision) => {
+      toast({
+        title: "Success",
+        description: revision === 0 ? "Event reverted to its original version." : `Event reverted to revision ${revision}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revert event. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" data-testid={`button-history-${event.id}`}>
+          <History className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History of "{event.title}"</SheetTitle>
+          <SheetDescription>Every edit to this event, newest first.</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner" />
+            <span className="ml-2 text-muted-foreground">Loading history...</span>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">This event has not been edited yet.</p>
+        ) : (
+          <div className="space-y-4 mt-6">
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className="bg-secondary/50 p-3 rounded-lg border border-border space-y-2"
+                data-testid={`revision-${revision.revision}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary">#{revision.revision}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {revision.author} · {new Date(revision.changedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revertMutation.mutate(revision.revision - 1)}
+                    disabled={revertMutation.isPending}
+                    data-testid={`button-revert-${revision.revision}`}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Revert to before
+                  </Button>
+                </div>
+
+                <div className="text-sm space-y-1">
+                  {Object.entries(revision.changes).map(([field, change]) => (
+                    <div key={field}>
+                      <span className="font-medium text-foreground">{fieldLabels[field] ?? field}: </span>
+                      <span className="line-through text-destructive">{formatChange(field, change.before)}</span>
+                      {" → "}
+                      <span className="text-primary">{formatChange(field, change.after)}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Resolved date: {formatResolvedDate(revision.resolvedBefore)} → {formatResolvedDate(revision.resolvedAfter)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,46 +1,142 @@
+import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { Calendar, CalendarDays, Link, Edit, Trash2, Search, Trash } from "lucide-react";
+import { AlertTriangle, Calendar, CalendarDays, Link, Edit, Trash2, Search, Trash, Tag, Repeat, Egg } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import TrashDialog from "@/components/trash-dialog";
+import EventHistory from "@/components/event-history";
+import ResolutionPanel from "@/components/resolution-panel";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { calculateEventDate } from "@/lib/date-utils";
-import type { Event } from "@shared/schema";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import { describeDateRule, toCalendarDate } from "@shared/date-resolver";
+import type { DeleteCascade, Event, EventSort, HighlightRange, ListedEvent } from "@shared/schema";
+
+type Dependent = Pick<Event, "id" | "title" | "relativeEventId">;
+
+// How long typing pauses before the search runs
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Renders `text` with the matched ranges marked
+function Highlighted({ text, ranges = [] }: { text: string; ranges?: HighlightRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="bg-primary/20 text-foreground rounded-sm">{text.slice(start, end)}</mark>);
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
 
 interface EventsListProps {
-  events: Event[];
+  // The current page, already filtered, sorted and resolved by the server;
+  // search results carry their match details
+  events: ListedEvent[];
+  // Tags in use on any event, offered by the tag filter
+  availableTags: string[];
+  // Number of active events, whatever the filters
+  activeCount: number;
   isLoading: boolean;
+  // Number of events matching the filters across all pages
+  totalCount: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+  onPreviousPage: () => void;
+  onNextPage: () => void;
+  sort: EventSort;
+  onSortChange: (sort: EventSort) => void;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
   selectedFilter: string;
   onFilterChange: (filter: string) => void;
+  // Only events carrying every selected tag are shown
+  selectedTags: string[];
+  onTagsChange: (tags: string[]) => void;
   onEventDeleted: () => void;
   onEventEdit: (event: Event) => void;
 }
 
 export default function EventsList({ 
   events, 
+  availableTags,
+  activeCount,
   isLoading, 
+  totalCount,
+  hasPreviousPage,
+  hasNextPage,
+  onPreviousPage,
+  onNextPage,
+  sort,
+  onSortChange,
+  searchQuery,
+  onSearchChange,
   selectedFilter, 
   onFilterChange,
+  selectedTags,
+  onTagsChange,
   onEventDeleted,
   onEventEdit 
 }: EventsListProps) {
   const { toast } = useToast();
+  // Event awaiting a decision on what happens to the events anchored to it
+  const [pendingDelete, setPendingDelete] = useState<{ event: Event; dependents: Dependent[] } | null>(null);
+
+  const [searchDraft, setSearchDraft] = useState(searchQuery);
+
+  // Follow the URL when it changes elsewhere, e.g. with the back button
+  useEffect(() => {
+    setSearchDraft(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (searchDraft === searchQuery) return;
+    const timeout = setTimeout(() => onSearchChange(searchDraft), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchDraft]);
 
   const deleteEventMutation = useMutation({
-    mutationFn: async (eventId: string) => {
-      await apiRequest("DELETE", `/api/events/${eventId}`);
+    mutationFn: async ({ event, cascade }: { event: Event; cascade?: DeleteCascade }) => {
+      const url = cascade ? `/api/events/${event.id}?cascade=${cascade}` : `/api/events/${event.id}`;
+      await apiRequest("DELETE", url, undefined, { "If-Match": `"${event.version}"` });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { cascade }) => {
+      const descriptions = {
+        delete: "Event and the events anchored to it moved to the trash.",
+        detach: "Event moved to the trash. Events anchored to it no longer have a reference event.",
+        convertToFixed: "Event moved to the trash. Events anchored to it now have fixed dates.",
+      };
       toast({
         title: "Success",
-        description: "Event deleted successfully!",
+        description: cascade ? descriptions[cascade] : "Event moved to the trash.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       onEventDeleted();
     },
-    onError: () => {
+    onError: (error, { event }) => {
+      if (error instanceof ApiError && error.status === 409) {
+        // Someone anchored an event to it since the list was loaded
+        const { dependents } = JSON.parse(error.body);
+        if (dependents) {
+          setPendingDelete({ event, dependents });
+          return;
+        }
+        toast({
+          title: "Event changed",
+          description: "Someone else edited this event. The list has been refreshed, please review it before deleting.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+        return;
+      }
       toast({
         title: "Error", 
         description: "Failed to delete event. Please try again.",
@@ -57,9 +153,10 @@ export default function EventsList({
     onSuccess: (data: any) => {
       toast({
         title: "Success",
-        description: `All events cleared successfully! Deleted ${data.deletedCount} events.`,
+        description: `All events cleared successfully! Moved ${data.deletedCount} events to the trash.`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       onEventDeleted();
     },
     onError: () => {
@@ -71,14 +168,29 @@ export default function EventsList({
     },
   });
 
-  const handleDeleteEvent = (eventId: string) => {
-    if (confirm("Are you sure you want to delete this event?")) {
-      deleteEventMutation.mutate(eventId);
+  const toggleTag = (tag: string) => {
+    onTagsChange(selectedTags.includes(tag)
+      ? selectedTags.filter(selected => selected !== tag)
+      : [...selectedTags, tag]);
+  };
+
+  const handleDeleteEvent = (event: ListedEvent) => {
+    if (event.listing.dependentCount > 0) {
+      // Refused with the list of dependents, which opens the cascade choice
+      deleteEventMutation.mutate({ event });
+    } else if (confirm("Move this event to the trash?")) {
+      deleteEventMutation.mutate({ event });
     }
   };
 
+  const handleCascadeDelete = (cascade: DeleteCascade) => {
+    if (!pendingDelete) return;
+    deleteEventMutation.mutate({ event: pendingDelete.event, cascade });
+    setPendingDelete(null);
+  };
+
   const handleClearAllEvents = () => {
-    if (events.length === 0) {
+    if (activeCount === 0) {
       toast({
         title: "No Events",
         description: "There are no events to clear.",
@@ -87,7 +199,7 @@ export default function EventsList({
       return;
     }
     
-    if (confirm(`Are you sure you want to delete all ${events.length} events? This action cannot be undone.`)) {
+    if (confirm(`Are you sure you want to move all ${activeCount} events to the trash?`)) {
       clearAllEventsMutation.mutate();
     }
   };
@@ -97,6 +209,8 @@ export default function EventsList({
       case "fixed": return <Calendar className="h-4 w-4 text-primary" />;
       case "nth": return <CalendarDays className="h-4 w-4 text-primary" />;
       case "relative": return <Link className="h-4 w-4 text-primary" />;
+      case "recurring": return <Repeat className="h-4 w-4 text-primary" />;
+      case "easter": return <Egg className="h-4 w-4 text-primary" />;
       default: return <Calendar className="h-4 w-4 text-primary" />;
     }
   };
@@ -106,12 +220,16 @@ export default function EventsList({
       fixed: "default",
       nth: "secondary", 
       relative: "destructive",
+      recurring: "outline",
+      easter: "secondary",
     } as const;
 
     const labels = {
       fixed: "Fixed Date",
       nth: "Nth Date",
       relative: "Relative Date",
+      recurring: "Recurring",
+      easter: "Easter",
     };
 
     return (
@@ -121,52 +239,24 @@ export default function EventsList({
     );
   };
 
-  const formatEventDate = (event: Event) => {
-    if (event.dateType === "fixed" && event.startDate) {
-      // Handle date strings properly to avoid timezone issues
-      const formatDateString = (dateValue: any) => {
-        if (typeof dateValue === 'string') {
-          // If it's a date string like "2025-09-01", parse it as local date
-          const [year, month, day] = dateValue.split('T')[0].split('-');
-          return new Date(parseInt(year), parseInt(month) - 1, parseInt(day)).toLocaleDateString();
-        } else {
-          // If it's already a Date object
-          return new Date(dateValue).toLocaleDateString();
-        }
-      };
-      
-      const start = formatDateString(event.startDate);
-      
-      if (event.endDate) {
-        const end = formatDateString(event.endDate);
-        return start === end ? start : `${start} - ${end}`;
-      } else {
-        // Single day event
-        return start;
-      }
+  const formatEventDate = (event: ListedEvent) => {
+    const { listing } = event;
+
+    if (event.dateType === "fixed" && listing.start && listing.end) {
+      const start = toCalendarDate(listing.start).toLocaleDateString();
+      const end = toCalendarDate(listing.end).toLocaleDateString();
+      return start === end ? start : `${start} - ${end}`;
     }
     
-    // Try to calculate the actual date
-    const calculatedDate = calculateEventDate(event, events);
+    const calculatedDate = listing.start ? toCalendarDate(listing.start) : null;
     
-    if (event.dateType === "nth") {
-      const occurrences = ["", "1st", "2nd", "3rd", "4th"];
-      const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const months = ["", "January", "February", "March", "April", "May", "June", 
-                     "July", "August", "September", "October", "November", "December"];
-      
-      const occurrence = event.nthOccurrence === -1 ? "Last" : occurrences[event.nthOccurrence || 1];
-      const day = days[event.dayOfWeek || 0];
-      const month = months[event.month || 1];
-      const year = event.baseYear || new Date().getFullYear();
-      
-      const pattern = `${occurrence} ${day} in ${month} ${year}`;
+    if (event.dateType === "nth" || event.dateType === "recurring" || event.dateType === "easter") {
+      const pattern = describeDateRule(event);
       return calculatedDate ? `${calculatedDate.toLocaleDateString()} (${pattern})` : pattern;
     }
     
     if (event.dateType === "relative") {
-      const referenceEvent = events.find(e => e.title === event.relativeEventName);
-      const pattern = `${event.relativePeriod} ${event.relativeUnit} ${event.relativeDirection} ${referenceEvent ? referenceEvent.title : 'reference event'}`;
+      const pattern = describeDateRule(event, listing.anchorTitle ?? 'reference event');
       return calculatedDate ? `${calculatedDate.toLocaleDateString()} (${pattern})` : pattern;
     }
     
@@ -205,16 +295,72 @@ export default function EventsList({
                 <SelectItem value="fixed">Fixed Dates</SelectItem>
                 <SelectItem value="nth">Nth Dates</SelectItem>
                 <SelectItem value="relative">Relative Dates</SelectItem>
+                <SelectItem value="recurring">Recurring Dates</SelectItem>
+                <SelectItem value="easter">Easter Dates</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" size="icon" data-testid="button-search">
-              <Search className="h-4 w-4" />
-            </Button>
+            <Select value={sort} onValueChange={(value) => onSortChange(value as EventSort)}>
+              <SelectTrigger className="w-40" data-testid="select-event-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {searchQuery.trim() && <SelectItem value="relevance">Best match</SelectItem>}
+                <SelectItem value="createdAt">Date created</SelectItem>
+                <SelectItem value="title">Title</SelectItem>
+                <SelectItem value="date">Event date</SelectItem>
+              </SelectContent>
+            </Select>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={availableTags.length === 0} data-testid="button-tag-filter">
+                  <Tag className="h-4 w-4 mr-2" />
+                  Tags
+                  {selectedTags.length > 0 && (
+                    <Badge variant="secondary" className="ml-2">{selectedTags.length}</Badge>
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                <DropdownMenuLabel>Show events tagged with</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {availableTags.map((tag) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag}
+                    checked={selectedTags.includes(tag)}
+                    onCheckedChange={() => toggleTag(tag)}
+                    onSelect={(e) => e.preventDefault()}
+                    data-testid={`filter-tag-${tag}`}
+                  >
+                    {tag}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                {selectedTags.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => onTagsChange([])} data-testid="button-clear-tag-filter">
+                      Clear tag filter
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                value={searchDraft}
+                onChange={(e) => setSearchDraft(e.target.value)}
+                placeholder="Search events"
+                className="w-48 pl-8"
+                data-testid="input-search"
+              />
+            </div>
+            <TrashDialog onEventRestored={onEventDeleted} />
             <Button 
               variant="destructive" 
               size="sm" 
               onClick={handleClearAllEvents}
-              disabled={clearAllEventsMutation.isPending || events.length === 0}
+              disabled={clearAllEventsMutation.isPending || activeCount === 0}
               data-testid="button-clear-all"
             >
               <Trash className="h-4 w-4 mr-2" />
@@ -225,7 +371,13 @@ export default function EventsList({
       </CardHeader>
 
       <CardContent>
-        {events.length === 0 ? (
+        {events.length === 0 && searchQuery.trim() ? (
+          <div className="text-center py-8" data-testid="text-no-search-results">
+            <Search className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">No events match "{searchQuery.trim()}"</h3>
+            <p className="text-muted-foreground">Try fewer or shorter words, or clear the search.</p>
+          </div>
+        ) : events.length === 0 ? (
           <div className="text-center py-8">
             <Calendar className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">No events created yet</h3>
@@ -233,67 +385,112 @@ export default function EventsList({
           </div>
         ) : (
           <div className="space-y-4">
-            {events.map((event) => (
-              <div 
-                key={event.id} 
-                className="event-card bg-secondary/50 p-4 rounded-lg border border-border"
-                data-testid={`event-card-${event.id}`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h4 className="font-medium text-foreground" data-testid={`event-title-${event.id}`}>
-                        {event.title}
-                      </h4>
-                      {getEventTypeBadge(event.dateType)}
-                    </div>
-                    <div className="text-sm text-muted-foreground space-y-1">
-                      <div className="flex items-center space-x-2">
-                        {getEventTypeIcon(event.dateType)}
-                        <span data-testid={`event-date-${event.id}`}>
-                          {formatEventDate(event)}
-                        </span>
+            {events.map((event) => {
+              const search = "search" in event ? event.search : undefined;
+              // Why the event has no date: an anchor loop, a deleted anchor, an
+              // occurrence the month does not have or an unusable recurrence rule
+              const resolutionProblem = event.listing.problem;
+              return (
+                <div 
+                  key={event.id} 
+                  className="event-card bg-secondary/50 p-4 rounded-lg border border-border"
+                  data-testid={`event-card-${event.id}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <h4 className="font-medium text-foreground" data-testid={`event-title-${event.id}`}>
+                          <Highlighted text={event.title} ranges={search?.highlights.title} />
+                        </h4>
+                        {getEventTypeBadge(event.dateType)}
+                        {event.listing.anchorTrashed && (
+                          <Badge variant="outline" className="text-destructive border-destructive" data-testid={`badge-anchor-deleted-${event.id}`}>
+                            Anchor deleted
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <div className="flex items-center space-x-2">
+                          {getEventTypeIcon(event.dateType)}
+                          <span data-testid={`event-date-${event.id}`}>
+                            {formatEventDate(event)}
+                          </span>
+                        </div>
+                        {resolutionProblem && (
+                          <div className="flex items-center space-x-2 text-destructive" data-testid={`event-problem-${event.id}`}>
+                            <AlertTriangle className="h-4 w-4" />
+                            <span>{resolutionProblem}</span>
+                          </div>
+                        )}
+                        {event.description && (
+                          <p className="text-xs text-muted-foreground/80 mt-1">
+                            <Highlighted text={event.description} ranges={search?.highlights.description} />
+                          </p>
+                        )}
+                        {search?.anchorTitle && search.highlights.anchorTitle.length > 0 && (
+                          <p className="text-xs text-muted-foreground/80" data-testid={`event-anchor-match-${event.id}`}>
+                            Reference event: <Highlighted text={search.anchorTitle} ranges={search.highlights.anchorTitle} />
+                          </p>
+                        )}
+                        {(event.category || event.tags.length > 0) && (
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {event.category && (
+                              <Badge variant="outline" data-testid={`event-category-${event.id}`}>
+                                {event.category}
+                              </Badge>
+                            )}
+                            {event.tags.map((tag) => (
+                              <Badge
+                                key={tag}
+                                variant={selectedTags.includes(tag) ? "default" : "secondary"}
+                                className="cursor-pointer"
+                                onClick={() => toggleTag(tag)}
+                                data-testid={`event-tag-${event.id}-${tag}`}
+                              >
+                                #{tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <ResolutionPanel event={event} />
                       </div>
-                      {event.description && (
-                        <p className="text-xs text-muted-foreground/80 mt-1">
-                          {event.description}
-                        </p>
-                      )}
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Button 
-                      variant="ghost" 
-                      size="icon"
-                      onClick={() => onEventEdit(event)}
-                      data-testid={`button-edit-${event.id}`}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      variant="ghost" 
-                      size="icon"
-                      onClick={() => handleDeleteEvent(event.id)}
-                      disabled={deleteEventMutation.isPending}
-                      data-testid={`button-delete-${event.id}`}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center space-x-2">
+                      <EventHistory event={event} />
+                      <Button 
+                        variant="ghost" 
+                        size="icon"
+                        onClick={() => onEventEdit(event)}
+                        data-testid={`button-edit-${event.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="icon"
+                        onClick={() => handleDeleteEvent(event)}
+                        disabled={deleteEventMutation.isPending}
+                        data-testid={`button-delete-${event.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
 
             <div className="mt-6 pt-4 border-t border-border">
               <div className="flex justify-between items-center">
                 <p className="text-sm text-muted-foreground" data-testid="text-event-count">
-                  Showing {events.length} of {events.length} events
+                  Showing {events.length} of {totalCount} events
                 </p>
                 <div className="flex space-x-2">
                   <Button 
                     variant="outline" 
                     size="sm" 
-                    disabled
+                    onClick={onPreviousPage}
+                    disabled={!hasPreviousPage}
                     data-testid="button-previous"
                   >
                     Previous
@@ -301,7 +498,8 @@ export default function EventsList({
                   <Button 
                     variant="outline" 
                     size="sm" 
-                    disabled
+                    onClick={onNextPage}
+                    disabled={!hasNextPage}
                     data-testid="button-next"
                   >
                     Next
@@ -312,6 +510,47 @@ export default function EventsList({
           </div>
         )}
       </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent data-testid="dialog-delete-dependents">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.event.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              These events take their date from it and will be affected:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-1 text-sm max-h-60 overflow-y-auto">
+            {pendingDelete?.dependents.map((dependent) => {
+              const anchor = pendingDelete.dependents.find(e => e.id === dependent.relativeEventId);
+              return (
+                <li key={dependent.id} data-testid={`dependent-${dependent.id}`}>
+                  <span className="font-medium text-foreground">{dependent.title}</span>
+                  {anchor && <span className="text-muted-foreground"> (through {anchor.title})</span>}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            Detaching or converting only changes the events anchored directly to "{pendingDelete?.event.title}".
+          </p>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={() => handleCascadeDelete("detach")} data-testid="button-cascade-detach">
+              Detach
+            </Button>
+            <Button variant="outline" onClick={() => handleCascadeDelete("convertToFixed")} data-testid="button-cascade-convert">
+              Convert to fixed dates
+            </Button>
+            <AlertDialogAction
+              onClick={() => handleCascadeDelete("delete")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-cascade-delete"
+            >
+              Delete all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
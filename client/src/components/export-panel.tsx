@@ -7,15 +7,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { generateICS } from "@/lib/ics-export";
+import { useWorkWeeks } from "@/hooks/use-work-weeks";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event } from "@shared/schema";
+import { toCalendarDate } from "@shared/date-resolver";
+import type { Calendar as CalendarEntity, Event } from "@shared/schema";
 
 interface ExportPanelProps {
-  events: Event[];
+  // Only events of this calendar are exported, or all of them without one
+  calendar?: CalendarEntity | null;
+  // Only events carrying every one of these tags are exported
+  tags?: string[];
   stats: {
     fixed: number;
     nth: number;
     relative: number;
+    recurring: number;
+    easter: number;
     total: number;
   };
 }
@@ -25,7 +32,7 @@ interface ExportSettings {
   setReminders: boolean;
 }
 
-export default function ExportPanel({ events, stats }: ExportPanelProps) {
+export default function ExportPanel({ calendar, tags = [], stats }: ExportPanelProps) {
   const { toast } = useToast();
   const [exportSettings, setExportSettings] = useState<ExportSettings>({
     includeDescriptions: true,
@@ -36,15 +43,34 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const workWeeks = useWorkWeeks();
+
+  // Downloads are named after the selected calendar
+  const fileBaseName = calendar
+    ? calendar.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'calendar'
+    : 'events';
+
+  // The events to export, loaded when an export asks for them, along with
+  // every active and trashed event for relative events anchored elsewhere
+  const loadEvents = async () => {
+    const allEvents = await queryClient.fetchQuery<Event[]>({ queryKey: ["/api/events"] });
+    const trashedEvents = await queryClient.fetchQuery<Event[]>({ queryKey: ["/api/trash"] });
+    const events = allEvents.filter(event =>
+      (!calendar || event.calendarId === calendar.id) && tags.every(tag => event.tags.includes(tag))
+    );
+    return { events, allEvents, trashedEvents };
+  };
+
   const handleGoogleCalendarExport = async () => {
     try {
+      const { events, allEvents, trashedEvents } = await loadEvents();
       // Generate ICS file and trigger download
-      const icsContent = generateICS(events, exportSettings);
+      const icsContent = generateICS(events, exportSettings, allEvents, trashedEvents, workWeeks);
       const blob = new Blob([icsContent], { type: 'text/calendar' });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'calendar-events.ics';
+      a.download = calendar ? `${fileBaseName}.ics` : 'calendar-events.ics';
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -65,12 +91,14 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
 
   const handleICSDownload = async () => {
     try {
-      const response = await fetch("/api/events/export/ics");
+      const endpoint = calendar ? `/api/calendars/${calendar.id}/export/ics` : "/api/events/export/ics";
+      const query = tags.length > 0 ? `?tags=${encodeURIComponent(tags.join(","))}` : "";
+      const response = await fetch(endpoint + query);
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = "events.ics";
+      a.download = `${fileBaseName}.ics`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -89,19 +117,29 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
     }
   };
 
-  const handleCSVExport = () => {
+  const handleCSVExport = async () => {
     try {
-      const csvHeader = "Title,Date Type,Start Date,End Date,Description\n";
+      const { events } = await loadEvents();
+      const csvHeader = "Title,Date Type,Start Date,End Date,Description,Category,Tags,Recurrence Rule,Base Year,Recur Until Year,Easter Variant,Easter Offset,Weekend Adjustment\n";
       const csvRows = events.map(event => {
-        const startDate = event.startDate ? new Date(event.startDate).toLocaleDateString() : "";
-        const endDate = event.endDate ? new Date(event.endDate).toLocaleDateString() : "";
+        const startDate = event.startDate ? toCalendarDate(event.startDate).toLocaleDateString() : "";
+        const endDate = event.endDate ? toCalendarDate(event.endDate).toLocaleDateString() : "";
         
         return [
           `"${event.title}"`,
           `"${event.dateType}"`,
           `"${startDate}"`,
           `"${endDate}"`,
-          `"${event.description || ""}"`
+          `"${event.description || ""}"`,
+          `"${event.category || ""}"`,
+          `"${event.tags.join(", ")}"`,
+          // One line, as the import reads rule lines separated by spaces too
+          `"${event.recurrenceRule?.replace(/\n/g, " ") || ""}"`,
+          `"${event.baseYear ?? ""}"`,
+          `"${event.recurUntilYear ?? ""}"`,
+          `"${event.easterVariant ?? ""}"`,
+          `"${event.easterOffset ?? ""}"`,
+          `"${event.weekendAdjustment ?? ""}"`
         ].join(",");
       }).join("\n");
 
@@ -110,7 +148,7 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'events.csv';
+      a.download = `${fileBaseName}.csv`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -148,7 +186,7 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
       
       toast({
         title: "Year Updated Successfully!",
-        description: `Updated ${data.updatedCount} nth date events to year ${newYear}`,
+        description: `Updated ${data.updatedCount} nth and easter date events to year ${newYear}`,
       });
     } catch (error) {
       toast({
@@ -226,13 +264,23 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
     // Create CSV template with example data for each event type
     const templateData = [
       // Headers
-      'Title,Date Type,Description,Start Date,End Date,Nth Occurrence,Day of Week,Month,Base Year,Relative Period,Relative Unit,Relative Direction,Relative Event Name',
-      // Fixed date example
-      'Company Holiday,fixed,Christmas Day,2024-12-25,2024-12-25,,,,,,,,',
-      // Nth date example
-      'Board Meeting,nth,Monthly board meeting,,,2,2,1,2024,,,,',
+      'Title,Date Type,Description,Start Date,End Date,Nth Occurrence,Day of Week,Month,Base Year,Recur Until Year,Frequency,Months,Week Interval,Relative Period,Relative Unit,Relative Direction,Relative Event Name,Category,Tags,Recurrence Rule,Easter Variant,Easter Offset,Relative Weekday,Weekday Ordinal,Weekend Adjustment',
+      // Fixed date example, moved to the Monday when it falls on a weekend
+      'Company Holiday,fixed,Christmas Day,2024-12-25,2024-12-25,,,,,,,,,,,,,Holiday,"office, paid",,,,,,next workday',
+      // Nth date example, repeating every month from January
+      'Board Meeting,nth,Monthly board meeting,,,2,2,1,2024,,monthly,,,,,,,Meeting,board',
+      // Nth date example in selected months, repeating every year
+      'Quarterly Review,nth,Review at the end of each quarter,,,-1,5,,2024,2030,selected months,"Mar, Jun, Sep, Dec",,,,,,Meeting,hr',
+      // Nth date example, every two weeks from the first Monday of January
+      'Sprint Planning,nth,Start of each sprint,,,1,1,1,2024,,weeks,,2,,,,,Meeting,engineering',
       // Relative date example (references event by name)
-      'Holiday Party Setup,relative,Setup for holiday party,,,,,,-3,days,before,Company Holiday'
+      'Holiday Party Setup,relative,Setup for holiday party,,,,,,,,,,,3,days,before,Company Holiday,,office',
+      // Weekday-anchored relative example: the first Monday after the holiday
+      'Back to Work,relative,First Monday after the holiday,,,,,,,,,,,,,after,Company Holiday,,office,,,,Monday,first',
+      // Recurring example: every other Friday, ten times, skipping one
+      'Payroll Run,recurring,Biweekly payroll,,,,,,,,,,,,,,,Finance,payroll,DTSTART:20240105 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;COUNT=10 EXDATE:20240216',
+      // Easter example: two days before Western Easter, every year through 2030
+      'Good Friday,easter,Office closed,,,,,,2024,2030,,,,,,,,Holiday,office,,western,-2'
     ];
     
     const csvContent = templateData.join('\n');
@@ -327,11 +375,15 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
                 <div className="space-y-1">
                   <span className="font-medium text-foreground">CSV Import Format:</span>
                   <div className="text-muted-foreground space-y-1">
-                    <p><strong>Required:</strong> Title, Date Type (fixed/nth/relative)</p>
+                    <p><strong>Required:</strong> Title, Date Type (fixed/nth/relative/recurring/easter)</p>
                     <p><strong>Fixed dates:</strong> Start Date, End Date (YYYY-MM-DD)</p>
-                    <p><strong>Nth dates:</strong> Nth Occurrence (1-4,-1), Day of Week (0-6), Month (1-12), Base Year</p>
-                    <p><strong>Relative dates:</strong> Relative Period, Relative Unit, Relative Direction, Relative Event Name</p>
-                    <p><strong>Optional:</strong> Description</p>
+                    <p><strong>Nth dates:</strong> Nth Occurrence (1-4,-1), Day of Week (0-6), Month (1-12), Base Year, Recur Until Year (optional)</p>
+                    <p><strong>Nth frequency (optional):</strong> Frequency (yearly/monthly/quarterly/selected months/weeks), Months (e.g. Mar, Jun), Week Interval</p>
+                    <p><strong>Relative dates:</strong> Relative Period, Relative Unit (days/weeks/months/years/business days), Relative Direction, Relative Event Name or Relative Event ID. A holiday pack key such as us-federal:labor-day installs and anchors to that holiday</p>
+                    <p><strong>Weekday-anchored relative dates (optional):</strong> Relative Weekday (0-6 or Monday...) in place of the period and unit, Weekday Ordinal (first-fourth, last, or "on or" to count the anchor's own day)</p>
+                    <p><strong>Recurring dates:</strong> Recurrence Rule (iCalendar DTSTART, RRULE, EXDATE and RDATE separated by spaces)</p>
+                    <p><strong>Easter dates:</strong> Easter Variant (western/orthodox), Easter Offset (days, e.g. -2 for Good Friday), Base Year, Recur Until Year (optional)</p>
+                    <p><strong>Optional:</strong> Description, Category, Tags (separated by commas or semicolons), Weekend Adjustment (none/next workday/previous workday/nearest: where a date on a day off moves)</p>
                     <p className="text-xs italic">💡 Download the template above for proper formatting examples</p>
                   </div>
                 </div>
@@ -374,7 +426,7 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
                 <span className="text-muted-foreground">
                   <span className="font-medium text-foreground" data-testid="text-ready-events">
                     {stats.total} events
-                  </span> ready to export
+                  </span> ready to export{calendar && <> from {calendar.name}</>}
                 </span>
               </div>
             </div>
@@ -407,19 +459,21 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
           <Button 
             className="w-full"
             onClick={handleUpdateYear}
-            disabled={isUpdatingYear || stats.nth === 0}
+            disabled={isUpdatingYear || stats.nth + stats.easter === 0}
             data-testid="button-update-year"
           >
-            {isUpdatingYear ? "Updating..." : `Update ${stats.nth} Nth Date Events`}
+            {isUpdatingYear ? "Updating..." : `Update ${stats.nth + stats.easter} Nth and Easter Date Events`}
           </Button>
           
           <div className="text-sm text-muted-foreground space-y-1">
             <p className="flex items-center space-x-1">
               <Info className="h-3 w-3" />
-              <span>Updates base year for all "Nth Date" events</span>
+              <span>Updates base year for all "Nth Date" and "Easter" events</span>
             </p>
+            <p>• Nth and Easter dates repeating over several years: Left as they are</p>
             <p>• Fixed dates: Manual update required</p>
             <p>• Relative dates: Auto-recalculate based on reference events</p>
+            <p>• Recurring dates: Follow their own rule</p>
           </div>
         </CardContent>
       </Card>
@@ -443,6 +497,14 @@ export default function ExportPanel({ events, stats }: ExportPanelProps) {
               <span className="text-sm text-muted-foreground">Relative Dates</span>
               <span className="font-medium text-foreground" data-testid="stat-relative">{stats.relative}</span>
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Recurring Dates</span>
+              <span className="font-medium text-foreground" data-testid="stat-recurring">{stats.recurring}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Easter Dates</span>
+              <span className="font-medium text-foreground" data-testid="stat-easter">{stats.easter}</span>
+            </div>
             <div className="pt-2 border-t border-border">
               <div className="flex justify-between items-center">
                 <span className="text-sm font-medium text-foreground">Total Events</span>
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Flag, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PackHolidayRule } from "@shared/holiday-packs";
+import type { Event, HolidayPackInstall, WeekendAdjustment } from "@shared/schema";
+
+// As listed by GET /api/holiday-packs
+interface HolidayPackListing {
+  id: string;
+  name: string;
+  observance: WeekendAdjustment;
+  holidays: Array<{
+    key: string;
+    name: string;
+    rule: PackHolidayRule;
+    description: string;
+    date: string; // this year, YYYY-MM-DD
+  }>;
+}
+
+interface InstallResult {
+  created: Event[];
+  skipped: string[];
+}
+
+interface HolidayPackDialogProps {
+  // Calendar the holidays are added to, normally the one selected in the switcher
+  calendarId: string | null;
+}
+
+const OBSERVANCES: Record<WeekendAdjustment, string> = {
+  none: "kept on the weekend",
+  nextWorkday: "moved to the next business day",
+  previousWorkday: "moved to the previous business day",
+  nearest: "moved to the nearest business day",
+};
+
+export default function HolidayPackDialog({ calendarId }: HolidayPackDialogProps) {
+  const { toast } = useToast();
+  // Install the days off rather than the holidays themselves
+  const [observed, setObserved] = useState(false);
+
+  const { data: packs = [] } = useQuery<HolidayPackListing[]>({
+    queryKey: ["/api/holiday-packs"],
+  });
+
+  const installPackMutation = useMutation({
+    mutationFn: async (packId: string) => {
+      const options: HolidayPackInstall = { calendarId, observed };
+      const response = await apiRequest("POST", `/api/holiday-packs/${packId}/install`, options);
+      return response.json();
+    },
+    onSuccess: (result: InstallResult) => {
+      toast({
+        title: "Success",
+        description: result.created.length > 0
+          ? `Added ${result.created.length} holidays${result.skipped.length > 0 ? `; ${result.skipped.length} were already installed` : ""}.`
+          : "Every holiday of this pack is already installed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to install holiday pack. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" data-testid="button-holiday-packs">
+          <Flag className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Holiday Packs</DialogTitle>
+          <DialogDescription>
+            Add a country's public holidays as events for the next ten years, ready to anchor relative events to.
+            In CSV imports, a Relative Event Name such as "us-federal:labor-day" installs just that holiday.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Switch id="holiday-packs-observed" checked={observed} onCheckedChange={setObserved} data-testid="switch-observed" />
+          <Label htmlFor="holiday-packs-observed">Move holidays on a weekend to their day off</Label>
+        </div>
+
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {packs.map((pack) => (
+            <div key={pack.id} className="bg-secondary/50 p-3 rounded-lg border border-border" data-testid={`holiday-pack-${pack.id}`}>
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-medium text-foreground">{pack.name}</p>
+                <Button
+                  size="sm"
+                  onClick={() => installPackMutation.mutate(pack.id)}
+                  disabled={installPackMutation.isPending}
+                  data-testid={`button-install-pack-${pack.id}`}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Install
+                </Button>
+              </div>
+              {observed && (
+                <p className="text-xs text-muted-foreground mb-1">Holidays on a weekend are {OBSERVANCES[pack.observance]}.</p>
+              )}
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {pack.holidays.map((holiday) => (
+                  <li key={holiday.key} className="flex justify-between" title={holiday.key}>
+                    <span>{holiday.name} <span className="italic">({holiday.description})</span></span>
+                    <span>{holiday.date}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
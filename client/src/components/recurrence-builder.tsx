@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatCalendarDate, toCalendarDate } from "@shared/date-resolver";
+import {
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+
+interface RecurrenceBuilderProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const WEEKDAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: "days", WEEKLY: "weeks", MONTHLY: "months", YEARLY: "years" };
+// Select items cannot have an empty value, so "no RRULE" gets its own
+const ONCE = "once";
+
+type MonthlyMode = "dayOfMonth" | "weekdayPosition" | "lastWeekday";
+type EndMode = "never" | "until" | "count";
+
+// A weekly rule from `start`, the starting point for new recurring events
+export function newRecurrenceRule(start: Date = new Date()): string {
+  return formatRecurrenceRule({
+    start: new Date(start.getFullYear(), start.getMonth(), start.getDate()),
+    frequency: "WEEKLY",
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 1,
+    exDates: [],
+    rDates: [],
+  });
+}
+
+const tryParse = (value: string): RecurrenceRule | null => {
+  try {
+    return parseRecurrenceRule(value);
+  } catch {
+    return null;
+  }
+};
+
+const getMonthlyMode = (rule: RecurrenceRule): MonthlyMode => {
+  if (rule.bySetPos.length > 0) return "lastWeekday";
+  if (rule.byDay.some(weekday => weekday.nth !== null)) return "weekdayPosition";
+  return "dayOfMonth";
+};
+
+interface DayListProps {
+  label: string;
+  days: Date[];
+  onChange: (days: Date[]) => void;
+  testId: string;
+}
+
+// Days added one at a time with a date picker and removed from their chips
+function DayList({ label, days, onChange, testId }: DayListProps) {
+  const [draft, setDraft] = useState("");
+
+  const addDay = () => {
+    if (!draft) return;
+    const day = toCalendarDate(draft);
+    if (!days.some(existing => existing.getTime() === day.getTime())) {
+      onChange([...days, day].sort((a, b) => a.getTime() - b.getTime()));
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {days.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {days.map(day => (
+            <Badge key={day.getTime()} variant="secondary" className="flex items-center gap-1">
+              {day.toLocaleDateString()}
+              <button
+                type="button"
+                onClick={() => onChange(days.filter(existing => existing !== day))}
+                className="rounded-full hover:text-destructive"
+                aria-label={`Remove ${day.toLocaleDateString()}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex space-x-2">
+        <Input type="date" value={draft} onChange={(e) => setDraft(e.target.value)} data-testid={`input-${testId}`} />
+        <Button type="button" variant="outline" onClick={addDay} disabled={!draft} data-testid={`button-add-${testId}`}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Builds an RFC 5545 rule from the common choices. The rule text stays
+// editable for anything the controls do not cover; the controls are disabled
+// while the text does not parse.
+export default function RecurrenceBuilder({ value, onChange }: RecurrenceBuilderProps) {
+  const parsed = tryParse(value);
+  const rule = parsed ?? tryParse(newRecurrenceRule())!;
+  const disabled = !parsed;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    onChange(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const setFrequency = (frequency: string) => {
+    // Day choices of one frequency rarely make sense in another
+    update({
+      frequency: frequency === ONCE ? null : frequency as RecurrenceFrequency,
+      byDay: [],
+      byMonthDay: [],
+      byMonth: [],
+      bySetPos: [],
+      ...(frequency === ONCE && { interval: 1, count: null, until: null }),
+    });
+  };
+
+  const setMonthlyMode = (mode: MonthlyMode) => {
+    const nth = Math.ceil(rule.start.getDate() / 7);
+    switch (mode) {
+      case "weekdayPosition":
+        return update({ byDay: [{ day: rule.start.getDay(), nth: nth > 4 ? -1 : nth }], byMonthDay: [], bySetPos: [] });
+      case "lastWeekday":
+        return update({ byDay: [1, 2, 3, 4, 5].map(day => ({ day, nth: null })), byMonthDay: [], bySetPos: [-1] });
+      default:
+        return update({ byDay: [], byMonthDay: [], bySetPos: [] });
+    }
+  };
+
+  const endMode: EndMode = rule.until ? "until" : rule.count !== null ? "count" : "never";
+  const setEndMode = (mode: EndMode) => {
+    update({
+      until: mode === "until" ? new Date(rule.start.getFullYear(), 11, 31) : null,
+      count: mode === "count" ? 10 : null,
+    });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="recurrence-builder">
+      <fieldset disabled={disabled} className={`space-y-4 ${disabled ? "opacity-50" : ""}`}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Starts</Label>
+            <Input
+              type="date"
+              value={formatCalendarDate(rule.start)}
+              onChange={(e) => e.target.value && update({ start: toCalendarDate(e.target.value) })}
+              data-testid="input-recurrence-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Repeats</Label>
+            <Select value={rule.frequency ?? ONCE} onValueChange={setFrequency} disabled={disabled}>
+              <SelectTrigger data-testid="select-recurrence-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ONCE}>Only on listed days</SelectItem>
+                <SelectItem value="DAILY">Daily</SelectItem>
+                <SelectItem value="WEEKLY">Weekly</SelectItem>
+                <SelectItem value="MONTHLY">Monthly</SelectItem>
+                <SelectItem value="YEARLY">Yearly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {rule.frequency && (
+            <div className="space-y-2">
+              <Label>Every ({UNITS[rule.frequency]})</Label>
+              <Input
+                type="number"
+                min={1}
+                value={rule.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                data-testid="input-recurrence-interval"
+              />
+            </div>
+          )}
+        </div>
+
+        {rule.frequency === "WEEKLY" && (
+          <div className="space-y-2">
+            <Label>On</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={rule.byDay.map(weekday => String(weekday.day))}
+              onValueChange={(days) => update({ byDay: days.map(Number).sort((a, b) => a - b).map(day => ({ day, nth: null })) })}
+              data-testid="toggle-recurrence-weekdays"
+            >
+              {WEEKDAYS.map((name, index) => (
+                <ToggleGroupItem key={name} value={String(index)} aria-label={name}>
+                  {name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {rule.frequency === "MONTHLY" && (
+          <div className="space-y-2">
+            <Label>On</Label>
+            <Select value={getMonthlyMode(rule)} onValueChange={(mode) => setMonthlyMode(mode as MonthlyMode)} disabled={disabled}>
+              <SelectTrigger data-testid="select-recurrence-monthly">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dayOfMonth">The same day of the month</SelectItem>
+                <SelectItem value="weekdayPosition">The same weekday of the month</SelectItem>
+                <SelectItem value="lastWeekday">The last weekday of the month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {rule.frequency && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <Select value={endMode} onValueChange={(mode) => setEndMode(mode as EndMode)} disabled={disabled}>
+                <SelectTrigger data-testid="select-recurrence-end">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="until">On a date</SelectItem>
+                  <SelectItem value="count">After a number of times</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {endMode === "until" && (
+              <div className="space-y-2">
+                <Label>Last Day</Label>
+                <Input
+                  type="date"
+                  value={formatCalendarDate(rule.until!)}
+                  onChange={(e) => e.target.value && update({ until: toCalendarDate(e.target.value) })}
+                  data-testid="input-recurrence-until"
+                />
+              </div>
+            )}
+            {endMode === "count" && (
+              <div className="space-y-2">
+                <Label>Occurrences</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={rule.count!}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  data-testid="input-recurrence-count"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <DayList label="Skip Days" days={rule.exDates} onChange={(exDates) => update({ exDates })} testId="recurrence-exdate" />
+          <DayList label="Extra Days" days={rule.rDates} onChange={(rDates) => update({ rDates })} testId="recurrence-rdate" />
+        </div>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label>Rule (iCalendar)</Label>
+        <Textarea
+          rows={3}
+          className="font-mono text-xs"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          data-testid="textarea-recurrence-rule"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ChevronRight, HelpCircle } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { toCalendarDate, type ResolutionExplanation } from "@shared/date-resolver";
+import type { Event } from "@shared/schema";
+
+interface ResolutionPanelProps {
+  event: Event;
+}
+
+const formatStepDate = (value: string | null) => {
+  return value ? toCalendarDate(value).toLocaleDateString() : "No date";
+};
+
+// "Why this date?" — the chain of rules the event's date was derived from,
+// fetched only once the panel is opened
+export default function ResolutionPanel({ event }: ResolutionPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: explanation, isLoading } = useQuery<ResolutionExplanation>({
+    queryKey: ["/api/events", event.id, "resolution"],
+    enabled: open,
+  });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger
+        className="flex items-center space-x-1 text-xs text-muted-foreground hover:text-foreground pt-1"
+        data-testid={`button-resolution-${event.id}`}
+      >
+        <ChevronRight className={`h-3 w-3 transition-transform ${open ? "rotate-90" : ""}`} />
+        <HelpCircle className="h-3 w-3" />
+        <span>Why this date?</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 ml-4 text-xs" data-testid={`resolution-panel-${event.id}`}>
+        {isLoading || !explanation ? (
+          <span className="text-muted-foreground">Working it out...</span>
+        ) : (
+          <ol className="space-y-1 border-l border-border pl-3">
+            {explanation.steps.map((step, index) => (
+              <li key={step.eventId} data-testid={`resolution-step-${event.id}-${index}`}>
+                <span className="font-medium text-foreground">{step.title}</span>
+                {step.trashed && <span className="text-destructive"> (in trash)</span>}
+                <span className="text-muted-foreground">: {step.rule} → </span>
+                <span className="text-foreground">{formatStepDate(step.date)}</span>
+              </li>
+            ))}
+            {explanation.message && (
+              <li className="flex items-center space-x-1 text-destructive">
+                <AlertTriangle className="h-3 w-3" />
+                <span>{explanation.message}</span>
+              </li>
+            )}
+          </ol>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
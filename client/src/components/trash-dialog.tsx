@@ -0,0 +1,142 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Event } from "@shared/schema";
+
+interface TrashDialogProps {
+  onEventRestored: () => void;
+}
+
+export default function TrashDialog({ onEventRestored }: TrashDialogProps) {
+  const { toast } = useToast();
+
+  const { data: trashedEvents = [], isLoading } = useQuery<Event[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restoreEventMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const response = await apiRequest("POST", `/api/trash/${eventId}/restore`);
+      return response.json();
+    },
+    onSuccess: (event: Event) => {
+      toast({
+        title: "Success",
+        description: `"${event.title}" restored from the trash.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      onEventRestored();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore event. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emptyTrashMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/trash");
+      return await response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Success",
+        description: `Trash emptied. Permanently deleted ${data.purgedCount} events.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to empty trash. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEmptyTrash = () => {
+    if (confirm(`Permanently delete all ${trashedEvents.length} events in the trash? This action cannot be undone.`)) {
+      emptyTrashMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-trash">
+          <Trash2 className="h-4 w-4 mr-2" />
+          Trash
+          {trashedEvents.length > 0 && (
+            <Badge variant="secondary" className="ml-2">{trashedEvents.length}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted events stay here until the trash is emptied or they expire.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner" />
+            <span className="ml-2 text-muted-foreground">Loading trash...</span>
+          </div>
+        ) : trashedEvents.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {trashedEvents.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-center justify-between bg-secondary/50 p-3 rounded-lg border border-border"
+                data-testid={`trash-item-${event.id}`}
+              >
+                <div>
+                  <p className="font-medium text-foreground">{event.title}</p>
+                  {event.deletedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {new Date(event.deletedAt).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => restoreEventMutation.mutate(event.id)}
+                  disabled={restoreEventMutation.isPending}
+                  data-testid={`button-restore-${event.id}`}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={handleEmptyTrash}
+            disabled={emptyTrashMutation.isPending || trashedEvents.length === 0}
+            data-testid="button-empty-trash"
+          >
+            Empty Trash
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Briefcase, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeHolidayRule } from "@shared/date-resolver";
+import type { HolidayRule, InsertWorkCalendar, WorkCalendar } from "@shared/schema";
+
+const WEEKDAYS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"];
+
+// A work calendar being created (id null) or edited
+interface Draft {
+  id: string | null;
+  name: string;
+  weekendDays: number[];
+  holidays: HolidayRule[];
+}
+
+const newDraft = (): Draft => ({ id: null, name: "", weekendDays: [0, 6], holidays: [] });
+
+interface HolidayAdderProps {
+  onAdd: (rule: HolidayRule) => void;
+}
+
+// One holiday at a time: a single date, a date every year, or an nth weekday every year
+function HolidayAdder({ onAdd }: HolidayAdderProps) {
+  const [type, setType] = useState<HolidayRule["type"]>("date");
+  const [name, setName] = useState("");
+  const [date, setDate] = useState("");
+  const [month, setMonth] = useState(1);
+  const [day, setDay] = useState(1);
+  const [nthOccurrence, setNthOccurrence] = useState(1);
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+
+  const addHoliday = () => {
+    const label = name.trim() || undefined;
+    switch (type) {
+      case "date":
+        if (!date) return;
+        onAdd({ type, name: label, date });
+        break;
+      case "annual":
+        onAdd({ type, name: label, month, day });
+        break;
+      case "nth":
+        onAdd({ type, name: label, nthOccurrence, dayOfWeek, month });
+        break;
+    }
+    setName("");
+    setDate("");
+  };
+
+  const monthSelect = (
+    <Select value={String(month)} onValueChange={(value) => setMonth(parseInt(value))}>
+      <SelectTrigger data-testid="select-holiday-month">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MONTH_NAMES.map((monthName, index) => (
+          <SelectItem key={monthName} value={String(index + 1)}>{monthName}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={type} onValueChange={(value) => setType(value as HolidayRule["type"])}>
+          <SelectTrigger data-testid="select-holiday-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="date">On a date</SelectItem>
+            <SelectItem value="annual">Same date every year</SelectItem>
+            <SelectItem value="nth">Nth weekday every year</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          data-testid="input-holiday-name"
+        />
+      </div>
+
+      {type === "date" && (
+        <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-holiday-date" />
+      )}
+      {type === "annual" && (
+        <div className="grid grid-cols-2 gap-2">
+          {monthSelect}
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={day}
+            onChange={(e) => setDay(Math.min(31, Math.max(1, parseInt(e.target.value) || 1)))}
+            data-testid="input-holiday-day"
+          />
+        </div>
+      )}
+      {type === "nth" && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={String(nthOccurrence)} onValueChange={(value) => setNthOccurrence(parseInt(value))}>
+            <SelectTrigger data-testid="select-holiday-nth">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">First</SelectItem>
+              <SelectItem value="2">Second</SelectItem>
+              <SelectItem value="3">Third</SelectItem>
+              <SelectItem value="4">Fourth</SelectItem>
+              <SelectItem value="-1">Last</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={String(dayOfWeek)} onValueChange={(value) => setDayOfWeek(parseInt(value))}>
+            <SelectTrigger data-testid="select-holiday-weekday">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_NAMES.map((dayName, index) => (
+                <SelectItem key={dayName} value={String(index)}>{dayName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {monthSelect}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addHoliday}
+        disabled={type === "date" && !date}
+        data-testid="button-add-holiday"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Holiday
+      </Button>
+    </div>
+  );
+}
+
+// Work calendars decide which days business-day offsets count. Events use
+// their own work calendar, else their calendar's, else Monday to Friday.
+export default function WorkCalendarManager() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data: workCalendars = [] } = useQuery<WorkCalendar[]>({
+    queryKey: ["/api/work-calendars"],
+  });
+
+  const saveWorkCalendarMutation = useMutation({
+    mutationFn: async ({ id, ...workCalendar }: Draft) => {
+      const data: InsertWorkCalendar = workCalendar;
+      const response = id
+        ? await apiRequest("PATCH", `/api/work-calendars/${id}`, data)
+        : await apiRequest("POST", "/api/work-calendars", data);
+      return response.json();
+    },
+    onSuccess: (workCalendar: WorkCalendar) => {
+      toast({
+        title: "Success",
+        description: `Work calendar "${workCalendar.name}" saved.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/work-calendars"] });
+      // Business-day dates may have moved, and with them date-sorted lists
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      setDraft(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save work calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWorkCalendarMutation = useMutation({
+    mutationFn: async (workCalendarId: string) => {
+      await apiRequest("DELETE", `/api/work-calendars/${workCalendarId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Work calendar deleted. Its events now count standard business days.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/work-calendars"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendars"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete work calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft && draft.name.trim()) {
+      saveWorkCalendarMutation.mutate({ ...draft, name: draft.name.trim() });
+    }
+  };
+
+  const handleDeleteWorkCalendar = (workCalendar: WorkCalendar) => {
+    if (confirm(`Delete the work calendar "${workCalendar.name}"? Events and calendars using it will count standard business days.`)) {
+      deleteWorkCalendarMutation.mutate(workCalendar.id);
+    }
+  };
+
+  const describeWeekend = (weekendDays: number[]) =>
+    weekendDays.length === 0 ? "No weekend" : `Weekend: ${weekendDays.map(day => WEEKDAYS[day]).join(", ")}`;
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setDraft(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" data-testid="button-manage-work-calendars">
+          <Briefcase className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Work Calendars</DialogTitle>
+          <DialogDescription>
+            Weekends and holidays that business-day offsets skip. Attach one to a calendar or to a single event.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. UAE office"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={255}
+                data-testid="input-work-calendar-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Weekend Days</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                className="flex-wrap justify-start"
+                value={draft.weekendDays.map(String)}
+                // At least one day has to stay a business day
+                onValueChange={(days) => days.length < 7 && setDraft({ ...draft, weekendDays: days.map(Number).sort((a, b) => a - b) })}
+                data-testid="toggle-weekend-days"
+              >
+                {WEEKDAYS.map((name, index) => (
+                  <ToggleGroupItem key={name} value={String(index)} aria-label={DAY_NAMES[index]}>
+                    {name}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Holidays</Label>
+              {draft.holidays.length > 0 && (
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                  {draft.holidays.map((rule, index) => (
+                    <Badge key={index} variant="secondary" className="flex items-center gap-1">
+                      {describeHolidayRule(rule)}
+                      <button
+                        type="button"
+                        onClick={() => setDraft({ ...draft, holidays: draft.holidays.filter((_rule, i) => i !== index) })}
+                        className="rounded-full hover:text-destructive"
+                        aria-label={`Remove ${describeHolidayRule(rule)}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <HolidayAdder onAdd={(rule) => setDraft({ ...draft, holidays: [...draft.holidays, rule] })} />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveWorkCalendarMutation.isPending || !draft.name.trim()}
+                data-testid="button-save-work-calendar"
+              >
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <Button variant="outline" onClick={() => setDraft(newDraft())} data-testid="button-new-work-calendar">
+              <Plus className="h-4 w-4 mr-2" />
+              New Work Calendar
+            </Button>
+
+            {workCalendars.length === 0 ? (
+              <p className="text-center py-6 text-muted-foreground">
+                No work calendars yet. Business days are Monday to Friday.
+              </p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {workCalendars.map((workCalendar) => (
+                  <div
+                    key={workCalendar.id}
+                    className="flex items-center justify-between bg-secondary/50 p-3 rounded-lg border border-border"
+                    data-testid={`work-calendar-item-${workCalendar.id}`}
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">{workCalendar.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeWeekend(workCalendar.weekendDays)} · {workCalendar.holidays.length} holidays
+                      </p>
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDraft({
+                          id: workCalendar.id,
+                          name: workCalendar.name,
+                          weekendDays: workCalendar.weekendDays,
+                          holidays: workCalendar.holidays,
+                        })}
+                        data-testid={`button-edit-work-calendar-${workCalendar.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteWorkCalendar(workCalendar)}
+                        disabled={deleteWorkCalendarMutation.isPending}
+                        data-testid={`button-delete-work-calendar-${workCalendar.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { createWorkWeekLookup, STANDARD_WORK_WEEK, type WorkWeekLookup } from "@shared/date-resolver";
+import type { Calendar, WorkCalendar } from "@shared/schema";
+
+// Each event's work week for business-day offsets, as the server resolves it:
+// its own work calendar, else its calendar's, else the standard week with the
+// server's configured holidays. The lookup keeps its identity until one of
+// the lists changes.
+export function useWorkWeeks(): WorkWeekLookup {
+  const { data: holidays } = useQuery<string[]>({
+    queryKey: ["/api/holidays"],
+  });
+  const { data: workCalendars } = useQuery<WorkCalendar[]>({
+    queryKey: ["/api/work-calendars"],
+  });
+  const { data: calendars } = useQuery<Calendar[]>({
+    queryKey: ["/api/calendars"],
+  });
+
+  return useMemo(() => createWorkWeekLookup(workCalendars ?? [], calendars ?? [], {
+    ...STANDARD_WORK_WEEK,
+    holidays: (holidays ?? []).map(date => ({ type: 'date' as const, date })),
+  }), [holidays, workCalendars, calendars]);
+}
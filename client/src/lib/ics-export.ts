@@ -1,12 +1,23 @@
 import type { Event } from "@shared/schema";
-import { calculateEventDate } from "./date-utils";
+import { addDays, EventDateResolver, type WorkWeekLookup } from "@shared/date-resolver";
+import { parseRecurrenceRule, recurrenceRuleLines } from "@shared/recurrence";
+import { escapeICSText, joinICSLines } from "@shared/ics";
 
 interface ExportSettings {
   includeDescriptions: boolean;
   setReminders: boolean;
 }
 
-export function generateICS(events: Event[], settings: ExportSettings): string {
+// Relative events resolve against `anchorEvents`, which may include events from
+// other calendars and must include `events` themselves; trashed events only
+// resolve those whose anchor was deleted. Business-day offsets follow `workWeeks`.
+export function generateICS(
+  events: Event[],
+  settings: ExportSettings,
+  anchorEvents: Event[] = events,
+  trashedEvents: Event[] = [],
+  workWeeks?: WorkWeekLookup
+): string {
   const icsLines = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
@@ -15,44 +26,11 @@ export function generateICS(events: Event[], settings: ExportSettings): string {
     'METHOD:PUBLISH'
   ];
 
-  for (const event of events) {
-    let eventStart: Date;
-    let eventEnd: Date;
-    
-    if (event.dateType === 'fixed') {
-      // For fixed dates, use the original start/end dates
-      if (!event.startDate) continue;
-      
-      // Parse date strings directly to avoid timezone issues
-      const parseSimpleDate = (dateValue: any) => {
-        if (typeof dateValue === 'string') {
-          const [year, month, day] = dateValue.split('T')[0].split('-');
-          return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        }
-        return new Date(dateValue);
-      };
-      
-      eventStart = parseSimpleDate(event.startDate);
-      
-      if (event.endDate) {
-        eventEnd = parseSimpleDate(event.endDate);
-        // For all-day events, ICS end date should be the day AFTER the last day
-        eventEnd.setDate(eventEnd.getDate() + 1);
-      } else {
-        // Single day event - end date is the day after start date
-        eventEnd = new Date(eventStart);
-        eventEnd.setDate(eventStart.getDate() + 1);
-      }
-    } else {
-      // For nth and relative dates, calculate the actual date
-      const calculatedDate = calculateEventDate(event, events);
-      if (!calculatedDate) continue;
-      
-      eventStart = new Date(calculatedDate);
-      eventEnd = new Date(calculatedDate);
-      eventEnd.setDate(eventStart.getDate() + 1); // All-day event ends next day
-    }
+  const resolver = new EventDateResolver([...anchorEvents, ...trashedEvents], workWeeks);
 
+  for (const event of events) {
+    // Repeating nth, easter and relative events get one VEVENT per occurrence
+    const occurrences = resolver.getOccurrences(event.id);
 
     const formatDate = (date: Date) => {
       // Format as YYYYMMDD for all-day events
@@ -62,22 +40,31 @@ export function generateICS(events: Event[], settings: ExportSettings): string {
       return `${year}${month}${day}`;
     };
 
-    const eventLines = [
-      'BEGIN:VEVENT',
-      `UID:${event.id}@calendarsync.com`,
-      `DTSTART;VALUE=DATE:${formatDate(eventStart)}`,
-      `DTEND;VALUE=DATE:${formatDate(eventEnd)}`,
-      `SUMMARY:${escapeICSValue(event.title)}`,
+    const propertyLines = [
+      `SUMMARY:${escapeICSText(event.title)}`,
       `CREATED:${new Date(event.createdAt).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'}`
     ];
 
-    if (settings.includeDescriptions && event.description) {
-      eventLines.push(`DESCRIPTION:${escapeICSValue(event.description)}`);
+    const trashedAnchor = event.dateType === 'relative' && !anchorEvents.some(e => e.id === event.relativeEventId)
+      ? trashedEvents.find(e => e.id === event.relativeEventId)
+      : undefined;
+    const description = [
+      settings.includeDescriptions ? event.description : null,
+      trashedAnchor ? `Anchor deleted: ${trashedAnchor.title} is in the trash` : null,
+    ].filter(Boolean).join('\n');
+
+    if (description) {
+      propertyLines.push(`DESCRIPTION:${escapeICSText(description)}`);
+    }
+
+    const categories = [event.category, ...event.tags].filter((value): value is string => !!value);
+    if (categories.length > 0) {
+      propertyLines.push(`CATEGORIES:${categories.map(escapeICSText).join(',')}`);
     }
 
 
     if (settings.setReminders) {
-      eventLines.push(
+      propertyLines.push(
         'BEGIN:VALARM',
         'TRIGGER:-PT15M',
         'ACTION:DISPLAY',
@@ -86,21 +73,40 @@ export function generateICS(events: Event[], settings: ExportSettings): string {
       );
     }
 
-    eventLines.push('END:VEVENT');
-    icsLines.push(...eventLines);
+    if (event.dateType === 'recurring') {
+      // Recurring events keep their rule: one VEVENT whose RRULE calendar apps expand
+      if (occurrences.length > 0) {
+        const rule = parseRecurrenceRule(event.recurrenceRule!);
+        icsLines.push(
+          'BEGIN:VEVENT',
+          `UID:${event.id}@calendarsync.com`,
+          `DTSTART;VALUE=DATE:${formatDate(rule.start)}`,
+          `DTEND;VALUE=DATE:${formatDate(addDays(rule.start, 1))}`,
+          ...recurrenceRuleLines(rule),
+          ...propertyLines,
+          'END:VEVENT'
+        );
+      }
+      continue;
+    }
+
+    for (const span of occurrences) {
+      // Each instance of a repeating event needs a UID of its own
+      const uid = occurrences.length > 1 ? `${event.id}-${formatDate(span.start)}` : event.id;
+      icsLines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}@calendarsync.com`,
+        `DTSTART;VALUE=DATE:${formatDate(span.start)}`,
+        // All-day events end on the day after their last day
+        `DTEND;VALUE=DATE:${formatDate(addDays(span.end, 1))}`,
+        ...propertyLines,
+        'END:VEVENT'
+      );
+    }
   }
 
   icsLines.push('END:VCALENDAR');
-  return icsLines.join('\r\n');
-}
-
-function escapeICSValue(value: string): string {
-  return value
-    .replace(/\\/g, '\\\\')
-    .replace(/;/g, '\\;')
-    .replace(/,/g, '\\,')
-    .replace(/\n/g, '\\n')
-    .replace(/\r/g, '\\r');
+  return joinICSLines(icsLines);
 }
 
 export function downloadICS(content: string, filename: string = 'events.ics') {
@@ -1,20 +1,121 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Calendar, Download, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import EventForm from "@/components/event-form";
 import EventsList from "@/components/events-list";
 import ExportPanel from "@/components/export-panel";
-import type { Event } from "@shared/schema";
+import CalendarSwitcher from "@/components/calendar-switcher";
+import WorkCalendarManager from "@/components/work-calendar-manager";
+import HolidayPackDialog from "@/components/holiday-pack-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Calendar as CalendarEntity, Event, EventSort, EventSummary, ListedEvent } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+// One page of the events list along with the paging headers it came with
+interface EventPage {
+  events: ListedEvent[];
+  total: number;
+  nextCursor: string | null;
+}
 
 export default function Home() {
   const [selectedFilter, setSelectedFilter] = useState<string>("all");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(null);
+  // null keeps the server's default: best match while searching, oldest first otherwise
+  const [sort, setSort] = useState<EventSort | null>(null);
+
+  // The search query lives in the URL (?q=) so searches can be bookmarked and shared
+  const [location, navigate] = useLocation();
+  const searchParams = new URLSearchParams(useSearch());
+  const searchQuery = searchParams.get("q") ?? "";
+
+  const handleSearchChange = (query: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (query.trim()) {
+      params.set("q", query);
+    } else {
+      params.delete("q");
+    }
+    const search = params.toString();
+    navigate(search ? `${location}?${search}` : location, { replace: true });
+  };
+
+  const { data: calendars = [] } = useQuery<CalendarEntity[]>({
+    queryKey: ["/api/calendars"],
+  });
+  const selectedCalendar = calendars.find(calendar => calendar.id === selectedCalendarId) ?? null;
+
+  // Ranking by relevance only means something while searching
+  const activeSort = sort === "relevance" && !searchQuery.trim() ? null : sort;
+
+  // The list is paged on the server, so every filter is sent along
+  const listParams = new URLSearchParams();
+  if (searchQuery.trim()) listParams.set("q", searchQuery.trim());
+  if (selectedCalendar) listParams.set("calendarId", selectedCalendar.id);
+  if (selectedTags.length > 0) listParams.set("tags", selectedTags.join(","));
+  if (selectedFilter !== "all") listParams.set("type", selectedFilter);
+  if (activeSort) listParams.set("sort", activeSort);
+  const filterKey = listParams.toString();
+
+  // Cursors of the pages visited so far; changing a filter starts over on the first page
+  const [paging, setPaging] = useState<{ filterKey: string; cursors: string[] }>({ filterKey, cursors: [] });
+  const cursors = paging.filterKey === filterKey ? paging.cursors : [];
+
+  const pageParams = new URLSearchParams(listParams);
+  pageParams.set("limit", String(PAGE_SIZE));
+  if (cursors.length > 0) pageParams.set("cursor", cursors[cursors.length - 1]);
 
-  const { data: events = [], isLoading, refetch } = useQuery<Event[]>({
-    queryKey: ["/api/events"],
+  // Keyed under /api/events so every mutation that refreshes the list refreshes the page too
+  const { data: page, isLoading: isPageLoading } = useQuery<EventPage>({
+    queryKey: ["/api/events", "page", pageParams.toString()],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/events?${pageParams}`);
+      return {
+        events: await response.json(),
+        total: Number(response.headers.get("X-Total-Count") ?? 0),
+        nextCursor: response.headers.get("X-Next-Cursor"),
+      };
+    },
+    placeholderData: keepPreviousData,
   });
 
+  // Counts and tags come from the server, so no page needs every event
+  const summaryParams = new URLSearchParams();
+  if (selectedCalendar) summaryParams.set("calendarId", selectedCalendar.id);
+  if (selectedTags.length > 0) summaryParams.set("tags", selectedTags.join(","));
+  const { data: summary, isLoading: isSummaryLoading } = useQuery<EventSummary>({
+    queryKey: ["/api/events", "summary", summaryParams.toString()],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/events/summary?${summaryParams}`);
+      return await response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const refreshEvents = () => queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+
+  const handleNextPage = () => {
+    if (page?.nextCursor) {
+      setPaging({ filterKey, cursors: [...cursors, page.nextCursor] });
+    }
+  };
+
+  const handlePreviousPage = () => {
+    setPaging({ filterKey, cursors: cursors.slice(0, -1) });
+  };
+
+  // Deleting the last events of a page leaves it empty; show the one before instead
+  useEffect(() => {
+    if (page && page.events.length === 0 && cursors.length > 0) {
+      handlePreviousPage();
+    }
+  }, [page]);
+
   const handleExportAll = async () => {
     try {
       const response = await fetch("/api/events/export/ics");
@@ -32,17 +133,8 @@ export default function Home() {
     }
   };
 
-  const filteredEvents = events.filter(event => {
-    if (selectedFilter === "all") return true;
-    return event.dateType === selectedFilter;
-  });
-
-  const eventStats = {
-    fixed: events.filter(e => e.dateType === "fixed").length,
-    nth: events.filter(e => e.dateType === "nth").length,
-    relative: events.filter(e => e.dateType === "relative").length,
-    total: events.length,
-  };
+  // The calendar and tag selections also decide what gets exported
+  const eventStats = summary?.counts ?? { fixed: 0, nth: 0, relative: 0, recurring: 0, easter: 0, total: 0 };
 
   return (
     <div className="min-h-screen bg-background">
@@ -55,6 +147,12 @@ export default function Home() {
                 <Calendar className="text-primary text-2xl" />
                 <h1 className="text-xl font-semibold text-foreground">CalendarSync</h1>
               </div>
+              <CalendarSwitcher
+                selectedCalendarId={selectedCalendar?.id ?? null}
+                onCalendarChange={setSelectedCalendarId}
+              />
+              <WorkCalendarManager />
+              <HolidayPackDialog calendarId={selectedCalendar?.id ?? null} />
             </div>
             <div className="flex items-center space-x-4">
               <Button 
@@ -81,11 +179,12 @@ export default function Home() {
           {/* Event Creation Panel */}
           <div className="lg:col-span-2">
             <EventForm 
-              onEventCreated={refetch} 
+              onEventCreated={refreshEvents} 
               editingEvent={editingEvent}
+              defaultCalendarId={selectedCalendar?.id ?? null}
               onEditComplete={() => {
                 setEditingEvent(null);
-                refetch();
+                refreshEvents();
               }}
             />
           </div>
@@ -93,7 +192,8 @@ export default function Home() {
           {/* Export Panel */}
           <div className="lg:col-span-1">
             <ExportPanel 
-              events={events} 
+              calendar={selectedCalendar}
+              tags={selectedTags}
               stats={eventStats}
             />
           </div>
@@ -102,11 +202,24 @@ export default function Home() {
         {/* Events List */}
         <div className="mt-8">
           <EventsList 
-            events={filteredEvents}
-            isLoading={isLoading}
+            events={page?.events ?? []}
+            availableTags={summary?.tags ?? []}
+            activeCount={summary?.activeCount ?? 0}
+            isLoading={isSummaryLoading || isPageLoading}
+            totalCount={page?.total ?? 0}
+            hasPreviousPage={cursors.length > 0}
+            hasNextPage={!!page?.nextCursor}
+            onPreviousPage={handlePreviousPage}
+            onNextPage={handleNextPage}
+            sort={activeSort ?? (searchQuery.trim() ? "relevance" : "createdAt")}
+            onSortChange={setSort}
+            searchQuery={searchQuery}
+            onSearchChange={handleSearchChange}
             selectedFilter={selectedFilter}
             onFilterChange={setSelectedFilter}
-            onEventDeleted={refetch}
+            selectedTags={selectedTags}
+            onTagsChange={setSelectedTags}
+            onEventDeleted={refreshEvents}
             onEventEdit={setEditingEvent}
           />
         </div>
@@ -0,0 +1,34 @@
+-- Baseline: the schema that `db:push` used to create. Safe to run on such a
+-- database, which it leaves as it is, so the later migrations apply on top.
+DO $$ BEGIN
+ CREATE TYPE "public"."date_type" AS ENUM('fixed', 'nth', 'relative');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."relative_direction" AS ENUM('before', 'after');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."relative_unit" AS ENUM('days', 'weeks', 'months', 'years');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"description" text,
+	"date_type" date_type NOT NULL,
+	"start_date" timestamp,
+	"end_date" timestamp,
+	"nth_occurrence" integer,
+	"day_of_week" integer,
+	"month" integer,
+	"base_year" integer,
+	"relative_period" integer,
+	"relative_unit" "relative_unit",
+	"relative_direction" "relative_direction",
+	"relative_event_name" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
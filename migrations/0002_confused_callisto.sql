@@ -0,0 +1,11 @@
+CREATE TABLE "event_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"author" varchar(255) NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL,
+	"changes" jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_revisions" ADD CONSTRAINT "event_revisions_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "event_revisions_event_revision_idx" ON "event_revisions" USING btree ("event_id","revision");
\ No newline at end of file
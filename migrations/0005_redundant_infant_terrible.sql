@@ -0,0 +1,8 @@
+ALTER TABLE "events" ADD COLUMN "relative_event_id" uuid;--> statement-breakpoint
+UPDATE "events" AS "dependent" SET "relative_event_id" = (
+	SELECT "anchor"."id" FROM "events" AS "anchor"
+	WHERE "anchor"."title" = "dependent"."relative_event_name" AND "anchor"."id" <> "dependent"."id"
+	ORDER BY "anchor"."deleted_at" IS NOT NULL, "anchor"."created_at", "anchor"."id"
+	LIMIT 1
+) WHERE "dependent"."relative_event_name" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "events" DROP COLUMN "relative_event_name";
@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "category" varchar(100);--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
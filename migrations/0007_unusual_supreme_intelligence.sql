@@ -0,0 +1 @@
+CREATE INDEX "events_search_idx" ON "events" USING gin ((setweight(to_tsvector('simple', "title"), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'B')));
\ No newline at end of file
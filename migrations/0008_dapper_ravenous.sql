@@ -0,0 +1 @@
+ALTER TABLE "events" ADD COLUMN "recur_until_year" integer;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."nth_frequency" AS ENUM('yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks');--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "nth_frequency" "nth_frequency";--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "nth_months" integer[];--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "nth_interval" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."date_type" ADD VALUE 'recurring';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "recurrence_rule" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."relative_unit" ADD VALUE 'businessDays';
\ No newline at end of file
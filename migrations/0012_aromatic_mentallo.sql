@@ -0,0 +1,12 @@
+CREATE TABLE "work_calendars" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"weekend_days" integer[] DEFAULT '{0,6}' NOT NULL,
+	"holidays" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calendars" ADD COLUMN "work_calendar_id" uuid;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "work_calendar_id" uuid;--> statement-breakpoint
+ALTER TABLE "calendars" ADD CONSTRAINT "calendars_work_calendar_id_work_calendars_id_fk" FOREIGN KEY ("work_calendar_id") REFERENCES "public"."work_calendars"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_work_calendar_id_work_calendars_id_fk" FOREIGN KEY ("work_calendar_id") REFERENCES "public"."work_calendars"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
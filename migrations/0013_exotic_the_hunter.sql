@@ -0,0 +1,4 @@
+CREATE TYPE "public"."easter_variant" AS ENUM('western', 'orthodox');--> statement-breakpoint
+ALTER TYPE "public"."date_type" ADD VALUE 'easter';--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "easter_variant" "easter_variant";--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "easter_offset" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "relative_weekday" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "relative_weekday_ordinal" integer;
\ No newline at end of file
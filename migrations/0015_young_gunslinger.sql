@@ -0,0 +1,2 @@
+CREATE TYPE "public"."weekend_adjustment" AS ENUM('none', 'nextWorkday', 'previousWorkday', 'nearest');--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "weekend_adjustment" "weekend_adjustment";
\ No newline at end of file
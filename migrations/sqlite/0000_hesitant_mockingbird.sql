@@ -0,0 +1,20 @@
+CREATE TABLE `events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text(255) NOT NULL,
+	`description` text,
+	`date_type` text NOT NULL,
+	`start_date` integer,
+	`end_date` integer,
+	`nth_occurrence` integer,
+	`day_of_week` integer,
+	`month` integer,
+	`base_year` integer,
+	`relative_period` integer,
+	`relative_unit` text,
+	`relative_direction` text,
+	`relative_event_name` text(255),
+	`created_at` integer NOT NULL,
+	CONSTRAINT "events_date_type_check" CHECK("events"."date_type" IN ('fixed', 'nth', 'relative')),
+	CONSTRAINT "events_relative_unit_check" CHECK("events"."relative_unit" IN ('days', 'weeks', 'months', 'years')),
+	CONSTRAINT "events_relative_direction_check" CHECK("events"."relative_direction" IN ('before', 'after'))
+);
@@ -0,0 +1 @@
+ALTER TABLE `events` ADD `deleted_at` integer;
\ No newline at end of file
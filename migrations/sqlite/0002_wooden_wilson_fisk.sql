@@ -0,0 +1,11 @@
+CREATE TABLE `event_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`event_id` text NOT NULL,
+	`revision` integer NOT NULL,
+	`author` text(255) NOT NULL,
+	`changed_at` integer NOT NULL,
+	`changes` text NOT NULL,
+	FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `event_revisions_event_revision_idx` ON `event_revisions` (`event_id`,`revision`);
\ No newline at end of file
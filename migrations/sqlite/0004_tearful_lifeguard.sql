@@ -0,0 +1,8 @@
+CREATE TABLE `calendars` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text(255) NOT NULL,
+	`description` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `events` ADD `calendar_id` text REFERENCES calendars(id) ON DELETE set null;
\ No newline at end of file
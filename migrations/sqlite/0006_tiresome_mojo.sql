@@ -0,0 +1,2 @@
+ALTER TABLE `events` ADD `category` text(100);--> statement-breakpoint
+ALTER TABLE `events` ADD `tags` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
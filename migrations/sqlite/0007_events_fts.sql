@@ -0,0 +1,14 @@
+-- Full-text index over event titles and descriptions, kept in step with the
+-- events table by triggers. Diacritics are kept so matching agrees with the
+-- Postgres "simple" configuration.
+CREATE VIRTUAL TABLE `events_fts` USING fts5(`event_id` UNINDEXED, `title`, `description`, tokenize = 'unicode61 remove_diacritics 0');--> statement-breakpoint
+INSERT INTO `events_fts` (`event_id`, `title`, `description`) SELECT `id`, `title`, coalesce(`description`, '') FROM `events`;--> statement-breakpoint
+CREATE TRIGGER `events_fts_insert` AFTER INSERT ON `events` BEGIN
+	INSERT INTO `events_fts` (`event_id`, `title`, `description`) VALUES (new.`id`, new.`title`, coalesce(new.`description`, ''));
+END;--> statement-breakpoint
+CREATE TRIGGER `events_fts_update` AFTER UPDATE OF `title`, `description` ON `events` BEGIN
+	UPDATE `events_fts` SET `title` = new.`title`, `description` = coalesce(new.`description`, '') WHERE `event_id` = old.`id`;
+END;--> statement-breakpoint
+CREATE TRIGGER `events_fts_delete` AFTER DELETE ON `events` BEGIN
+	DELETE FROM `events_fts` WHERE `event_id` = old.`id`;
+END;
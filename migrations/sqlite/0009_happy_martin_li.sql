@@ -0,0 +1,5 @@
+-- Added as column constraints: rebuilding the table would drop the events_fts
+-- triggers, and with foreign keys on, cascade-delete every revision.
+ALTER TABLE `events` ADD `nth_frequency` text CONSTRAINT `events_nth_frequency_check` CHECK(`nth_frequency` IN ('yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks'));--> statement-breakpoint
+ALTER TABLE `events` ADD `nth_months` text;--> statement-breakpoint
+ALTER TABLE `events` ADD `nth_interval` integer;
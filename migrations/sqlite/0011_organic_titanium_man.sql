@@ -0,0 +1,63 @@
+-- Widening events_relative_unit_check rebuilds the events table the same way
+-- as 0010: revisions are set aside so the drop does not cascade-delete them,
+-- and the events_fts triggers are recreated afterwards.
+CREATE TABLE `__event_revisions_backup` AS SELECT * FROM `event_revisions`;--> statement-breakpoint
+DROP TABLE `event_revisions`;--> statement-breakpoint
+CREATE TABLE `__new_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text(255) NOT NULL,
+	`description` text,
+	`calendar_id` text,
+	`category` text(100),
+	`tags` text DEFAULT '[]' NOT NULL,
+	`date_type` text NOT NULL,
+	`start_date` integer,
+	`end_date` integer,
+	`nth_occurrence` integer,
+	`day_of_week` integer,
+	`month` integer,
+	`base_year` integer,
+	`recur_until_year` integer,
+	`nth_frequency` text,
+	`nth_months` text,
+	`nth_interval` integer,
+	`relative_period` integer,
+	`relative_unit` text,
+	`relative_direction` text,
+	`relative_event_id` text,
+	`recurrence_rule` text,
+	`created_at` integer NOT NULL,
+	`deleted_at` integer,
+	`version` integer DEFAULT 1 NOT NULL,
+	FOREIGN KEY (`calendar_id`) REFERENCES `calendars`(`id`) ON UPDATE no action ON DELETE set null,
+	CONSTRAINT "events_date_type_check" CHECK(`date_type` IN ('fixed', 'nth', 'relative', 'recurring')),
+	CONSTRAINT "events_nth_frequency_check" CHECK(`nth_frequency` IN ('yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks')),
+	CONSTRAINT "events_relative_unit_check" CHECK(`relative_unit` IN ('days', 'weeks', 'months', 'years', 'businessDays')),
+	CONSTRAINT "events_relative_direction_check" CHECK(`relative_direction` IN ('before', 'after'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_events`("id", "title", "description", "calendar_id", "category", "tags", "date_type", "start_date", "end_date", "nth_occurrence", "day_of_week", "month", "base_year", "recur_until_year", "nth_frequency", "nth_months", "nth_interval", "relative_period", "relative_unit", "relative_direction", "relative_event_id", "recurrence_rule", "created_at", "deleted_at", "version") SELECT "id", "title", "description", "calendar_id", "category", "tags", "date_type", "start_date", "end_date", "nth_occurrence", "day_of_week", "month", "base_year", "recur_until_year", "nth_frequency", "nth_months", "nth_interval", "relative_period", "relative_unit", "relative_direction", "relative_event_id", "recurrence_rule", "created_at", "deleted_at", "version" FROM `events`;--> statement-breakpoint
+DROP TABLE `events`;--> statement-breakpoint
+ALTER TABLE `__new_events` RENAME TO `events`;--> statement-breakpoint
+CREATE TABLE `event_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`event_id` text NOT NULL,
+	`revision` integer NOT NULL,
+	`author` text(255) NOT NULL,
+	`changed_at` integer NOT NULL,
+	`changes` text NOT NULL,
+	FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `event_revisions_event_revision_idx` ON `event_revisions` (`event_id`,`revision`);--> statement-breakpoint
+INSERT INTO `event_revisions` SELECT * FROM `__event_revisions_backup`;--> statement-breakpoint
+DROP TABLE `__event_revisions_backup`;--> statement-breakpoint
+CREATE TRIGGER `events_fts_insert` AFTER INSERT ON `events` BEGIN
+	INSERT INTO `events_fts` (`event_id`, `title`, `description`) VALUES (new.`id`, new.`title`, coalesce(new.`description`, ''));
+END;--> statement-breakpoint
+CREATE TRIGGER `events_fts_update` AFTER UPDATE OF `title`, `description` ON `events` BEGIN
+	UPDATE `events_fts` SET `title` = new.`title`, `description` = coalesce(new.`description`, '') WHERE `event_id` = old.`id`;
+END;--> statement-breakpoint
+CREATE TRIGGER `events_fts_delete` AFTER DELETE ON `events` BEGIN
+	DELETE FROM `events_fts` WHERE `event_id` = old.`id`;
+END;
@@ -0,0 +1,10 @@
+CREATE TABLE `work_calendars` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text(255) NOT NULL,
+	`weekend_days` text DEFAULT '[0,6]' NOT NULL,
+	`holidays` text DEFAULT '[]' NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `calendars` ADD `work_calendar_id` text REFERENCES work_calendars(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `events` ADD `work_calendar_id` text REFERENCES work_calendars(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `events` ADD `relative_weekday` integer;--> statement-breakpoint
+ALTER TABLE `events` ADD `relative_weekday_ordinal` integer;
\ No newline at end of file
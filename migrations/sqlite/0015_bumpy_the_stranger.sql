@@ -0,0 +1,3 @@
+-- SQLite accepts a CHECK on an added column, so unlike 0010 and 0013 this
+-- needs no rebuild of the events table
+ALTER TABLE `events` ADD `weekend_adjustment` text CONSTRAINT "events_weekend_adjustment_check" CHECK(`weekend_adjustment` IN ('none', 'nextWorkday', 'previousWorkday', 'nearest'));
@@ -0,0 +1,41 @@
+import fs from "fs";
+import path from "path";
+import pg from "pg";
+import Sqlite from "better-sqlite3";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleSqlite, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate as migrateSqlite } from "drizzle-orm/better-sqlite3/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import * as sqliteSchema from "@shared/sqlite-schema";
+
+// Any Postgres-flavoured Drizzle database works here, so a local Postgres
+// or a pg-mem adapter can stand in for the hosted database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type SqliteDatabase = BetterSQLite3Database<typeof sqliteSchema>;
+
+// Unlike SQLite, Postgres is not migrated here: `npm run db:migrate` brings
+// it up to date before the server starts (see replit.md)
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Opens (or creates) the SQLite file and brings its schema up to date, so a
+// fresh laptop install needs nothing more than a writable path
+export function createSqliteDatabase(filename: string): SqliteDatabase {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const client = new Sqlite(filename);
+  client.pragma("journal_mode = WAL");
+  client.pragma("foreign_keys = ON");
+
+  const db = drizzleSqlite({ client, schema: sqliteSchema });
+  migrateSqlite(db, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations", "sqlite"),
+  });
+  return db;
+}
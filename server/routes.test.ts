@@ -0,0 +1,712 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express, { type Express } from "express";
+import request from "supertest";
+import type { AnchorOption, Event, ListedEvent, SearchedEvent } from "@shared/schema";
+
+const STORAGE_ENV = ['SQLITE_DB_PATH', 'DATABASE_URL', 'STORAGE_SNAPSHOT_PATH', 'TRASH_RETENTION_DAYS'];
+const originalEnv = Object.fromEntries(STORAGE_ENV.map(name => [name, process.env[name]]));
+const tempDirs: string[] = [];
+afterAll(() => {
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+// Storage is picked from the environment when ./storage is first imported
+const backends: [string, Record<string, string>][] = [
+  ['MemStorage', {}],
+  ['SqliteStorage', { SQLITE_DB_PATH: ':memory:' }],
+];
+
+// Backends that keep their data in a file, for apps that reopen it
+const fileBackends: [string, (file: string) => Record<string, string>][] = [
+  ['MemStorage', file => ({ STORAGE_SNAPSHOT_PATH: file })],
+  ['SqliteStorage', file => ({ SQLITE_DB_PATH: file })],
+];
+
+function tempFile(name: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'routes-test-'));
+  tempDirs.push(dir);
+  return path.join(dir, name);
+}
+
+// A fresh app over fresh storage, set up like server/index.ts
+async function createApp(env: Record<string, string>): Promise<Express> {
+  vi.resetModules();
+  for (const name of STORAGE_ENV) delete process.env[name];
+  Object.assign(process.env, env);
+
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+  return app;
+}
+
+async function createEvent(app: Express, data: Record<string, unknown>): Promise<Event> {
+  const response = await request(app).post('/api/events').send(data).expect(201);
+  return response.body;
+}
+
+// [title, start] of each occurrence from..to
+async function occurrenceStarts(app: Express, from: string, to: string): Promise<[string, string][]> {
+  const response = await request(app).get('/api/occurrences').query({ from, to }).expect(200);
+  return response.body.map((occurrence: { title: string; start: string }) => [occurrence.title, occurrence.start]);
+}
+
+async function importCSV(app: Express, lines: string[]) {
+  const response = await request(app).post('/api/events/import').attach('file', Buffer.from(lines.join('\n')), 'events.csv').expect(200);
+  return response.body;
+}
+
+const relativeTo = (relativeEventId: string, title = 'Follow-up') => ({
+  title, dateType: 'relative', relativeEventId, relativePeriod: 1, relativeUnit: 'days', relativeDirection: 'after',
+});
+
+describe.each(backends)('routes on %s', (_name, env) => {
+  describe('trash', () => {
+    it('restores trashed events and empties the trash', async () => {
+      const app = await createApp(env);
+      const kept = await createEvent(app, { title: 'Kept', dateType: 'fixed', startDate: '2026-01-01' });
+      const trashed = await createEvent(app, { title: 'Trashed', dateType: 'fixed', startDate: '2026-01-02' });
+      await request(app).delete(`/api/events/${trashed.id}`).set('If-Match', '"1"').expect(204);
+      expect((await request(app).get('/api/events').expect(200)).body.map((event: Event) => event.id)).toEqual([kept.id]);
+      expect((await request(app).get('/api/trash').expect(200)).body).toMatchObject([{ id: trashed.id }]);
+      await request(app).get(`/api/events/${trashed.id}`).expect(404);
+
+      const restored = await request(app).post(`/api/trash/${trashed.id}/restore`).expect(200);
+      expect(restored.body).toMatchObject({ id: trashed.id, deletedAt: null });
+      await request(app).post(`/api/trash/${trashed.id}/restore`).expect(404);
+      expect((await request(app).get('/api/trash').expect(200)).body).toEqual([]);
+
+      await request(app).delete(`/api/events/${trashed.id}`).set('If-Match', `"${restored.body.version}"`).expect(204);
+      expect((await request(app).delete('/api/trash').expect(200)).body.purgedCount).toBe(1);
+      expect((await request(app).get('/api/trash').expect(200)).body).toEqual([]);
+      await request(app).post(`/api/trash/${trashed.id}/restore`).expect(404);
+      expect((await request(app).get('/api/events').expect(200)).body.map((event: Event) => event.id)).toEqual([kept.id]);
+    });
+  });
+
+  describe('revert', () => {
+    it('restores the fields changed since a revision as a new revision', async () => {
+      const app = await createApp(env);
+      const event = await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02', category: 'Work' });
+      await request(app).patch(`/api/events/${event.id}`).set('If-Match', '"1"').send({ title: 'Launch day' }).expect(200);
+      await request(app).patch(`/api/events/${event.id}`).set('If-Match', '"2"').send({ startDate: '2026-03-09' }).expect(200);
+
+      const reverted = await request(app).post(`/api/events/${event.id}/revert/0`).expect(200);
+      expect(reverted.body).toMatchObject({ title: 'Launch', startDate: '2026-03-02T00:00:00.000Z', category: 'Work', version: 4 });
+      const history = (await request(app).get(`/api/events/${event.id}/history`).expect(200)).body;
+      expect(history.map((revision: { revision: number }) => revision.revision)).toEqual([3, 2, 1]);
+      expect(history[0]).toMatchObject({
+        changes: { title: { before: 'Launch day', after: 'Launch' }, startDate: { before: '2026-03-09T00:00:00.000Z', after: '2026-03-02T00:00:00.000Z' } },
+        resolvedBefore: '2026-03-09T00:00:00.000Z',
+        resolvedAfter: '2026-03-02T00:00:00.000Z',
+      });
+
+      await request(app).post(`/api/events/${event.id}/revert/4`).expect(404);
+      await request(app).post(`/api/events/${event.id}/revert/first`).expect(400);
+    });
+
+    it('refuses reverts that would close an anchor loop', async () => {
+      const app = await createApp(env);
+      const start = await createEvent(app, { title: 'Start', dateType: 'fixed', startDate: '2026-03-02' });
+      const middle = await createEvent(app, relativeTo(start.id, 'Middle'));
+      await request(app).patch(`/api/events/${middle.id}`).set('If-Match', '"1"').send({ dateType: 'fixed', startDate: '2026-03-03' }).expect(200);
+      await request(app).patch(`/api/events/${start.id}`).set('If-Match', '"1"').send(relativeTo(middle.id, 'Start')).expect(200);
+
+      const response = await request(app).post(`/api/events/${middle.id}/revert/0`).expect(400);
+      expect(response.body.message).toBe('Anchor loop: "Middle" → "Start" → "Middle"');
+    });
+  });
+
+  describe('versions', () => {
+    it('requires the current ETag to update', async () => {
+      const app = await createApp(env);
+      const event = await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02' });
+      expect((await request(app).get(`/api/events/${event.id}`).expect(200)).headers.etag).toBe('"1"');
+
+      await request(app).patch(`/api/events/${event.id}`).send({ title: 'Unconditional' }).expect(428);
+      await request(app).patch(`/api/events/${event.id}`).set('If-Match', 'latest').send({ title: 'Unreadable' }).expect(400);
+      const updated = await request(app).patch(`/api/events/${event.id}`).set('If-Match', '"1"').send({ title: 'Launch day' }).expect(200);
+      expect(updated.headers.etag).toBe('"2"');
+
+      const stale = await request(app).patch(`/api/events/${event.id}`).set('If-Match', '"1"').send({ title: 'Stale' }).expect(409);
+      expect(stale.headers.etag).toBe('"2"');
+      expect(stale.body.current).toMatchObject({ title: 'Launch day', version: 2 });
+
+      await request(app).patch(`/api/events/${event.id}`).set('If-Match', 'W/"2"').send({ title: 'Weak' }).expect(200);
+      const forced = await request(app).patch(`/api/events/${event.id}`).set('If-Match', '*').send({ title: 'Forced' }).expect(200);
+      expect(forced.body).toMatchObject({ title: 'Forced', version: 4 });
+    });
+
+    it('requires the current ETag to delete', async () => {
+      const app = await createApp(env);
+      const event = await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02' });
+      await request(app).patch(`/api/events/${event.id}`).set('If-Match', '"1"').send({ title: 'Launch day' }).expect(200);
+
+      await request(app).delete(`/api/events/${event.id}`).expect(428);
+      const stale = await request(app).delete(`/api/events/${event.id}`).set('If-Match', '"1"').expect(409);
+      expect(stale.headers.etag).toBe('"2"');
+      expect((await request(app).get('/api/trash').expect(200)).body).toEqual([]);
+      await request(app).delete(`/api/events/${event.id}`).set('If-Match', '"2"').expect(204);
+    });
+  });
+
+  describe('batches', () => {
+    const followUpOf = (relativeEventTempId: string) => ({
+      title: 'Follow-up', dateType: 'relative', relativeEventTempId, relativePeriod: 1, relativeUnit: 'days', relativeDirection: 'after',
+    });
+
+    it('resolves temp ids to the events created earlier in the batch', async () => {
+      const app = await createApp(env);
+      const response = await request(app).post('/api/events/batch').send({
+        operations: [
+          { op: 'create', tempId: 'anchor', data: { title: 'Anchor', dateType: 'fixed', startDate: '2026-01-01' } },
+          { op: 'create', tempId: 'follow-up', data: followUpOf('anchor') },
+          { op: 'update', id: 'anchor', version: 1, data: { title: 'Renamed' } },
+          { op: 'delete', id: 'follow-up' },
+        ],
+      }).expect(200);
+
+      const [anchor, followUp, update, deletion] = response.body.results;
+      expect(anchor).toMatchObject({ op: 'create', tempId: 'anchor' });
+      expect(followUp.event.relativeEventId).toBe(anchor.event.id);
+      expect(update.event).toMatchObject({ id: anchor.event.id, title: 'Renamed', version: 2 });
+      expect(deletion).toEqual({ op: 'delete', id: followUp.event.id });
+      expect((await request(app).get('/api/events').expect(200)).body).toMatchObject([{ id: anchor.event.id, title: 'Renamed' }]);
+    });
+
+    it('rolls the whole batch back when an operation fails', async () => {
+      const app = await createApp(env);
+      const existing = await createEvent(app, { title: 'Existing', dateType: 'fixed', startDate: '2026-01-01' });
+      const conflict = await request(app).post('/api/events/batch').send({
+        operations: [
+          { op: 'create', data: { title: 'New', dateType: 'fixed', startDate: '2026-01-02' } },
+          { op: 'update', id: existing.id, data: { title: 'Renamed' } },
+          { op: 'update', id: existing.id, version: 1, data: { title: 'Stale' } },
+        ],
+      }).expect(409);
+      expect(conflict.body).toMatchObject({ index: 2, current: { id: existing.id, version: 2 } });
+
+      const missing = await request(app).post('/api/events/batch').send({
+        operations: [
+          { op: 'create', data: { title: 'New', dateType: 'fixed', startDate: '2026-01-02' } },
+          { op: 'delete', id: 'no-such-event' },
+        ],
+      }).expect(404);
+      expect(missing.body.index).toBe(1);
+      const unknownTempId = await request(app).post('/api/events/batch').send({
+        operations: [{ op: 'create', data: followUpOf('never-created') }],
+      }).expect(400);
+      expect(unknownTempId.body.index).toBe(0);
+
+      expect((await request(app).get('/api/events').expect(200)).body).toMatchObject([{ title: 'Existing', version: 1 }]);
+      expect((await request(app).get(`/api/events/${existing.id}/history`).expect(200)).body).toEqual([]);
+    });
+  });
+
+  describe('deleting anchors', () => {
+    // Launch on 2026-03-02, Review the day after, Retro the day after that
+    async function createChain(app: Express) {
+      const launch = await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02' });
+      const review = await createEvent(app, relativeTo(launch.id, 'Review'));
+      const retro = await createEvent(app, relativeTo(review.id, 'Retro'));
+      return { launch, review, retro };
+    }
+
+    const deleteLaunch = (app: Express, id: string, cascade?: string) =>
+      request(app).delete(`/api/events/${id}`).query(cascade ? { cascade } : {}).set('If-Match', '"1"');
+
+    it('refuses to orphan dependents unless told what to do with them', async () => {
+      const app = await createApp(env);
+      const { launch, review, retro } = await createChain(app);
+      const refused = await deleteLaunch(app, launch.id).expect(409);
+      expect(refused.body.dependents).toEqual([
+        { id: review.id, title: 'Review', relativeEventId: launch.id },
+        { id: retro.id, title: 'Retro', relativeEventId: review.id },
+      ]);
+      await deleteLaunch(app, launch.id, 'orphan').expect(400);
+      expect((await request(app).get('/api/events').expect(200)).body).toHaveLength(3);
+    });
+
+    it('trashes the dependents with delete', async () => {
+      const app = await createApp(env);
+      const { launch, review, retro } = await createChain(app);
+      await deleteLaunch(app, launch.id, 'delete').expect(204);
+      expect((await request(app).get('/api/events').expect(200)).body).toEqual([]);
+      const trash = (await request(app).get('/api/trash').expect(200)).body;
+      expect(trash.map((event: Event) => event.id).sort()).toEqual([launch.id, review.id, retro.id].sort());
+      await deleteLaunch(app, launch.id, 'delete').expect(404);
+    });
+
+    it('drops the anchor of direct dependents with detach', async () => {
+      const app = await createApp(env);
+      const { launch, review, retro } = await createChain(app);
+      await deleteLaunch(app, launch.id, 'detach').expect(204);
+      expect((await request(app).get(`/api/events/${review.id}`).expect(200)).body).toMatchObject({ dateType: 'relative', relativeEventId: null });
+      expect((await request(app).get(`/api/events/${retro.id}`).expect(200)).body.relativeEventId).toBe(review.id);
+    });
+
+    it('pins direct dependents to their date with convertToFixed', async () => {
+      const app = await createApp(env);
+      const { launch, review, retro } = await createChain(app);
+      await deleteLaunch(app, launch.id, 'convertToFixed').expect(204);
+      expect((await request(app).get(`/api/events/${review.id}`).expect(200)).body).toMatchObject({
+        dateType: 'fixed', startDate: '2026-03-03T00:00:00.000Z', relativeEventId: null, relativePeriod: null,
+      });
+      const resolution = (await request(app).get(`/api/events/${retro.id}/resolution`).expect(200)).body;
+      expect(resolution).toMatchObject({ date: '2026-03-04', problem: null });
+    });
+  });
+
+  describe('search', () => {
+    it('ranks matches and marks where the words were found', async () => {
+      const app = await createApp(env);
+      const meeting = await createEvent(app, { title: 'Board meeting', dateType: 'fixed', startDate: '2026-01-01' });
+      await createEvent(app, { title: 'Quarterly review', description: 'Present to the Board', dateType: 'fixed', startDate: '2026-01-02' });
+      await createEvent(app, relativeTo(meeting.id));
+      await createEvent(app, { title: 'Lunch', dateType: 'fixed', startDate: '2026-01-03' });
+
+      const response = await request(app).get('/api/events').query({ q: 'boa' }).expect(200);
+      expect(response.headers['x-total-count']).toBe('3');
+      expect(response.body.map((event: SearchedEvent) => [event.title, event.search.highlights])).toEqual([
+        ['Board meeting', { title: [[0, 3]], description: [], anchorTitle: [] }],
+        ['Quarterly review', { title: [], description: [[15, 18]], anchorTitle: [] }],
+        ['Follow-up', { title: [], description: [], anchorTitle: [[0, 3]] }],
+      ]);
+      expect(response.body[2].search.anchorTitle).toBe('Board meeting');
+    });
+
+    it('filters and pages search results like the rest of the list', async () => {
+      const app = await createApp(env);
+      await createEvent(app, { title: 'Board meeting', dateType: 'fixed', startDate: '2026-01-01', tags: ['board'] });
+      await createEvent(app, { title: 'Board dinner', dateType: 'fixed', startDate: '2026-02-01' });
+
+      const tagged = await request(app).get('/api/events').query({ q: 'board', tags: 'board' }).expect(200);
+      expect(tagged.body.map((event: Event) => event.title)).toEqual(['Board meeting']);
+      const page = await request(app).get('/api/events').query({ q: 'board dinner', limit: 1 }).expect(200);
+      expect(page.body).toMatchObject([{ title: 'Board dinner', listing: { start: '2026-02-01' }, search: { highlights: { title: [[0, 5], [6, 12]] } } }]);
+      expect((await request(app).get('/api/events').query({ q: 'picnic' }).expect(200)).body).toEqual([]);
+    });
+  });
+
+  describe('paging', () => {
+    // Titles on each page, following X-Next-Cursor to the end
+    async function pageTitles(app: Express, query: Record<string, string | number>): Promise<string[][]> {
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await request(app).get('/api/events').query(cursor ? { ...query, cursor } : query).expect(200);
+        pages.push(response.body.map((event: Event) => event.title));
+        cursor = response.headers['x-next-cursor'];
+      } while (cursor);
+      return pages;
+    }
+
+    it('walks the list page by page with X-Next-Cursor', async () => {
+      const app = await createApp(env);
+      for (const [title, startDate] of [['March', '2026-03-01'], ['January', '2026-01-01'], ['February', '2026-02-01'], ['Also February', '2026-02-01']]) {
+        await createEvent(app, { title, dateType: 'fixed', startDate });
+      }
+      await createEvent(app, { title: 'Undated', dateType: 'fixed' });
+
+      const byDate = await pageTitles(app, { sort: 'date', limit: 2 });
+      expect(byDate.map(page => page.length)).toEqual([2, 2, 1]);
+      // Equal dates are ordered by id, and events without a date come last
+      const [first, ...rest] = byDate.flat();
+      expect(first).toBe('January');
+      expect(rest.slice(0, 2).sort()).toEqual(['Also February', 'February']);
+      expect(rest.slice(2)).toEqual(['March', 'Undated']);
+      expect((await pageTitles(app, { sort: 'title', order: 'desc', limit: 3 })).flat())
+        .toEqual(['Undated', 'March', 'January', 'February', 'Also February']);
+
+      const february = await request(app).get('/api/events').query({ from: '2026-02-01', to: '2026-02-28', limit: 1 }).expect(200);
+      expect(february.headers['x-total-count']).toBe('2');
+      expect(february.headers['x-next-cursor']).toBeDefined();
+      await request(app).get('/api/events').query({ limit: 2, cursor: 'not-a-cursor' }).expect(400);
+    });
+
+    it('adds what the list shows to each event of a page', async () => {
+      const app = await createApp(env);
+      const launch = await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02', endDate: '2026-03-04' });
+      const review = await createEvent(app, relativeTo(launch.id, 'Review'));
+      await createEvent(app, relativeTo(review.id, 'Retro'));
+
+      const page = await request(app).get('/api/events').query({ sort: 'date', limit: 10 }).expect(200);
+      expect(page.body.map((event: ListedEvent) => event.listing)).toEqual([
+        { start: '2026-03-02', end: '2026-03-04', problem: null, anchorTitle: null, anchorTrashed: false, dependentCount: 2 },
+        { start: '2026-03-03', end: '2026-03-03', problem: null, anchorTitle: 'Launch', anchorTrashed: false, dependentCount: 1 },
+        { start: '2026-03-04', end: '2026-03-04', problem: null, anchorTitle: 'Review', anchorTrashed: false, dependentCount: 0 },
+      ]);
+      // Without a limit the list stays as it was
+      expect((await request(app).get('/api/events').expect(200)).body[0].listing).toBeUndefined();
+
+      // Trashed anchors still date their dependents
+      await request(app).delete(`/api/events/${launch.id}`).query({ cascade: 'delete' }).set('If-Match', '"1"').expect(204);
+      await request(app).post(`/api/trash/${review.id}/restore`).expect(200);
+      const restored = await request(app).get('/api/events').query({ limit: 10 }).expect(200);
+      expect(restored.body).toMatchObject([{ title: 'Review', listing: { start: '2026-03-03', anchorTitle: 'Launch', anchorTrashed: true } }]);
+    });
+
+    it('summarizes the list without sending it', async () => {
+      const app = await createApp(env);
+      const calendar = (await request(app).post('/api/calendars').send({ name: 'Work' }).expect(201)).body;
+      await createEvent(app, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02', tags: ['launch', 'work'], calendarId: calendar.id });
+      await createEvent(app, { title: 'Payday', dateType: 'nth', nthOccurrence: -1, dayOfWeek: 5, month: 1, baseYear: 2026, tags: ['money'] });
+      await createEvent(app, { title: 'Party', dateType: 'fixed', startDate: '2026-12-18', tags: ['work'] });
+
+      const summary = await request(app).get('/api/events/summary').query({ tags: 'work' }).expect(200);
+      expect(summary.body).toEqual({
+        counts: { fixed: 2, nth: 0, relative: 0, recurring: 0, easter: 0, total: 2 },
+        activeCount: 3,
+        tags: ['launch', 'money', 'work'],
+      });
+      const inCalendar = await request(app).get('/api/events/summary').query({ calendarId: calendar.id }).expect(200);
+      expect(inCalendar.body.counts.total).toBe(1);
+    });
+  });
+
+  describe('explaining dates', () => {
+    it('walks the anchor chain up to its root', async () => {
+      const app = await createApp(env);
+      const party = await createEvent(app, { title: 'Holiday Party', dateType: 'nth', nthOccurrence: -1, dayOfWeek: 5, month: 12, baseYear: 2025 });
+      const prep = await createEvent(app, {
+        title: 'Prep', dateType: 'relative', relativeEventId: party.id, relativePeriod: 3, relativeUnit: 'days', relativeDirection: 'before',
+      });
+
+      const explanation = await request(app).get(`/api/events/${prep.id}/resolution`).expect(200);
+      expect(explanation.body).toEqual({
+        eventId: prep.id,
+        date: '2025-12-23',
+        problem: null,
+        message: null,
+        steps: [
+          { eventId: prep.id, title: 'Prep', rule: '3 days before Holiday Party', date: '2025-12-23', trashed: false },
+          { eventId: party.id, title: 'Holiday Party', rule: 'last Friday of December 2025', date: '2025-12-26', trashed: false },
+        ],
+        summary: '3 days before Holiday Party → Holiday Party = last Friday of December 2025 → 2025-12-26 → 2025-12-23',
+      });
+
+      // A trashed anchor still explains the date, marked as trashed
+      await request(app).delete(`/api/events/${party.id}`).query({ cascade: 'delete' }).set('If-Match', '"1"').expect(204);
+      await request(app).post(`/api/trash/${prep.id}/restore`).expect(200);
+      const trashed = await request(app).get(`/api/events/${prep.id}/resolution`).expect(200);
+      expect(trashed.body.date).toBe('2025-12-23');
+      expect(trashed.body.steps.map((step: { trashed: boolean }) => step.trashed)).toEqual([false, true]);
+    });
+
+    it('returns 404 for an unknown event', async () => {
+      const app = await createApp(env);
+      await request(app).get('/api/events/missing/resolution').expect(404);
+    });
+  });
+
+  describe('multi-year nth events', () => {
+    // Second Tuesday of January, 2026 through 2028, and the day after it
+    async function createKickoff(app: Express) {
+      const kickoff = await createEvent(app, {
+        title: 'Kickoff', dateType: 'nth', nthOccurrence: 2, dayOfWeek: 2, month: 1, baseYear: 2026, recurUntilYear: 2028,
+      });
+      await createEvent(app, relativeTo(kickoff.id, 'Debrief'));
+      return kickoff;
+    }
+
+    it('expands every year into occurrences, its dependents with it', async () => {
+      const app = await createApp(env);
+      await createKickoff(app);
+
+      const all = await request(app).get('/api/occurrences').query({ from: '2026-01-01', to: '2028-12-31' }).expect(200);
+      expect(all.body.map((occurrence: { title: string; start: string }) => [occurrence.title, occurrence.start])).toEqual([
+        ['Kickoff', '2026-01-13'], ['Debrief', '2026-01-14'],
+        ['Kickoff', '2027-01-12'], ['Debrief', '2027-01-13'],
+        ['Kickoff', '2028-01-11'], ['Debrief', '2028-01-12'],
+      ]);
+      const oneYear = await request(app).get('/api/occurrences').query({ from: '2027-01-01', to: '2027-12-31' }).expect(200);
+      expect(oneYear.body.map((occurrence: { start: string }) => occurrence.start)).toEqual(['2027-01-12', '2027-01-13']);
+      await request(app).get('/api/occurrences').query({ from: '2027-01-01', to: '2026-01-01' }).expect(400);
+    });
+
+    it('exports each year as an event of its own', async () => {
+      const app = await createApp(env);
+      const kickoff = await createKickoff(app);
+
+      const ics = await request(app).get('/api/events/export/ics').query({ from: '2026-06-01' }).expect(200);
+      expect(ics.text.match(/^DTSTART;VALUE=DATE:\d+/gm)).toEqual([
+        'DTSTART;VALUE=DATE:20270112', 'DTSTART;VALUE=DATE:20280111',
+        'DTSTART;VALUE=DATE:20270113', 'DTSTART;VALUE=DATE:20280112',
+      ]);
+      expect(ics.text).toContain(`UID:${kickoff.id}-20270112@calendarsync.com`);
+    });
+
+    it('leaves them alone when the calendar year changes', async () => {
+      const app = await createApp(env);
+      const kickoff = await createKickoff(app);
+      const single = await createEvent(app, { title: 'Offsite', dateType: 'nth', nthOccurrence: 1, dayOfWeek: 1, month: 6, baseYear: 2026 });
+
+      const updated = await request(app).post('/api/events/update-year').send({ newYear: 2027 }).expect(200);
+      expect(updated.body.updatedCount).toBe(1);
+      expect((await request(app).get(`/api/events/${single.id}`).expect(200)).body.baseYear).toBe(2027);
+      expect((await request(app).get(`/api/events/${kickoff.id}`).expect(200)).body.baseYear).toBe(2026);
+    });
+  });
+
+  describe('nth frequencies', () => {
+    it('repeats every month, every quarter or every few weeks', async () => {
+      const app = await createApp(env);
+      await createEvent(app, { title: 'Board', dateType: 'nth', nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: 2026, nthFrequency: 'monthly' });
+      await createEvent(app, { title: 'Review', dateType: 'nth', nthOccurrence: 2, dayOfWeek: 3, month: 2, baseYear: 2026, nthFrequency: 'quarterly' });
+      await createEvent(app, { title: 'Sprint', dateType: 'nth', nthOccurrence: 1, dayOfWeek: 5, month: 3, baseYear: 2026, nthFrequency: 'weeks', nthInterval: 2 });
+
+      expect(await occurrenceStarts(app, '2026-01-01', '2026-04-06')).toEqual([
+        ['Board', '2026-01-05'], ['Board', '2026-02-02'], ['Review', '2026-02-11'], ['Board', '2026-03-02'],
+        ['Sprint', '2026-03-06'], ['Sprint', '2026-03-20'], ['Sprint', '2026-04-03'], ['Board', '2026-04-06'],
+      ]);
+      expect((await occurrenceStarts(app, '2026-05-01', '2026-12-31')).filter(([title]) => title === 'Review'))
+        .toEqual([['Review', '2026-05-13'], ['Review', '2026-08-12'], ['Review', '2026-11-11']]);
+
+      const ics = await request(app).get('/api/events/export/ics').query({ from: '2026-01-01', to: '2026-02-28' }).expect(200);
+      expect(ics.text.match(/^DTSTART;VALUE=DATE:\d+/gm)).toEqual([
+        'DTSTART;VALUE=DATE:20260105', 'DTSTART;VALUE=DATE:20260202', 'DTSTART;VALUE=DATE:20260211',
+      ]);
+    });
+
+    it('imports frequencies from CSV', async () => {
+      const app = await createApp(env);
+      const imported = await importCSV(app, [
+        'Title,Date Type,Nth Occurrence,Day of Week,Month,Base Year,Frequency,Months,Week Interval',
+        'Audit,nth,-1,5,1,2026,Selected Months,"Mar, Sep",',
+        'Standup,nth,1,1,6,2026,Weekly,,3',
+      ]);
+      expect(imported).toMatchObject({ successful: 2, failed: 0 });
+
+      expect(await occurrenceStarts(app, '2026-03-01', '2026-07-31')).toEqual([
+        ['Audit', '2026-03-27'], ['Standup', '2026-06-01'], ['Standup', '2026-06-22'], ['Standup', '2026-07-13'],
+      ]);
+      const events = (await request(app).get('/api/events').query({ sort: 'title' }).expect(200)).body;
+      expect(events.map((event: Event) => [event.nthFrequency, event.nthMonths, event.nthInterval]))
+        .toEqual([['selectedMonths', [3, 9], null], ['weeks', null, 3]]);
+    });
+  });
+
+  describe('easter events', () => {
+    it('follows Western or Orthodox Easter by a number of days', async () => {
+      const app = await createApp(env);
+      const goodFriday = await createEvent(app, {
+        title: 'Good Friday', dateType: 'easter', easterVariant: 'western', easterOffset: -2, baseYear: 2026, recurUntilYear: 2027,
+      });
+      await createEvent(app, { title: 'Pascha', dateType: 'easter', easterVariant: 'orthodox', baseYear: 2026 });
+      await createEvent(app, relativeTo(goodFriday.id, 'Holy Saturday'));
+
+      expect(await occurrenceStarts(app, '2026-01-01', '2027-12-31')).toEqual([
+        ['Good Friday', '2026-04-03'], ['Holy Saturday', '2026-04-04'], ['Pascha', '2026-04-12'],
+        ['Good Friday', '2027-03-26'], ['Holy Saturday', '2027-03-27'],
+      ]);
+      const explanation = await request(app).get(`/api/events/${goodFriday.id}/resolution`).expect(200);
+      expect(explanation.body.steps[0].rule).toBe('2 days before Western Easter 2026, every year through 2027');
+
+      const ics = await request(app).get('/api/events/export/ics').query({ from: '2027-01-01' }).expect(200);
+      expect(ics.text.match(/^DTSTART;VALUE=DATE:\d+/gm)).toEqual(['DTSTART;VALUE=DATE:20270326', 'DTSTART;VALUE=DATE:20270327']);
+    });
+
+    it('imports from CSV and moves with the calendar year', async () => {
+      const app = await createApp(env);
+      const imported = await importCSV(app, [
+        'Title,Date Type,Easter Variant,Easter Offset,Base Year',
+        'Bright Monday,easter,Orthodox,1,2026',
+        'Pentecost,easter,,49,2026',
+      ]);
+      expect(imported).toMatchObject({ successful: 2, failed: 0 });
+      expect(await occurrenceStarts(app, '2026-01-01', '2026-12-31')).toEqual([['Bright Monday', '2026-04-13'], ['Pentecost', '2026-05-24']]);
+
+      const updated = await request(app).post('/api/events/update-year').send({ newYear: 2027 }).expect(200);
+      expect(updated.body.updatedCount).toBe(2);
+      expect(await occurrenceStarts(app, '2027-01-01', '2027-12-31')).toEqual([['Bright Monday', '2027-05-03'], ['Pentecost', '2027-05-16']]);
+    });
+  });
+
+  describe('weekday-anchored events', () => {
+    const onWeekday = (relativeEventId: string, title: string, relativeWeekday: number, relativeWeekdayOrdinal: number, relativeDirection: string) => ({
+      title, dateType: 'relative', relativeEventId, relativeWeekday, relativeWeekdayOrdinal, relativeDirection,
+    });
+
+    it('lands on the nth weekday before or after the anchor', async () => {
+      const app = await createApp(env);
+      // A Wednesday
+      const launch = await createEvent(app, { title: 'Launch Day', dateType: 'fixed', startDate: '2026-03-04' });
+      const standup = await createEvent(app, onWeekday(launch.id, 'Standup', 1, 1, 'after'));
+      await createEvent(app, onWeekday(launch.id, 'Demo', 1, 2, 'after'));
+      await createEvent(app, onWeekday(launch.id, 'Freeze', 5, 1, 'before'));
+      const sync = await createEvent(app, onWeekday(launch.id, 'Sync', 3, 0, 'after'));
+
+      expect(await occurrenceStarts(app, '2026-02-01', '2026-03-31')).toEqual([
+        ['Freeze', '2026-02-27'], ['Launch Day', '2026-03-04'], ['Sync', '2026-03-04'], ['Standup', '2026-03-09'], ['Demo', '2026-03-16'],
+      ]);
+      const explain = async (id: string) => (await request(app).get(`/api/events/${id}/resolution`).expect(200)).body.steps[0].rule;
+      expect(await explain(standup.id)).toBe('first Monday after Launch Day');
+      expect(await explain(sync.id)).toBe('Wednesday on or after Launch Day');
+
+      // Moving the anchor moves them along
+      await request(app).patch(`/api/events/${launch.id}`).set('If-Match', '"1"').send({ startDate: '2026-03-09' }).expect(200);
+      expect((await occurrenceStarts(app, '2026-03-01', '2026-03-31')).filter(([title]) => title === 'Standup' || title === 'Sync'))
+        .toEqual([['Sync', '2026-03-11'], ['Standup', '2026-03-16']]);
+    });
+
+    it('imports weekdays and ordinals from CSV', async () => {
+      const app = await createApp(env);
+      const imported = await importCSV(app, [
+        'Title,Date Type,Start Date,Relative Direction,Relative Event Name,Relative Weekday,Weekday Ordinal',
+        'Launch Day,fixed,2026-03-04,,,,',
+        'Retro,relative,,after,Launch Day,Friday,second',
+        'Prep,relative,,before,Launch Day,Mon,last',
+        'Kickoff,relative,,after,Launch Day,3,on or',
+      ]);
+      expect(imported).toMatchObject({ successful: 4, failed: 0 });
+
+      expect(await occurrenceStarts(app, '2026-03-01', '2026-03-31')).toEqual([
+        ['Prep', '2026-03-02'], ['Kickoff', '2026-03-04'], ['Launch Day', '2026-03-04'], ['Retro', '2026-03-13'],
+      ]);
+      const events: Event[] = (await request(app).get('/api/events').query({ sort: 'title' }).expect(200)).body;
+      expect(events.map(event => [event.title, event.relativeWeekday, event.relativeWeekdayOrdinal, event.relativePeriod])).toEqual([
+        ['Kickoff', 3, 0, null], ['Launch Day', null, null, null], ['Prep', 1, 1, null], ['Retro', 5, 2, null],
+      ]);
+    });
+  });
+
+  describe('weekend adjustment', () => {
+    it('installs pack holidays on their days off when asked', async () => {
+      const app = await createApp(env);
+      await request(app).post('/api/holiday-packs/us-federal/install').send({ fromYear: 2026, toYear: 2027, observed: true }).expect(201);
+
+      const occurrences = await request(app).get('/api/occurrences').query({ from: '2026-07-01', to: '2027-07-31' }).expect(200);
+      const independenceDays = occurrences.body.filter((occurrence: { title: string }) => occurrence.title === 'Independence Day');
+      // Saturday to Friday, Sunday to Monday
+      expect(independenceDays.map((occurrence: { start: string }) => occurrence.start)).toEqual(['2026-07-03', '2027-07-05']);
+    });
+
+    it('moves an event and its dependents off days off', async () => {
+      const app = await createApp(env);
+      const holiday = await createEvent(app, { title: 'Holiday', dateType: 'fixed', startDate: '2026-07-04', weekendAdjustment: 'previousWorkday' });
+      const followUp = await createEvent(app, { ...relativeTo(holiday.id), weekendAdjustment: 'nextWorkday' });
+
+      const resolution = await request(app).get(`/api/events/${followUp.id}/resolution`).expect(200);
+      // Friday plus a day is a Saturday, moved on to Monday
+      expect(resolution.body.steps.map((step: { date: string }) => step.date)).toEqual(['2026-07-06', '2026-07-03']);
+    });
+  });
+
+  describe('pack holiday anchors', () => {
+    it('installs a pack holiday named as the anchor', async () => {
+      const app = await createApp(env);
+      const picker = await request(app).get('/api/events/anchors').expect(200);
+      expect(picker.body).toContainEqual({ id: 'us-federal:labor-day', title: 'Labor Day', dateType: 'nth', pack: 'US federal holidays' });
+
+      const picnic = await createEvent(app, relativeTo('us-federal:labor-day', 'Picnic'));
+      const laborDay = (await request(app).get(`/api/events/${picnic.relativeEventId}`).expect(200)).body;
+      expect(laborDay).toMatchObject({ title: 'Labor Day', tags: ['us-federal'] });
+
+      // Later uses anchor to the installed holiday
+      const parade = await createEvent(app, relativeTo('US-FEDERAL:labor-day', 'Parade'));
+      expect(parade.relativeEventId).toBe(laborDay.id);
+      const anchors: AnchorOption[] = (await request(app).get('/api/events/anchors').expect(200)).body;
+      expect(anchors.filter(anchor => anchor.title === 'Labor Day')).toEqual([{ id: laborDay.id, title: 'Labor Day', dateType: 'nth' }]);
+    });
+
+    it('takes pack keys in updates and batches too', async () => {
+      const app = await createApp(env);
+      const event = await createEvent(app, { title: 'Party', dateType: 'fixed', startDate: '2026-01-01' });
+      const updated = await request(app)
+        .patch(`/api/events/${event.id}`)
+        .set('If-Match', `"${event.version}"`)
+        .send(relativeTo('uk-bank:boxing-day'))
+        .expect(200);
+
+      const batch = await request(app)
+        .post('/api/events/batch')
+        .send({ operations: [{ op: 'create', data: relativeTo('uk-bank:boxing-day', 'Sales') }] })
+        .expect(200);
+      expect(batch.body.results[0].event.relativeEventId).toBe(updated.body.relativeEventId);
+    });
+
+    it('refuses keys that name no pack holiday', async () => {
+      const app = await createApp(env);
+      const response = await request(app).post('/api/events').send(relativeTo('us-federal:boxing-day')).expect(400);
+      expect(response.body.message).toBe('Reference event not found');
+      expect((await request(app).get('/api/events').expect(200)).body).toEqual([]);
+    });
+
+    it('installs each pack holiday only once', async () => {
+      const app = await createApp(env);
+      const sales = await createEvent(app, relativeTo('uk-bank:boxing-day', 'Sales'));
+
+      const first = await request(app).post('/api/holiday-packs/uk-bank/install').send({ fromYear: 2026, toYear: 2027 }).expect(201);
+      expect(first.body.skipped).toEqual(['Boxing Day']);
+      expect(first.body.created.map((event: Event) => event.title)).not.toContain('Boxing Day');
+      const second = await request(app).post('/api/holiday-packs/uk-bank/install').send({ fromYear: 2026, toYear: 2027 }).expect(201);
+      expect(second.body.created).toEqual([]);
+      expect([...second.body.skipped].sort()).toEqual([...first.body.skipped, ...first.body.created.map((event: Event) => event.title)].sort());
+
+      const events: Event[] = (await request(app).get('/api/events').expect(200)).body;
+      expect(events.filter(event => event.title === 'Boxing Day').map(event => event.id)).toEqual([sales.relativeEventId]);
+      await request(app).post('/api/holiday-packs/nowhere/install').send({}).expect(404);
+    });
+
+    it('imports rows anchored to pack keys from CSV', async () => {
+      const app = await createApp(env);
+      const imported = await importCSV(app, [
+        'Title,Date Type,Relative Period,Relative Unit,Relative Direction,Relative Event Name',
+        'Picnic,relative,1,days,before,us-federal:labor-day',
+        'Parade,relative,2,days,before,US-FEDERAL:labor-day',
+        'Cleanup,relative,1,days,after,Labor Day',
+        'Fireworks,relative,1,days,after,us-federal:bonfire-night',
+      ]);
+      expect(imported).toMatchObject({ successful: 3, failed: 1, errors: ['Row 4: Reference event "us-federal:bonfire-night" not found'] });
+
+      const events: Event[] = (await request(app).get('/api/events').expect(200)).body;
+      const laborDay = events.filter(event => event.title === 'Labor Day');
+      expect(laborDay).toHaveLength(1);
+      const relative = events.filter(event => event.dateType === 'relative');
+      expect(relative.map(event => event.title).sort()).toEqual(['Cleanup', 'Parade', 'Picnic']);
+      expect(new Set(relative.map(event => event.relativeEventId))).toEqual(new Set([laborDay[0].id]));
+    });
+  });
+});
+
+describe.each(fileBackends)('restarting on %s', (_name, envFor) => {
+  it('serves what the previous server saved', async () => {
+    const env = envFor(tempFile('events'));
+    const before = await createApp(env);
+    const calendar = (await request(before).post('/api/calendars').send({ name: 'Work' }).expect(201)).body;
+    const launch = await createEvent(before, { title: 'Launch', dateType: 'fixed', startDate: '2026-03-02', calendarId: calendar.id });
+    const followUp = await createEvent(before, relativeTo(launch.id));
+    await request(before).patch(`/api/events/${launch.id}`).set('If-Match', '"1"').send({ title: 'Launch day' }).expect(200);
+    await request(before).delete(`/api/events/${followUp.id}`).set('If-Match', '"1"').expect(204);
+
+    const after = await createApp(env);
+    const events = (await request(after).get('/api/events').expect(200)).body;
+    expect(events).toMatchObject([{ id: launch.id, title: 'Launch day', calendarId: calendar.id, version: 2, startDate: '2026-03-02T00:00:00.000Z' }]);
+    expect((await request(after).get('/api/trash').expect(200)).body).toMatchObject([{ id: followUp.id, relativeEventId: launch.id }]);
+    expect((await request(after).get('/api/calendars').expect(200)).body).toMatchObject([{ id: calendar.id, name: 'Work' }]);
+    const history = (await request(after).get(`/api/events/${launch.id}/history`).expect(200)).body;
+    expect(history).toMatchObject([{ revision: 1, changes: { title: { before: 'Launch', after: 'Launch day' } } }]);
+  });
+
+  it('purges trash past its retention when the server starts', async () => {
+    const file = tempFile('events');
+    const before = await createApp(envFor(file));
+    const event = await createEvent(before, { title: 'Trashed', dateType: 'fixed', startDate: '2026-01-01' });
+    await request(before).delete(`/api/events/${event.id}`).set('If-Match', '"1"').expect(204);
+
+    const kept = await createApp({ ...envFor(file), TRASH_RETENTION_DAYS: '1' });
+    expect((await request(kept).get('/api/trash').expect(200)).body).toHaveLength(1);
+    const after = await createApp({ ...envFor(file), TRASH_RETENTION_DAYS: '0' });
+    await vi.waitFor(async () => {
+      expect((await request(after).get('/api/trash').expect(200)).body).toEqual([]);
+    });
+  });
+});
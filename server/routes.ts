@@ -2,10 +2,315 @@ import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { parse } from "csv-parse/sync";
 import multer from "multer";
-import { storage } from "./storage";
-import { insertEventSchema } from "@shared/schema";
+import { storage, VersionConflictError, BatchOperationError } from "./storage";
+import { log } from "./vite";
+import {
+  insertEventSchema,
+  insertCalendarSchema,
+  insertWorkCalendarSchema,
+  batchRequestSchema,
+  deleteCascadeSchema,
+  eventListQuerySchema,
+  occurrenceQuerySchema,
+  holidayPackInstallSchema,
+  type AnchorOption,
+  type BatchOperation,
+  type DeleteCascade,
+  type EasterVariant,
+  type Event,
+  type EventListing,
+  type EventListQuery,
+  type EventOccurrence,
+  type EventRevision,
+  type EventSummary,
+  type HolidayPackInstall,
+  type InsertEvent,
+  type NthFrequency,
+  type SearchedEvent,
+  type WeekendAdjustment,
+} from "@shared/schema";
+import { findDependents } from "@shared/dependents";
+import {
+  HOLIDAY_PACKS,
+  describePackHolidayRule,
+  findPackHoliday,
+  isPackHolidayEvent,
+  packHolidayDay,
+  packHolidayEvent,
+  packHolidayKey,
+  type HolidayPack,
+  type PackHoliday,
+} from "@shared/holiday-packs";
+import { parseRecurrenceRule, recurrenceRuleLines } from "@shared/recurrence";
+import { escapeICSText, joinICSLines } from "@shared/ics";
+import {
+  addDays,
+  calculateEventDate,
+  describeResolutionProblem,
+  explainEventDate,
+  findAnchorCycle,
+  formatCalendarDate,
+  recursYearly,
+  spanOverlaps,
+  toCalendarDate,
+  toStoredDate,
+  EventDateResolver,
+  STANDARD_WORK_WEEK,
+  createWorkWeekLookup,
+  type WorkWeek,
+  type WorkWeekLookup,
+} from "@shared/date-resolver";
 import { z } from "zod";
 
+// Trashed events are purged permanently once they have been in the trash this long
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days business-day offsets skip besides weekends, as comma-separated
+// YYYY-MM-DD, for events without a work calendar of their own or their calendar's
+const BUSINESS_HOLIDAYS = Array.from(new Set(
+  (process.env.BUSINESS_HOLIDAYS || '').split(',').map(day => day.trim()).filter(day => /^\d{4}-\d{2}-\d{2}$/.test(day))
+)).sort();
+
+const DEFAULT_WORK_WEEK: WorkWeek = {
+  ...STANDARD_WORK_WEEK,
+  holidays: BUSINESS_HOLIDAYS.map(date => ({ type: 'date', date })),
+};
+
+// Attribution for revisions; there are no accounts, so clients may name themselves
+function getAuthor(req: Request): string {
+  return req.get('X-Author') || 'anonymous';
+}
+
+// Rejected conditional request, answered with the given status
+class PreconditionError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Event versions travel as strong ETags, e.g. "3"
+function formatETag(event: Event): string {
+  return `"${event.version}"`;
+}
+
+// Version named by the required If-Match header; "*" matches any version
+function getExpectedVersion(req: Request): number | undefined {
+  const ifMatch = req.get('If-Match')?.trim();
+  if (!ifMatch) {
+    throw new PreconditionError(428, "If-Match header with the event's ETag is required");
+  }
+  if (ifMatch === '*') return undefined;
+
+  const version = parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''), 10);
+  if (isNaN(version)) {
+    throw new PreconditionError(400, "Invalid If-Match header");
+  }
+  return version;
+}
+
+async function assertWorkCalendarExists(workCalendarId: string | null | undefined): Promise<void> {
+  if (workCalendarId && !(await storage.getWorkCalendar(workCalendarId))) {
+    throw new PreconditionError(400, "Work calendar not found");
+  }
+}
+
+// A calendarId, workCalendarId or relativeEventId on an event must name an
+// existing calendar, work calendar or event
+async function assertReferencesExist(data: Partial<InsertEvent>): Promise<void> {
+  if (data.calendarId && !(await storage.getCalendar(data.calendarId))) {
+    throw new PreconditionError(400, "Calendar not found");
+  }
+  await assertWorkCalendarExists(data.workCalendarId);
+  if (data.relativeEventId && !(await storage.getEvent(data.relativeEventId))) {
+    throw new PreconditionError(400, "Reference event not found");
+  }
+}
+
+// Each event's work week for business-day offsets, as of now
+async function getWorkWeeks(): Promise<WorkWeekLookup> {
+  return createWorkWeekLookup(await storage.getAllWorkCalendars(), await storage.getAllCalendars(), DEFAULT_WORK_WEEK);
+}
+
+// Events for `holidays` of a pack, created for those not installed yet, so
+// installing a pack twice adds nothing
+async function installPackHolidays(
+  pack: HolidayPack,
+  holidays: PackHoliday[],
+  options: HolidayPackInstall,
+  author: string
+): Promise<{ created: Event[]; existing: Event[] }> {
+  const fromYear = options.fromYear ?? new Date().getFullYear();
+  const toYear = options.toYear ?? Math.max(fromYear, Math.min(fromYear + 9, 2050));
+
+  const events = await storage.getAllEvents();
+  const existing: Event[] = [];
+  const operations: BatchOperation[] = [];
+  for (const holiday of holidays) {
+    const event = events.find(candidate => isPackHolidayEvent(candidate, pack, holiday));
+    if (event) {
+      existing.push(event);
+    } else {
+      const data = insertEventSchema.parse({
+        ...packHolidayEvent(pack, holiday, fromYear, toYear, options.observed),
+        calendarId: options.calendarId,
+      });
+      operations.push({ op: 'create', data });
+    }
+  }
+
+  const results = operations.length > 0 ? await storage.applyBatch(operations, author) : [];
+  const created = results.flatMap(result => result.op === 'create' ? [result.event] : []);
+  return { created, existing };
+}
+
+// The event of a pack holiday key such as "us-federal:labor-day", installed
+// on first use; undefined when `key` names no pack holiday
+async function installPackAnchor(key: string, author: string): Promise<Event | undefined> {
+  const found = findPackHoliday(key);
+  if (!found) return undefined;
+  const { created, existing } = await installPackHolidays(found.pack, [found.holiday], {}, author);
+  return created[0] ?? existing[0];
+}
+
+// Anchors may be given as a pack holiday key in place of an event id: the
+// key is swapped for the id of the holiday's event. Every way of creating or
+// updating events goes through here before assertReferencesExist.
+async function withPackAnchor<T extends Partial<InsertEvent>>(data: T, author: string): Promise<T> {
+  if (!data.relativeEventId || await storage.getEvent(data.relativeEventId)) return data;
+  const anchor = await installPackAnchor(data.relativeEventId, author);
+  return anchor ? { ...data, relativeEventId: anchor.id } : data;
+}
+
+// Active and trashed events: everything a relative event can be anchored to
+async function getAnchorableEvents(): Promise<Event[]> {
+  return [...(await storage.getAllEvents()), ...(await storage.getTrashedEvents())];
+}
+
+function anchorCycleError(cycle: string[], events: Event[]): PreconditionError {
+  return new PreconditionError(400, describeResolutionProblem({ type: 'cycle', path: cycle }, events));
+}
+
+// Refuses an update that would make the event's anchors lead back to itself
+async function assertNoAnchorCycle(id: string, data: Partial<InsertEvent>): Promise<void> {
+  if (data.dateType === undefined && data.relativeEventId === undefined) return;
+
+  const events = await getAnchorableEvents();
+  const existing = events.find(event => event.id === id);
+  if (!existing) return;
+
+  const cycle = findAnchorCycle({ ...existing, ...data }, events);
+  if (cycle) throw anchorCycleError(cycle, events);
+}
+
+// Same check for a batch: its operations are replayed in order on a copy of
+// the events, with events created by the batch known by their tempId
+async function assertBatchHasNoAnchorCycle(operations: BatchOperation[]): Promise<void> {
+  if (!operations.some(operation => operation.op === 'update')) return;
+
+  const events = new Map((await getAnchorableEvents()).map(event => [event.id, event]));
+  for (const operation of operations) {
+    if (operation.op === 'create' && operation.tempId) {
+      const { relativeEventTempId, ...data } = operation.data;
+      const relativeEventId = relativeEventTempId ?? data.relativeEventId ?? null;
+      events.set(operation.tempId, { ...data, id: operation.tempId, relativeEventId } as Event);
+    } else if (operation.op === 'update') {
+      const existing = events.get(operation.id);
+      if (!existing) continue;
+
+      const { relativeEventTempId, ...data } = operation.data;
+      const updated = { ...existing, ...data, ...(relativeEventTempId && { relativeEventId: relativeEventTempId }) } as Event;
+      events.set(operation.id, updated);
+
+      const cycle = findAnchorCycle(updated, Array.from(events.values()));
+      if (cycle) throw anchorCycleError(cycle, Array.from(events.values()));
+    }
+  }
+}
+
+// Tags from ?tags=a,b (or repeated ?tags=); matching events carry all of them
+function getTagsFilter(req: Request): string[] {
+  return [req.query.tags].flat()
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.split(','))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+function hasTags(event: Event, tags: string[]): boolean {
+  return tags.every(tag => event.tags.includes(tag));
+}
+
+// Value an event list is ordered by; null (an unresolvable date) sorts last
+type SortKey = number | string | null;
+
+// Cursors are opaque to clients: the sort key and id of the last event of a page
+function encodeCursor(key: SortKey, id: string): string {
+  return Buffer.from(JSON.stringify([key, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [SortKey, string] {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof id === 'string' && (key === null || typeof key === 'number' || typeof key === 'string')) {
+      return [key, id];
+    }
+  } catch {
+    // Fall through to the 400 below
+  }
+  throw new PreconditionError(400, "Invalid cursor");
+}
+
+// Orders by key, then by id so that pages never overlap or skip events with equal keys
+function compareSortKeys([keyA, idA]: [SortKey, string], [keyB, idB]: [SortKey, string], order: EventListQuery['order']): number {
+  if (keyA !== keyB) {
+    if (keyA === null) return 1;
+    if (keyB === null) return -1;
+    const difference = typeof keyA === 'number' && typeof keyB === 'number'
+      ? keyA - keyB
+      : String(keyA).localeCompare(String(keyB));
+    if (difference !== 0) return order === 'desc' ? -difference : difference;
+  }
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+}
+
+// Day of an optional YYYY-MM-DD range bound; null leaves that end open
+function parseRangeBound(value: string | undefined): Date | null {
+  return value ? toCalendarDate(value) : null;
+}
+
+// Adds what the events list shows beside `event`. `resolver` holds every
+// active and trashed event; dependents are counted among `activeEvents`.
+function withListing<T extends Event>(event: T, resolver: EventDateResolver, activeEvents: Event[]): T & { listing: EventListing } {
+  const span = resolver.getSpan(event.id);
+  const { problem } = resolver.resolve(event.id);
+  const anchor = event.dateType === 'relative' && event.relativeEventId ? resolver.getEvent(event.relativeEventId) : undefined;
+  return {
+    ...event,
+    listing: {
+      start: span && formatCalendarDate(span.start),
+      end: span && formatCalendarDate(span.end),
+      problem: problem && describeResolutionProblem(problem, resolver.getEvents()),
+      anchorTitle: anchor?.title ?? null,
+      anchorTrashed: !!anchor?.deletedAt,
+      dependentCount: findDependents(event.id, activeEvents).length,
+    },
+  };
+}
+
+// Undo revisions newest first to get the event as it stood right after
+// `revision` (revision 0 is the event as originally created)
+function eventAtRevision(event: Event, revisions: EventRevision[], revision: number): Event {
+  const state: Record<string, unknown> = { ...event };
+  for (const entry of [...revisions].reverse()) {
+    if (entry.revision <= revision) break;
+    for (const [field, change] of Object.entries(entry.changes)) {
+      state[field] = change.before;
+    }
+  }
+  return state as unknown as Event;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure multer for file uploads
   const upload = multer({ 
@@ -19,16 +324,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
     limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
   });
-  // Get all events
+  // Get events, optionally only those carrying every tag in ?tags=, matching
+  // ?q= or within the other filters of eventListQuerySchema. The total number
+  // of matches is sent as X-Total-Count. Each event of a page (?limit=)
+  // carries its EventListing.
   app.get("/api/events", async (req, res) => {
     try {
-      const events = await storage.getAllEvents();
-      res.json(events);
+      const tags = getTagsFilter(req);
+      const params = eventListQuerySchema.parse(req.query);
+      // ?q= searches titles, descriptions and anchor titles, best match first
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const allEvents = await storage.getAllEvents();
+      const matches: Array<Event | SearchedEvent> = query ? await storage.searchEvents(query) : allEvents;
+
+      const sort = params.sort ?? (query ? 'relevance' : 'createdAt');
+      // Resolving every date is only worth it when the dates are used. Trashed
+      // events go in too, as they still anchor the events relative to them.
+      const resolver = sort === 'date' || params.from || params.to || params.limit
+        ? new EventDateResolver([...allEvents, ...(await storage.getTrashedEvents())], await getWorkWeeks())
+        : null;
+      const from = parseRangeBound(params.from);
+      const to = parseRangeBound(params.to);
+      // Multi-day fixed events count when any of their days falls in the range,
+      // recurring events when any of their occurrences does
+      const inDateRange = (event: Event) => {
+        if (!from && !to) return true;
+        return !!resolver?.getOccurrences(event.id).some(span => spanOverlaps(span, from, to));
+      };
+
+      const events = matches.filter(event =>
+        hasTags(event, tags)
+        && (!params.calendarId || event.calendarId === params.calendarId)
+        && (!params.type || event.dateType === params.type)
+        && inDateRange(event)
+      );
+
+      const sortKey = (event: Event | SearchedEvent): SortKey => {
+        switch (sort) {
+          case 'title': return event.title.toLowerCase();
+          case 'date': return resolver?.getSpan(event.id)?.start.getTime() ?? null;
+          case 'relevance': return 'search' in event ? -event.search.score : null;
+          default: return new Date(event.createdAt).getTime();
+        }
+      };
+      const keyed = events
+        .map(event => ({ event, key: [sortKey(event), event.id] as [SortKey, string] }))
+        .sort((a, b) => compareSortKeys(a.key, b.key, params.order));
+
+      const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+      const remaining = cursor ? keyed.filter(entry => compareSortKeys(entry.key, cursor, params.order) > 0) : keyed;
+      const page = params.limit ? remaining.slice(0, params.limit) : remaining;
+
+      res.set('X-Total-Count', String(events.length));
+      if (page.length < remaining.length) {
+        const last = page[page.length - 1];
+        res.set('X-Next-Cursor', encodeCursor(last.key[0], last.key[1]));
+      }
+      res.json(resolver && params.limit
+        ? page.map(entry => withListing(entry.event, resolver, allEvents))
+        : page.map(entry => entry.event));
     } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
       res.status(500).json({ message: "Failed to fetch events" });
     }
   });
 
+  // Counts and tags for the events list and the export panel, so the client
+  // does not have to load every event for them
+  app.get("/api/events/summary", async (req, res) => {
+    try {
+      const tags = getTagsFilter(req);
+      const { calendarId } = eventListQuerySchema.pick({ calendarId: true }).parse(req.query);
+      const allEvents = await storage.getAllEvents();
+      const counts: EventSummary['counts'] = { fixed: 0, nth: 0, relative: 0, recurring: 0, easter: 0, total: 0 };
+      for (const event of allEvents) {
+        if (!hasTags(event, tags) || (calendarId && event.calendarId !== calendarId)) continue;
+        counts[event.dateType]++;
+        counts.total++;
+      }
+
+      const summary: EventSummary = {
+        counts,
+        activeCount: allEvents.length,
+        tags: Array.from(new Set(allEvents.flatMap(event => event.tags))).sort(),
+      };
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to summarize events" });
+    }
+  });
+
+  // What an event can be anchored to, for pickers that should not load every
+  // event: active events, then the pack holidays not installed yet
+  app.get("/api/events/anchors", async (req, res) => {
+    try {
+      const events = await storage.getAllEvents();
+      const anchors: AnchorOption[] = events.map(({ id, title, dateType }) => ({ id, title, dateType }));
+      const year = new Date().getFullYear();
+      for (const pack of HOLIDAY_PACKS) {
+        for (const holiday of pack.holidays) {
+          if (events.some(event => isPackHolidayEvent(event, pack, holiday))) continue;
+          const { dateType } = packHolidayEvent(pack, holiday, year, year);
+          anchors.push({ id: packHolidayKey(pack, holiday), title: holiday.name, dateType, pack: pack.name });
+        }
+      }
+      res.json(anchors);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch anchors" });
+    }
+  });
+
+  // Every dated instance of every active event between ?from= and ?to=,
+  // earliest first: repeating nth events and the relative events anchored to
+  // them contribute one instance per occurrence
+  app.get("/api/occurrences", async (req, res) => {
+    try {
+      const params = occurrenceQuerySchema.parse(req.query);
+      const tags = getTagsFilter(req);
+      const from = toCalendarDate(params.from);
+      const to = toCalendarDate(params.to);
+      const allEvents = await storage.getAllEvents();
+      const trashedEvents = await storage.getTrashedEvents();
+      const resolver = new EventDateResolver([...allEvents, ...trashedEvents], await getWorkWeeks());
+
+      const occurrences: EventOccurrence[] = allEvents
+        .filter(event => hasTags(event, tags) && (!params.calendarId || event.calendarId === params.calendarId))
+        .flatMap(event => resolver.getOccurrences(event.id)
+          .filter(span => spanOverlaps(span, from, to))
+          .map(span => ({
+            eventId: event.id,
+            title: event.title,
+            calendarId: event.calendarId,
+            start: formatCalendarDate(span.start),
+            end: formatCalendarDate(span.end),
+          })))
+        .sort((a, b) => a.start.localeCompare(b.start) || a.title.localeCompare(b.title));
+
+      res.json(occurrences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to fetch occurrences" });
+    }
+  });
+
   // Get single event
   app.get("/api/events/:id", async (req, res) => {
     try {
@@ -36,6 +493,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
+      res.setHeader('ETag', formatETag(event));
       res.json(event);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch event" });
@@ -45,10 +503,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create event
   app.post("/api/events", async (req, res) => {
     try {
-      const validatedData = insertEventSchema.parse(req.body);
+      const validatedData = await withPackAnchor(insertEventSchema.parse(req.body), getAuthor(req));
+      await assertReferencesExist(validatedData);
       const event = await storage.createEvent(validatedData);
       res.status(201).json(event);
     } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
           message: "Validation error", 
@@ -59,16 +521,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Apply many create/update/delete operations all-or-nothing
+  app.post("/api/events/batch", async (req, res) => {
+    try {
+      const operations = batchRequestSchema.parse(req.body).operations;
+      for (const operation of operations) {
+        if (operation.op === 'delete') continue;
+        operation.data = await withPackAnchor(operation.data, getAuthor(req));
+        await assertReferencesExist(operation.data);
+      }
+      await assertBatchHasNoAnchorCycle(operations);
+      const results = await storage.applyBatch(operations, getAuthor(req));
+      res.json({ results });
+    } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof BatchOperationError) {
+        const status = { not_found: 404, conflict: 409, unknown_temp_id: 400 }[error.reason];
+        return res.status(status).json({
+          message: `Batch rolled back: ${error.message}`,
+          index: error.index,
+          ...(error.current && { current: error.current }),
+        });
+      }
+      res.status(500).json({ message: "Failed to apply batch" });
+    }
+  });
+
   // Update event
   app.patch("/api/events/:id", async (req, res) => {
     try {
-      const validatedData = insertEventSchema.partial().parse(req.body);
-      const event = await storage.updateEvent(req.params.id, validatedData);
+      const expectedVersion = getExpectedVersion(req);
+      const validatedData = await withPackAnchor(insertEventSchema.partial().parse(req.body), getAuthor(req));
+      await assertReferencesExist(validatedData);
+      await assertNoAnchorCycle(req.params.id, validatedData);
+      const event = await storage.updateEvent(req.params.id, validatedData, {
+        author: getAuthor(req),
+        expectedVersion,
+      });
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
+      res.setHeader('ETag', formatETag(event));
       res.json(event);
     } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof VersionConflictError) {
+        res.setHeader('ETag', formatETag(error.current));
+        return res.status(409).json({ 
+          message: "Event was modified by someone else", 
+          current: error.current 
+        });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
           message: "Validation error", 
@@ -79,7 +592,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clear all events
+  // Move all events to the trash
   app.delete("/api/clear-events", async (req, res) => {
     try {
       const events = await storage.getAllEvents();
@@ -93,7 +606,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       res.json({ 
-        message: `Successfully deleted ${deletedCount} events`,
+        message: `Successfully moved ${deletedCount} events to the trash`,
         deletedCount 
       });
     } catch (error) {
@@ -101,255 +614,595 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete event
+  // Operations that settle the dependents of an event before it is trashed
+  function cascadeOperations(
+    id: string,
+    dependents: Event[],
+    cascade: DeleteCascade,
+    allEvents: Event[],
+    workWeeks: WorkWeekLookup
+  ): BatchOperation[] {
+    if (cascade === 'delete') {
+      return dependents.map(dependent => ({ op: 'delete' as const, id: dependent.id }));
+    }
+
+    // Detaching or converting the direct dependents leaves the rest anchored as before
+    return dependents
+      .filter(dependent => dependent.relativeEventId === id)
+      .map(dependent => {
+        const resolvedDate = calculateEventDate(dependent, allEvents, workWeeks);
+        return {
+          op: 'update' as const,
+          id: dependent.id,
+          data: cascade === 'detach'
+            ? { relativeEventId: null }
+            : {
+                dateType: 'fixed' as const,
+                startDate: resolvedDate && toStoredDate(resolvedDate),
+                endDate: null,
+                relativePeriod: null,
+                relativeUnit: null,
+                relativeDirection: null,
+                relativeEventId: null,
+                relativeWeekday: null,
+                relativeWeekdayOrdinal: null,
+              },
+        };
+      });
+  }
+
+  // Delete event (moves it to the trash). Events anchored to it are refused
+  // with 409 unless ?cascade says what should become of them
   app.delete("/api/events/:id", async (req, res) => {
     try {
-      const deleted = await storage.deleteEvent(req.params.id);
-      if (!deleted) {
+      const expectedVersion = getExpectedVersion(req);
+      const cascade = req.query.cascade === undefined ? undefined : deleteCascadeSchema.parse(req.query.cascade);
+      const allEvents = await storage.getAllEvents();
+      // A trashed or unknown id has no dependents worth reporting
+      if (!allEvents.some(event => event.id === req.params.id)) {
         return res.status(404).json({ message: "Event not found" });
       }
+      const dependents = findDependents(req.params.id, allEvents);
+
+      if (dependents.length === 0) {
+        const deleted = await storage.deleteEvent(req.params.id, expectedVersion);
+        if (!deleted) {
+          return res.status(404).json({ message: "Event not found" });
+        }
+        return res.status(204).send();
+      }
+
+      if (!cascade) {
+        return res.status(409).json({
+          message: "Other events are anchored to this event",
+          dependents: dependents.map(({ id, title, relativeEventId }) => ({ id, title, relativeEventId })),
+        });
+      }
+
+      try {
+        await storage.applyBatch([
+          { op: 'delete', id: req.params.id, version: expectedVersion },
+          ...cascadeOperations(req.params.id, dependents, cascade, allEvents, await getWorkWeeks()),
+        ], getAuthor(req));
+      } catch (error) {
+        // Only the deleted event carries an expected version
+        if (error instanceof BatchOperationError && error.reason === 'conflict' && error.current) {
+          throw new VersionConflictError(error.current);
+        }
+        if (error instanceof BatchOperationError && error.reason === 'not_found') {
+          return res.status(404).json({ message: "Event not found" });
+        }
+        throw error;
+      }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof VersionConflictError) {
+        res.setHeader('ETag', formatETag(error.current));
+        return res.status(409).json({ 
+          message: "Event was modified by someone else", 
+          current: error.current 
+        });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid cascade. Use delete, detach or convertToFixed.", 
+          errors: error.errors 
+        });
+      }
       res.status(500).json({ message: "Failed to delete event" });
     }
   });
 
-  // Helper function to calculate nth date
-  function calculateNthDate(
-    nthOccurrence: number,
-    dayOfWeek: number,
-    month: number,
-    year: number = new Date().getFullYear()
-  ): Date {
-    // Create date for first day of the month
-    const firstDay = new Date(year, month - 1, 1);
-    
-    // Find the first occurrence of the target day of week
-    let date = new Date(firstDay);
-    while (date.getDay() !== dayOfWeek) {
-      date.setDate(date.getDate() + 1);
+  // List trashed events
+  app.get("/api/trash", async (req, res) => {
+    try {
+      const events = await storage.getTrashedEvents();
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
     }
-    
-    if (nthOccurrence === -1) {
-      // Find last occurrence
-      const lastDay = new Date(year, month, 0); // Last day of month
-      const lastDate = new Date(lastDay);
-      while (lastDate.getDay() !== dayOfWeek) {
-        lastDate.setDate(lastDate.getDate() - 1);
-      }
-      return lastDate;
-    } else {
-      // Find nth occurrence
-      date.setDate(date.getDate() + (nthOccurrence - 1) * 7);
-      
-      // Check if still in the same month
-      if (date.getMonth() !== month - 1) {
-        throw new Error(`No ${nthOccurrence} occurrence in month`);
+  });
+
+  // Restore a trashed event
+  app.post("/api/trash/:id/restore", async (req, res) => {
+    try {
+      const event = await storage.restoreEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found in trash" });
       }
-      
-      return date;
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore event" });
     }
-  }
+  });
 
-  // Helper function to calculate relative date
-  function calculateRelativeDate(
-    baseDate: Date,
-    period: number,
-    unit: string,
-    direction: "before" | "after"
-  ): Date {
-    const result = new Date(baseDate);
-    const multiplier = direction === "before" ? -1 : 1;
-    
-    switch (unit) {
-      case "days":
-        result.setDate(result.getDate() + (period * multiplier));
-        break;
-      case "weeks":
-        result.setDate(result.getDate() + (period * 7 * multiplier));
-        break;
-      case "months":
-        result.setMonth(result.getMonth() + (period * multiplier));
-        break;
-      case "years":
-        result.setFullYear(result.getFullYear() + (period * multiplier));
-        break;
-      default:
-        throw new Error(`Invalid unit: ${unit}`);
+  // Permanently delete everything in the trash
+  app.delete("/api/trash", async (req, res) => {
+    try {
+      const purgedCount = await storage.purgeTrash();
+      res.json({
+        message: `Permanently deleted ${purgedCount} events`,
+        purgedCount
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to empty trash" });
     }
-    
-    return result;
-  }
+  });
 
-  // Helper function to calculate event date for any event type
-  function calculateEventDate(event: any, allEvents: any[]): Date | null {
-    switch (event.dateType) {
-      case "fixed":
-        if (!event.startDate) return null;
-        
-        const parseSimpleDate = (dateValue: any) => {
-          if (typeof dateValue === 'string') {
-            const [year, month, day] = dateValue.toString().split('T')[0].split('-');
-            return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-          }
-          return new Date(dateValue);
-        };
-        
-        return parseSimpleDate(event.startDate);
-        
-      case "nth":
-        if (!event.nthOccurrence || event.dayOfWeek === null || event.dayOfWeek === undefined || !event.month) {
-          return null;
-        }
-        try {
-          const baseYear = event.baseYear || new Date().getFullYear();
-          return calculateNthDate(
-            event.nthOccurrence,
-            event.dayOfWeek,
-            event.month,
-            baseYear
-          );
-        } catch {
-          return null;
-        }
-        
-      case "relative":
-        if (!event.relativeEventName || !event.relativePeriod || !event.relativeUnit || !event.relativeDirection) {
-          return null;
-        }
-        const referenceEvent = allEvents.find(e => e.title === event.relativeEventName);
-        if (!referenceEvent) return null;
-        
-        const referenceDate = calculateEventDate(referenceEvent, allEvents);
-        if (!referenceDate) return null;
-        
-        try {
-          return calculateRelativeDate(
-            referenceDate,
-            event.relativePeriod,
-            event.relativeUnit,
-            event.relativeDirection as "before" | "after"
-          );
-        } catch {
-          return null;
-        }
-        
-      default:
-        return null;
+  // Holidays business-day offsets skip for events without a work calendar, so
+  // clients resolve dates as the server does
+  app.get("/api/holidays", (req, res) => {
+    res.json(BUSINESS_HOLIDAYS);
+  });
+
+  // Built-in holiday packs, with each holiday's date in ?year= (this year by default)
+  app.get("/api/holiday-packs", (req, res) => {
+    const year = parseInt(String(req.query.year ?? ''), 10) || new Date().getFullYear();
+    res.json(HOLIDAY_PACKS.map(pack => ({
+      id: pack.id,
+      name: pack.name,
+      observance: pack.observance,
+      holidays: pack.holidays.map(holiday => ({
+        key: packHolidayKey(pack, holiday),
+        name: holiday.name,
+        rule: holiday.rule,
+        description: describePackHolidayRule(holiday.rule),
+        date: packHolidayDay(holiday, year),
+      })),
+    })));
+  });
+
+  // Create an event for each holiday of a pack that is not installed yet
+  app.post("/api/holiday-packs/:id/install", async (req, res) => {
+    try {
+      const pack = HOLIDAY_PACKS.find(candidate => candidate.id === req.params.id);
+      if (!pack) {
+        return res.status(404).json({ message: "Holiday pack not found" });
+      }
+
+      const options = holidayPackInstallSchema.parse(req.body ?? {});
+      if (options.calendarId && !(await storage.getCalendar(options.calendarId))) {
+        throw new PreconditionError(400, "Calendar not found");
+      }
+      const { created, existing } = await installPackHolidays(pack, pack.holidays, options, getAuthor(req));
+      res.status(201).json({ created, skipped: existing.map(event => event.title) });
+    } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to install holiday pack" });
     }
-  }
+  });
 
-  // Export events as ICS
-  app.get("/api/events/export/ics", async (req, res) => {
+  // List calendars
+  app.get("/api/calendars", async (req, res) => {
     try {
-      const events = await storage.getAllEvents();
+      const calendars = await storage.getAllCalendars();
+      res.json(calendars);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calendars" });
+    }
+  });
+
+  // Get single calendar
+  app.get("/api/calendars/:id", async (req, res) => {
+    try {
+      const calendar = await storage.getCalendar(req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      res.json(calendar);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calendar" });
+    }
+  });
+
+  // Create calendar
+  app.post("/api/calendars", async (req, res) => {
+    try {
+      const validatedData = insertCalendarSchema.parse(req.body);
+      await assertWorkCalendarExists(validatedData.workCalendarId);
+      const calendar = await storage.createCalendar(validatedData);
+      res.status(201).json(calendar);
+    } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create calendar" });
+    }
+  });
+
+  // Update calendar
+  app.patch("/api/calendars/:id", async (req, res) => {
+    try {
+      const validatedData = insertCalendarSchema.partial().parse(req.body);
+      await assertWorkCalendarExists(validatedData.workCalendarId);
+      const calendar = await storage.updateCalendar(req.params.id, validatedData);
+      if (!calendar) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      res.json(calendar);
+    } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update calendar" });
+    }
+  });
+
+  // Delete calendar; its events are kept without a calendar
+  app.delete("/api/calendars/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteCalendar(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete calendar" });
+    }
+  });
+
+  // List work calendars
+  app.get("/api/work-calendars", async (req, res) => {
+    try {
+      const workCalendars = await storage.getAllWorkCalendars();
+      res.json(workCalendars);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch work calendars" });
+    }
+  });
+
+  // Get single work calendar
+  app.get("/api/work-calendars/:id", async (req, res) => {
+    try {
+      const workCalendar = await storage.getWorkCalendar(req.params.id);
+      if (!workCalendar) {
+        return res.status(404).json({ message: "Work calendar not found" });
+      }
+      res.json(workCalendar);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch work calendar" });
+    }
+  });
+
+  // Create work calendar
+  app.post("/api/work-calendars", async (req, res) => {
+    try {
+      const validatedData = insertWorkCalendarSchema.parse(req.body);
+      const workCalendar = await storage.createWorkCalendar(validatedData);
+      res.status(201).json(workCalendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create work calendar" });
+    }
+  });
+
+  // Update work calendar
+  app.patch("/api/work-calendars/:id", async (req, res) => {
+    try {
+      const validatedData = insertWorkCalendarSchema.partial().parse(req.body);
+      const workCalendar = await storage.updateWorkCalendar(req.params.id, validatedData);
+      if (!workCalendar) {
+        return res.status(404).json({ message: "Work calendar not found" });
+      }
+      res.json(workCalendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update work calendar" });
+    }
+  });
+
+  // Delete work calendar; events and calendars using it fall back to the default work week
+  app.delete("/api/work-calendars/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteWorkCalendar(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Work calendar not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete work calendar" });
+    }
+  });
+
+  // Purge events that have outlived the retention period, now and then hourly
+  const purgeExpiredTrash = async () => {
+    try {
+      const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const purgedCount = await storage.purgeTrash(cutoff);
+      if (purgedCount > 0) {
+        log(`Purged ${purgedCount} events older than ${TRASH_RETENTION_DAYS} days from the trash`);
+      }
+    } catch (error) {
+      console.error('Failed to purge expired trash:', error);
+    }
+  };
+  void purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MS).unref();
+
+  // Revision history of an event, newest first, with the date each side resolved to
+  app.get("/api/events/:id/history", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const revisions = await storage.getEventRevisions(event.id);
+      const allEvents = await getAnchorableEvents();
+      const workWeeks = await getWorkWeeks();
+      const resolveAt = (revision: number) => {
+        const state = eventAtRevision(event, revisions, revision);
+        return calculateEventDate(state, allEvents.map(e => e.id === state.id ? state : e), workWeeks);
+      };
+
+      res.json(revisions.map(revision => ({
+        ...revision,
+        resolvedBefore: resolveAt(revision.revision - 1),
+        resolvedAfter: resolveAt(revision.revision),
+      })).reverse());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event history" });
+    }
+  });
+
+  // How an event's date was derived: its rule and every anchor up the chain, each with the date it resolved to
+  app.get("/api/events/:id/resolution", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const resolver = new EventDateResolver(await getAnchorableEvents(), await getWorkWeeks());
+      res.json(explainEventDate(event, resolver));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to explain event date" });
+    }
+  });
+
+  // Revert an event to how it stood after a revision; the revert is itself a new revision
+  app.post("/api/events/:id/revert/:revision", async (req, res) => {
+    try {
+      const revision = parseInt(req.params.revision, 10);
+      if (isNaN(revision) || revision < 0) {
+        return res.status(400).json({ message: "Invalid revision number" });
+      }
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const revisions = await storage.getEventRevisions(event.id);
+      const latestRevision = revisions.length > 0 ? revisions[revisions.length - 1].revision : 0;
+      if (revision > latestRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const target = eventAtRevision(event, revisions, revision) as unknown as Record<string, unknown>;
+      const revertedFields = new Set(
+        revisions.filter(entry => entry.revision > revision).flatMap(entry => Object.keys(entry.changes))
+      );
+      const validatedData = insertEventSchema.partial().parse(
+        Object.fromEntries(Array.from(revertedFields, field => [field, target[field]]))
+      );
+      // The same checks as PATCH: the old calendar or anchor may since have
+      // been deleted, and the old anchor may since have been anchored to this event
+      await assertReferencesExist(validatedData);
+      await assertNoAnchorCycle(event.id, validatedData);
+
+      const updatedEvent = await storage.updateEvent(event.id, validatedData, { author: getAuthor(req) });
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof PreconditionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to revert event" });
+    }
+  });
+
+  // Build an ICS document for `events`, with one VEVENT per occurrence that
+  // falls within from..to (inclusive, open when null). Relative events resolve
+  // against `anchorEvents`, which may span other calendars, and the trash, and
+  // count business days by `workWeeks`
+  function buildICS(
+    events: Event[],
+    anchorEvents: Event[],
+    trashedEvents: Event[],
+    workWeeks: WorkWeekLookup,
+    from: Date | null = null,
+    to: Date | null = null
+  ): string {
+    // Simple ICS generation
+    let icsContent = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//CalendarSync//Calendar Event Creator//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ];
+
+    // Trashed anchors still resolve; the event is flagged below
+    const resolver = new EventDateResolver([...anchorEvents, ...trashedEvents], workWeeks);
+
+    for (const event of events) {
+      const occurrences = resolver.getOccurrences(event.id);
+      const spans = occurrences.filter(span => spanOverlaps(span, from, to));
+      
+      const formatDateForAllDay = (date: Date) => {
+        // Format as YYYYMMDD for all-day events
+        const year = date.getFullYear();
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${year}${month}${day}`;
+      };
       
-      // Simple ICS generation
-      let icsContent = [
-        'BEGIN:VCALENDAR',
-        'VERSION:2.0',
-        'PRODID:-//CalendarSync//Calendar Event Creator//EN',
-        'CALSCALE:GREGORIAN',
-        'METHOD:PUBLISH'
+      const formatDateTimeForCreated = (date: Date) => {
+        return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+      };
+
+      const categories = [event.category, ...event.tags].filter((value): value is string => !!value);
+      const trashedAnchor = event.dateType === 'relative' && !anchorEvents.some(e => e.id === event.relativeEventId)
+        ? trashedEvents.find(e => e.id === event.relativeEventId)
+        : undefined;
+      const description = trashedAnchor
+        ? [event.description, `Anchor deleted: ${trashedAnchor.title} is in the trash`].filter(Boolean).join('\n')
+        : event.description;
+
+      const vevent = (uid: string, start: Date, end: Date, recurrence: string[] = []) => [
+        'BEGIN:VEVENT',
+        `UID:${uid}@calendarsync.com`,
+        `DTSTART;VALUE=DATE:${formatDateForAllDay(start)}`,
+        // All-day events end on the day after their last day
+        `DTEND;VALUE=DATE:${formatDateForAllDay(addDays(end, 1))}`,
+        ...recurrence,
+        `SUMMARY:${escapeICSText(event.title)}`,
+        description ? `DESCRIPTION:${escapeICSText(description)}` : '',
+        categories.length > 0 ? `CATEGORIES:${categories.map(escapeICSText).join(',')}` : '',
+        `CREATED:${formatDateTimeForCreated(new Date(event.createdAt))}`,
+        'END:VEVENT'
       ];
 
-      for (const event of events) {
-        let eventStart: Date;
-        let eventEnd: Date;
-        
-        if (event.dateType === 'fixed') {
-          if (!event.startDate) continue;
-          
-          // Parse date strings directly to avoid timezone issues
-          const parseSimpleDate = (dateValue: any) => {
-            if (typeof dateValue === 'string') {
-              const [year, month, day] = dateValue.toString().split('T')[0].split('-');
-              return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-            }
-            return new Date(dateValue);
-          };
-          
-          eventStart = parseSimpleDate(event.startDate);
-          
-          if (event.endDate) {
-            eventEnd = parseSimpleDate(event.endDate);
-            // For all-day events, ICS end date should be the day AFTER the last day
-            eventEnd.setDate(eventEnd.getDate() + 1);
-          } else {
-            // Single day event - end date is the day after start date
-            eventEnd = new Date(eventStart);
-            eventEnd.setDate(eventStart.getDate() + 1);
-          }
-        } else if (event.dateType === 'nth') {
-          // Calculate nth date
-          if (!event.nthOccurrence || event.dayOfWeek === null || event.dayOfWeek === undefined || !event.month) continue;
-          
-          try {
-            const baseYear = event.baseYear || new Date().getFullYear();
-            eventStart = calculateNthDate(
-              event.nthOccurrence,
-              event.dayOfWeek!,
-              event.month,
-              baseYear
-            );
-            // Single day event - end date is the day after start date
-            eventEnd = new Date(eventStart);
-            eventEnd.setDate(eventStart.getDate() + 1);
-          } catch (error) {
-            // Skip events that can't be calculated
-            continue;
-          }
-        } else if (event.dateType === 'relative') {
-          // Calculate relative date
-          const calculatedDate = calculateEventDate(event, events);
-          if (!calculatedDate) continue;
-          
-          eventStart = calculatedDate;
-          // Single day event - end date is the day after start date
-          eventEnd = new Date(eventStart);
-          eventEnd.setDate(eventStart.getDate() + 1);
-        } else {
-          // Skip unknown event types
-          continue;
+      if (event.dateType === 'recurring') {
+        // Recurring events keep their rule: a single VEVENT, included whole when
+        // any occurrence is in range, whose RRULE calendar apps expand
+        if (spans.length > 0) {
+          const rule = parseRecurrenceRule(event.recurrenceRule!);
+          icsContent.push(...vevent(event.id, rule.start, rule.start, recurrenceRuleLines(rule)));
         }
-        
-        const formatDateForAllDay = (date: Date) => {
-          // Format as YYYYMMDD for all-day events
-          const year = date.getFullYear();
-          const month = String(date.getMonth() + 1).padStart(2, '0');
-          const day = String(date.getDate()).padStart(2, '0');
-          return `${year}${month}${day}`;
-        };
-        
-        const formatDateTimeForCreated = (date: Date) => {
-          return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-        };
+        continue;
+      }
 
-        icsContent.push(
-          'BEGIN:VEVENT',
-          `UID:${event.id}@calendarsync.com`,
-          `DTSTART;VALUE=DATE:${formatDateForAllDay(eventStart)}`,
-          `DTEND;VALUE=DATE:${formatDateForAllDay(eventEnd)}`,
-          `SUMMARY:${event.title}`,
-          event.description ? `DESCRIPTION:${event.description}` : '',
-          `CREATED:${formatDateTimeForCreated(new Date(event.createdAt))}`,
-          'END:VEVENT'
-        );
+      for (const span of spans) {
+        // Each instance of a repeating nth, easter or relative event needs a UID of its own
+        const uid = occurrences.length > 1 ? `${event.id}-${formatDateForAllDay(span.start)}` : event.id;
+        icsContent.push(...vevent(uid, span.start, span.end));
       }
+    }
 
-      icsContent.push('END:VCALENDAR');
-      
-      const icsString = icsContent.filter(line => line).join('\r\n');
+    icsContent.push('END:VCALENDAR');
+    
+    return joinICSLines(icsContent.filter(line => line));
+  }
+
+  // ?from= and ?to= (YYYY-MM-DD, inclusive) limit which occurrences an ICS export holds
+  const icsRangeSchema = eventListQuerySchema.pick({ from: true, to: true });
+
+  // Export events as ICS
+  app.get("/api/events/export/ics", async (req, res) => {
+    try {
+      const range = icsRangeSchema.parse(req.query);
+      const tags = getTagsFilter(req);
+      const allEvents = await storage.getAllEvents();
+      // Trashed events can still anchor relative events, which are flagged in the export
+      const trashedEvents = await storage.getTrashedEvents();
+      const events = allEvents.filter(event => hasTags(event, tags));
+      const icsString = buildICS(events, allEvents, trashedEvents, await getWorkWeeks(), parseRangeBound(range.from), parseRangeBound(range.to));
       
       res.setHeader('Content-Type', 'text/calendar');
       res.setHeader('Content-Disposition', 'attachment; filename="events.ics"');
       res.send(icsString);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
       res.status(500).json({ message: "Failed to export events" });
     }
   });
 
-  // Update calendar year - updates base year for all nth date events
+  // Export a single calendar as ICS
+  app.get("/api/calendars/:id/export/ics", async (req, res) => {
+    try {
+      const range = icsRangeSchema.parse(req.query);
+      const calendar = await storage.getCalendar(req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      const allEvents = await storage.getAllEvents();
+      const trashedEvents = await storage.getTrashedEvents();
+      const tags = getTagsFilter(req);
+      const events = allEvents.filter(event => event.calendarId === calendar.id && hasTags(event, tags));
+      const icsString = buildICS(events, allEvents, trashedEvents, await getWorkWeeks(), parseRangeBound(range.from), parseRangeBound(range.to));
+      const filename = calendar.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'calendar';
+
+      res.setHeader('Content-Type', 'text/calendar');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.ics"`);
+      res.send(icsString);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to export calendar" });
+    }
+  });
+
+  // Update calendar year - updates base year for all nth and easter date events
   app.post("/api/events/update-year", async (req, res) => {
     try {
       const { newYear } = req.body;
@@ -362,8 +1215,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedEvents = [];
       
       for (const event of events) {
-        if (event.dateType === 'nth') {
-          // Update the base year for nth date events
+        // Events repeating over several years already cover every year of their range
+        if ((event.dateType === 'nth' || event.dateType === 'easter') && !recursYearly(event)) {
+          // Update the base year for nth and easter date events
           const updatedData = {
             baseYear: newYear
           };
@@ -371,11 +1225,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const updatedEvent = { ...event, baseYear: newYear };
           updatedEvents.push(updatedEvent);
         }
-        // Leave fixed and relative events unchanged
+        // Leave fixed, relative and recurring events unchanged
       }
       
       res.json({ 
-        message: `Updated ${updatedEvents.length} nth date events to year ${newYear}`,
+        message: `Updated ${updatedEvents.length} nth and easter date events to year ${newYear}`,
         updatedCount: updatedEvents.length,
         year: newYear
       });
@@ -407,6 +1261,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         errors: [] as string[]
       };
 
+      const recordFailure = (row: number, error: unknown) => {
+        results.failed++;
+        const errorMsg = error instanceof z.ZodError 
+          ? `Row ${row + 1}: ${error.errors.map(e => e.message).join(', ')}`
+          : `Row ${row + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        results.errors.push(errorMsg);
+      };
+
+      // Anchors may be given by id or by title; titles resolve to the first
+      // event with that title, including events imported earlier in the file
+      const existingEvents = await storage.getAllEvents();
+      const eventIds = new Set(existingEvents.map(event => event.id));
+      const titleIds = new Map<string, string>();
+      for (const event of existingEvents) {
+        if (!titleIds.has(event.title)) titleIds.set(event.title, event.id);
+      }
+
+      const importEvent = async (eventData: any) => {
+        // Validate the event data
+        const validatedData = insertEventSchema.parse(eventData);
+        
+        // Create the event
+        const event = await storage.createEvent(validatedData);
+        if (!titleIds.has(event.title)) titleIds.set(event.title, event.id);
+        results.successful++;
+      };
+
+      // Rows anchored to a title that appears further down the file
+      let waiting: { row: number; eventData: any; anchorName: string }[] = [];
+
       // Process each record
       for (let i = 0; i < records.length; i++) {
         const record = records[i] as any;
@@ -415,9 +1299,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const eventData: any = {
             title: record.title || record.Title,
             description: record.description || record.Description || null,
+            category: record.category || record.Category || null,
+            // Tags are separated by commas or semicolons within the cell
+            tags: (record.tags || record.Tags || '').split(/[,;]/).map((tag: string) => tag.trim()).filter(Boolean),
             dateType: (record.dateType || record['Date Type'] || '').toLowerCase()
           };
 
+          // e.g. "nearest" or "Next Workday"; anything else keeps the date
+          const adjustment = (record.weekendAdjustment || record['Weekend Adjustment'] || '').toLowerCase().replace(/[\s_-]/g, '');
+          const adjustmentMap: { [key: string]: WeekendAdjustment } = {
+            'none': 'none',
+            'nextworkday': 'nextWorkday',
+            'previousworkday': 'previousWorkday',
+            'nearest': 'nearest',
+            'nearestworkday': 'nearest'
+          };
+          eventData.weekendAdjustment = adjustmentMap[adjustment] || null;
+
           // Handle different date types
           if (eventData.dateType === 'fixed') {
             // Clean and validate date strings
@@ -441,6 +1339,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             const yearValue = parseInt(record.baseYear || record['Base Year'] || new Date().getFullYear().toString());
             eventData.baseYear = (yearValue >= 2020 && yearValue <= 2050) ? yearValue : new Date().getFullYear();
+
+            // Optional: repeat every year through this one
+            const untilValue = parseInt(record.recurUntilYear || record['Recur Until Year'] || '');
+            eventData.recurUntilYear = (untilValue >= 2020 && untilValue <= 2050) ? untilValue : null;
+
+            // Optional: how often the pattern repeats, yearly by default
+            const frequency = (record.nthFrequency || record.Frequency || '').toLowerCase().replace(/[\s_-]/g, '');
+            const frequencyMap: { [key: string]: NthFrequency } = {
+              'yearly': 'yearly',
+              'monthly': 'monthly',
+              'quarterly': 'quarterly',
+              'selectedmonths': 'selectedMonths',
+              'months': 'selectedMonths',
+              'weeks': 'weeks',
+              'weekly': 'weeks'
+            };
+            eventData.nthFrequency = frequencyMap[frequency] || null;
+
+            // Months are numbers or names separated by commas or semicolons, e.g. "3;6;9" or "Mar, Jun, Sep"
+            const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+            const months = (record.nthMonths || record.Months || '').split(/[,;]/)
+              .map((value: string) => value.trim().toLowerCase())
+              .filter(Boolean)
+              .map((value: string) => /^\d+$/.test(value) ? parseInt(value) : monthNames.indexOf(value.slice(0, 3)) + 1)
+              .filter((value: number) => value >= 1 && value <= 12);
+            eventData.nthMonths = months.length > 0 ? months : null;
+
+            const intervalValue = parseInt(record.nthInterval || record['Week Interval'] || '');
+            eventData.nthInterval = (intervalValue >= 1 && intervalValue <= 52) ? intervalValue : null;
             
           } else if (eventData.dateType === 'relative') {
             const periodValue = parseInt(record.relativePeriod || record['Relative Period'] || '1');
@@ -456,29 +1383,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
               'days': 'days',
               'weeks': 'weeks',
               'months': 'months', 
-              'years': 'years'
+              'years': 'years',
+              // Counted by the work week of the event's calendar
+              'business day': 'businessDays',
+              'business days': 'businessDays',
+              'businessday': 'businessDays',
+              'businessdays': 'businessDays'
             };
             eventData.relativeUnit = unitMap[unit] || 'days';
             
             eventData.relativeDirection = (record.relativeDirection || record['Relative Direction'] || 'before').toLowerCase();
-            eventData.relativeEventName = record.relativeEventName || record['Relative Event Name'] || record.relativeEventId || record['Relative Event ID'] || '';
+
+            // Optional: a weekday by number (0-6) or name, e.g. "Monday", in place of the period and unit
+            const weekdayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+            const weekday = (record.relativeWeekday || record['Relative Weekday'] || '').trim().toLowerCase();
+            const weekdayValue = /^\d+$/.test(weekday) ? parseInt(weekday) : weekdayNames.indexOf(weekday.slice(0, 3));
+            if (weekday && weekdayValue >= 0 && weekdayValue <= 6) {
+              eventData.relativeWeekday = weekdayValue;
+              eventData.relativePeriod = null;
+              eventData.relativeUnit = null;
+
+              // Which one counting from the anchor: 1-4 or first to fourth, "last" for
+              // the nearest before, 0 or "on or" for the nearest including the anchor's day
+              const ordinal = (record.relativeWeekdayOrdinal || record['Weekday Ordinal'] || '').trim().toLowerCase();
+              const ordinalMap: { [key: string]: number } = {
+                'on or': 0,
+                'first': 1,
+                'last': 1,
+                'second': 2,
+                'third': 3,
+                'fourth': 4
+              };
+              const ordinalValue = /^\d+$/.test(ordinal) ? parseInt(ordinal) : ordinalMap[ordinal];
+              eventData.relativeWeekdayOrdinal = (ordinalValue >= 0 && ordinalValue <= 4) ? ordinalValue : null;
+            }
+
+            // Older templates put the anchor's title in the ID column too
+            const anchorId = record.relativeEventId || record['Relative Event ID'] || '';
+            const anchorName = record.relativeEventName || record['Relative Event Name'] || anchorId;
+            if (eventIds.has(anchorId)) {
+              eventData.relativeEventId = anchorId;
+            } else if (titleIds.has(anchorName)) {
+              eventData.relativeEventId = titleIds.get(anchorName);
+            } else if (findPackHoliday(anchorName)) {
+              // A pack holiday such as "us-federal:labor-day", installed on first use
+              const anchor = (await installPackAnchor(anchorName, getAuthor(req)))!;
+              if (!titleIds.has(anchor.title)) titleIds.set(anchor.title, anchor.id);
+              titleIds.set(anchorName, anchor.id);
+              eventData.relativeEventId = anchor.id;
+            } else if (anchorName) {
+              waiting.push({ row: i, eventData, anchorName });
+              continue;
+            }
+          } else if (eventData.dateType === 'recurring') {
+            // The rule's lines are separated by spaces or newlines within the cell,
+            // e.g. "DTSTART:20260102 RRULE:FREQ=WEEKLY;BYDAY=FR"
+            eventData.recurrenceRule = record.recurrenceRule || record['Recurrence Rule'] || null;
+          } else if (eventData.dateType === 'easter') {
+            const variant = (record.easterVariant || record['Easter Variant'] || '').toLowerCase().trim();
+            const variantMap: { [key: string]: EasterVariant } = {
+              'western': 'western',
+              'gregorian': 'western',
+              'orthodox': 'orthodox',
+              'eastern': 'orthodox',
+              'julian': 'orthodox'
+            };
+            eventData.easterVariant = variantMap[variant] || null;
+
+            // Signed days from Easter Sunday, e.g. -2 for Good Friday
+            const offsetValue = parseInt(record.easterOffset || record['Easter Offset'] || '0');
+            eventData.easterOffset = Number.isNaN(offsetValue) ? 0 : offsetValue;
+
+            const yearValue = parseInt(record.baseYear || record['Base Year'] || new Date().getFullYear().toString());
+            eventData.baseYear = (yearValue >= 2020 && yearValue <= 2050) ? yearValue : new Date().getFullYear();
+
+            const untilValue = parseInt(record.recurUntilYear || record['Recur Until Year'] || '');
+            eventData.recurUntilYear = (untilValue >= 2020 && untilValue <= 2050) ? untilValue : null;
           }
 
-          // Validate the event data
-          const validatedData = insertEventSchema.parse(eventData);
-          
-          // Create the event
-          await storage.createEvent(validatedData);
-          results.successful++;
+          await importEvent(eventData);
         } catch (error) {
-          results.failed++;
-          const errorMsg = error instanceof z.ZodError 
-            ? `Row ${i + 1}: ${error.errors.map(e => e.message).join(', ')}`
-            : `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          results.errors.push(errorMsg);
+          recordFailure(i, error);
         }
       }
 
+      // Import waiting rows once their anchor exists, until a pass makes no progress
+      while (waiting.some(entry => titleIds.has(entry.anchorName))) {
+        const ready = waiting.filter(entry => titleIds.has(entry.anchorName));
+        waiting = waiting.filter(entry => !titleIds.has(entry.anchorName));
+        for (const entry of ready) {
+          try {
+            await importEvent({ ...entry.eventData, relativeEventId: titleIds.get(entry.anchorName) });
+          } catch (error) {
+            recordFailure(entry.row, error);
+          }
+        }
+      }
+      for (const entry of waiting) {
+        recordFailure(entry.row, new Error(`Reference event "${entry.anchorName}" not found`));
+      }
+
       res.json({
         message: `Import completed: ${results.successful} successful, ${results.failed} failed`,
         ...results
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { batchRequestSchema, insertEventSchema, type InsertEvent } from "@shared/schema";
+import { createSqliteDatabase } from "./db";
+import { BatchOperationError, DrizzleStorage, MemStorage, SqliteStorage, VersionConflictError, type IStorage } from "./storage";
+
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Postgres runs in-process through PGlite, migrated like a real database
+async function createPostgresStorage(client = new PGlite()): Promise<DrizzleStorage> {
+  const db = drizzle({ client, schema });
+  await migrate(db, { migrationsFolder });
+  return new DrizzleStorage(db);
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ['MemStorage', async () => new MemStorage()],
+  ['SqliteStorage', async () => new SqliteStorage(createSqliteDatabase(':memory:'))],
+  ['DrizzleStorage', createPostgresStorage],
+];
+
+const fixedEvent = (title: string, startDate = '2026-01-01'): InsertEvent =>
+  insertEventSchema.parse({ title, dateType: 'fixed', startDate });
+
+describe.each(backends)('%s', (_name, createStorage) => {
+  it('drops the anchor of an event switched away from relative', async () => {
+    const storage = await createStorage();
+    const anchor = await storage.createEvent(fixedEvent('Anchor'));
+    const event = await storage.createEvent(insertEventSchema.parse({
+      title: 'Follow-up', dateType: 'relative', relativeEventId: anchor.id, relativePeriod: 2, relativeUnit: 'days', relativeDirection: 'after',
+    }));
+
+    const updated = await storage.updateEvent(event.id, { dateType: 'fixed', startDate: new Date('2026-02-01') });
+    expect(updated).toMatchObject({ relativeEventId: null, relativePeriod: null, relativeUnit: null, relativeDirection: null });
+    const [revision] = await storage.getEventRevisions(event.id);
+    expect(revision.changes.relativeEventId).toEqual({ before: anchor.id, after: null });
+  });
+
+  it('ranks search results the same way as every other backend', async () => {
+    const storage = await createStorage();
+    const meeting = await storage.createEvent(fixedEvent('Board meeting'));
+    await storage.createEvent(insertEventSchema.parse({ title: 'Board prep', description: 'Print the board pack', dateType: 'fixed', startDate: '2026-01-01' }));
+    await storage.createEvent(insertEventSchema.parse({ title: 'Quarterly review', description: 'Present to the board', dateType: 'fixed', startDate: '2026-01-01' }));
+    const relativeTo = (title: string) => insertEventSchema.parse({
+      title, dateType: 'relative', relativeEventId: meeting.id, relativePeriod: 1, relativeUnit: 'days', relativeDirection: 'after',
+    });
+    await storage.createEvent(relativeTo('Follow-up'));
+    await storage.createEvent(relativeTo('Board dinner'));
+
+    const results = await storage.searchEvents('board');
+    // Title and description both count; the anchor's title only breaks the tie with Board meeting
+    expect(results.map(event => [event.title, Math.round(event.search.score * 10) / 10])).toEqual([
+      ['Board prep', 1.4],
+      ['Board dinner', 1.1],
+      ['Board meeting', 1],
+      ['Quarterly review', 0.4],
+      ['Follow-up', 0.1],
+    ]);
+  });
+
+  it('stores the weekend adjustment', async () => {
+    const storage = await createStorage();
+    expect((await storage.createEvent(fixedEvent('Plain'))).weekendAdjustment).toBeNull();
+    const event = await storage.createEvent(insertEventSchema.parse({ title: 'Holiday', dateType: 'fixed', startDate: '2026-07-04', weekendAdjustment: 'nearest' }));
+    expect(event.weekendAdjustment).toBe('nearest');
+
+    const updated = await storage.updateEvent(event.id, { weekendAdjustment: 'nextWorkday' });
+    expect(updated?.weekendAdjustment).toBe('nextWorkday');
+    const [revision] = await storage.getEventRevisions(event.id);
+    expect(revision.changes.weekendAdjustment).toEqual({ before: 'nearest', after: 'nextWorkday' });
+  });
+
+  it('stores no anchor on new events of other types', async () => {
+    const storage = await createStorage();
+    const event = await storage.createEvent(insertEventSchema.parse({
+      title: 'Fixed', dateType: 'fixed', startDate: '2026-01-01', relativeEventId: 'stale', relativePeriod: 1,
+    }));
+    expect(event).toMatchObject({ relativeEventId: null, relativePeriod: null });
+  });
+});
+
+describe('DrizzleStorage on Postgres', () => {
+  let storage: DrizzleStorage;
+  beforeEach(async () => {
+    storage = await createPostgresStorage();
+  });
+
+  it('migrates a database first set up with db:push', async () => {
+    // db:push created the baseline schema without recording any migration
+    const client = new PGlite();
+    const baseline = fs.readFileSync(path.join(migrationsFolder, "0000_premium_maggott.sql"), "utf8");
+    await client.exec(baseline.replaceAll("--> statement-breakpoint", ""));
+    await client.query(`INSERT INTO events (title, date_type, start_date) VALUES ('Pushed', 'fixed', '2026-01-01')`);
+
+    const migrated = await createPostgresStorage(client);
+    expect((await migrated.getAllEvents()).map(event => [event.title, event.version])).toEqual([['Pushed', 1]]);
+  });
+
+  it('treats ids that are not uuids as unknown', async () => {
+    await storage.createEvent(fixedEvent('Event'));
+    expect(await storage.getEvent('not-a-uuid')).toBeUndefined();
+    expect(await storage.updateEvent('not-a-uuid', { title: 'Renamed' })).toBeUndefined();
+    expect(await storage.deleteEvent('not-a-uuid')).toBe(false);
+    expect(await storage.getEventRevisions('not-a-uuid')).toEqual([]);
+    expect(await storage.getCalendar('1')).toBeUndefined();
+  });
+
+  it('bumps the version on every update and refuses stale ones', async () => {
+    const event = await storage.createEvent(fixedEvent('Event'));
+    expect(event.version).toBe(1);
+
+    const updated = await storage.updateEvent(event.id, { title: 'Renamed' }, { expectedVersion: 1 });
+    expect(updated?.version).toBe(2);
+    await expect(storage.updateEvent(event.id, { title: 'Stale' }, { expectedVersion: 1 })).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await storage.deleteEvent(event.id, 2)).toBe(true);
+  });
+
+  it('orders events created in one batch by clock_timestamp()', async () => {
+    const results = await storage.applyBatch([
+      { op: 'create', data: fixedEvent('First') },
+      { op: 'create', data: fixedEvent('Second') },
+      { op: 'create', data: fixedEvent('Third') },
+    ]);
+    const createdAt = results.map(result => result.op === 'create' ? result.event.createdAt.getTime() : 0);
+    expect(new Set(createdAt).size).toBe(3);
+    expect((await storage.getAllEvents()).map(event => event.title)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('runs updates inside the batch transaction', async () => {
+    const { operations } = batchRequestSchema.parse({
+      operations: [
+        { op: 'create', tempId: 'anchor', data: { title: 'Anchor', dateType: 'fixed', startDate: '2026-01-01' } },
+        {
+          op: 'create',
+          data: { title: 'Follow-up', dateType: 'relative', relativeEventTempId: 'anchor', relativePeriod: 1, relativeUnit: 'days', relativeDirection: 'after' },
+        },
+        { op: 'update', id: 'anchor', version: 1, data: { title: 'Renamed' } },
+      ],
+    });
+    const results = await storage.applyBatch(operations);
+    const [anchor, followUp, update] = results.map(result => result.op === 'delete' ? null : result.event);
+    expect(followUp?.relativeEventId).toBe(anchor?.id);
+    expect(update).toMatchObject({ id: anchor?.id, title: 'Renamed', version: 2 });
+    expect(await storage.getEventRevisions(anchor!.id)).toHaveLength(1);
+  });
+
+  it('rolls the whole batch back when an operation fails', async () => {
+    const existing = await storage.createEvent(fixedEvent('Existing'));
+    const batch = storage.applyBatch([
+      { op: 'create', tempId: 'new', data: fixedEvent('New') },
+      { op: 'update', id: existing.id, data: { title: 'Renamed' } },
+      { op: 'update', id: existing.id, version: 1, data: { title: 'Stale' } },
+    ]);
+    await expect(batch).rejects.toMatchObject({ index: 2, reason: 'conflict' });
+    await expect(batch).rejects.toBeInstanceOf(BatchOperationError);
+
+    expect((await storage.getAllEvents()).map(event => [event.title, event.version])).toEqual([['Existing', 1]]);
+    expect(await storage.getEventRevisions(existing.id)).toEqual([]);
+  });
+});
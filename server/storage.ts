@@ -1,17 +1,294 @@
-import { type Event, type InsertEvent } from "@shared/schema";
+import {
+  type Calendar,
+  type InsertCalendar,
+  type WorkCalendar,
+  type InsertWorkCalendar,
+  type Event,
+  type InsertEvent,
+  type EventRevision,
+  type FieldChange,
+  type BatchOperation,
+  type BatchResult,
+  type SearchedEvent,
+  workCalendarsTable,
+  calendarsTable,
+  eventsTable,
+  eventRevisionsTable,
+  eventSearchVector,
+} from "@shared/schema";
+import { searchEventsInMemory, tokenizeSearchQuery } from "@shared/search";
+import { sqliteWorkCalendarsTable, sqliteCalendarsTable, sqliteEventsTable, sqliteEventRevisionsTable } from "@shared/sqlite-schema";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import { createDatabase, createSqliteDatabase, type Database, type SqliteDatabase } from "./db";
+import { log } from "./vite";
+
+// Thrown when a write names a version the event has already moved past
+export class VersionConflictError extends Error {
+  constructor(public readonly current: Event) {
+    super(`Event ${current.id} has been modified (now at version ${current.version})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+// Thrown when one operation of a batch fails; nothing in the batch is applied
+export class BatchOperationError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly reason: 'not_found' | 'conflict' | 'unknown_temp_id',
+    message: string,
+    public readonly current?: Event,
+  ) {
+    super(`Operation ${index}: ${message}`);
+    this.name = 'BatchOperationError';
+  }
+}
+
+export interface UpdateOptions {
+  author?: string;
+  // Version the caller last saw; the update is rejected if the event has moved on
+  expectedVersion?: number;
+}
 
 export interface IStorage {
   getEvent(id: string): Promise<Event | undefined>;
   getAllEvents(): Promise<Event[]>;
+  // Active events matching every word of the query in their title, description
+  // or anchor's title, best match first and with the matched ranges
+  searchEvents(query: string): Promise<SearchedEvent[]>;
   createEvent(event: InsertEvent): Promise<Event>;
-  updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event | undefined>;
-  deleteEvent(id: string): Promise<boolean>;
+  // Applies the update, bumps the version and appends a revision listing the
+  // fields it changed; throws VersionConflictError on a stale expectedVersion
+  updateEvent(id: string, event: Partial<InsertEvent>, options?: UpdateOptions): Promise<Event | undefined>;
+  // Moves the event to the trash; trashed events are hidden from getEvent/getAllEvents
+  deleteEvent(id: string, expectedVersion?: number): Promise<boolean>;
+  getTrashedEvents(): Promise<Event[]>;
+  restoreEvent(id: string): Promise<Event | undefined>;
+  // Permanently removes trashed events, optionally only those trashed before a cutoff
+  purgeTrash(deletedBefore?: Date): Promise<number>;
+  // Revisions of an event, oldest first
+  getEventRevisions(eventId: string): Promise<EventRevision[]>;
+  // Applies every operation or none of them, throwing BatchOperationError
+  applyBatch(operations: BatchOperation[], author?: string): Promise<BatchResult[]>;
+
+  getAllCalendars(): Promise<Calendar[]>;
+  getCalendar(id: string): Promise<Calendar | undefined>;
+  createCalendar(calendar: InsertCalendar): Promise<Calendar>;
+  updateCalendar(id: string, calendar: Partial<InsertCalendar>): Promise<Calendar | undefined>;
+  // Deletes the calendar; its events are kept and detached from it
+  deleteCalendar(id: string): Promise<boolean>;
+
+  getAllWorkCalendars(): Promise<WorkCalendar[]>;
+  getWorkCalendar(id: string): Promise<WorkCalendar | undefined>;
+  createWorkCalendar(workCalendar: InsertWorkCalendar): Promise<WorkCalendar>;
+  updateWorkCalendar(id: string, workCalendar: Partial<InsertWorkCalendar>): Promise<WorkCalendar | undefined>;
+  // Deletes the work calendar; events and calendars using it fall back to the default
+  deleteWorkCalendar(id: string): Promise<boolean>;
+}
+
+const DEFAULT_AUTHOR = 'anonymous';
+
+function assertVersion(event: Event, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && event.version !== expectedVersion) {
+    throw new VersionConflictError(event);
+  }
+}
+
+// Convert date strings from serialized events back to Date objects
+function reviveEvent(event: any): Event {
+  return {
+    ...event,
+    calendarId: event.calendarId ?? null,
+    workCalendarId: event.workCalendarId ?? null,
+    weekendAdjustment: event.weekendAdjustment ?? null,
+    category: event.category ?? null,
+    tags: event.tags ?? [],
+    recurUntilYear: event.recurUntilYear ?? null,
+    nthFrequency: event.nthFrequency ?? null,
+    nthMonths: event.nthMonths ?? null,
+    nthInterval: event.nthInterval ?? null,
+    relativeEventId: event.relativeEventId ?? null,
+    relativeWeekday: event.relativeWeekday ?? null,
+    relativeWeekdayOrdinal: event.relativeWeekdayOrdinal ?? null,
+    recurrenceRule: event.recurrenceRule ?? null,
+    easterVariant: event.easterVariant ?? null,
+    easterOffset: event.easterOffset ?? null,
+    startDate: event.startDate ? new Date(event.startDate) : null,
+    endDate: event.endDate ? new Date(event.endDate) : null,
+    createdAt: new Date(event.createdAt),
+    deletedAt: event.deletedAt ? new Date(event.deletedAt) : null,
+    version: event.version ?? 1,
+  };
+}
+
+// Events saved before anchors were referenced by id name their anchor by
+// title. Point them at the first event with that title, preferring events
+// that are not in the trash, as the database migration does.
+function migrateAnchorNames(events: any[]): any[] {
+  if (!events.some(event => 'relativeEventName' in event)) return events;
+
+  const candidates = [...events].sort((a, b) =>
+    Number(!!a.deletedAt) - Number(!!b.deletedAt) || byCreatedAt(a, b)
+  );
+  return events.map(event => {
+    if (!('relativeEventName' in event)) return event;
+
+    const { relativeEventName, ...rest } = event;
+    const anchor = relativeEventName
+      ? candidates.find(candidate => candidate.title === relativeEventName && candidate.id !== event.id)
+      : undefined;
+    return { ...rest, relativeEventId: rest.relativeEventId ?? anchor?.id ?? null };
+  });
+}
+
+function reviveCalendar(calendar: any): Calendar {
+  return { ...calendar, workCalendarId: calendar.workCalendarId ?? null, createdAt: new Date(calendar.createdAt) };
+}
+
+function reviveWorkCalendar(workCalendar: any): WorkCalendar {
+  return { ...workCalendar, createdAt: new Date(workCalendar.createdAt) };
+}
+
+function byCreatedAt(a: { createdAt: Date }, b: { createdAt: Date }): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+function reviveRevision(revision: any): EventRevision {
+  return { ...revision, changedAt: new Date(revision.changedAt) };
+}
+
+// Fields an update actually changed; dates are compared by value
+function diffEvent(existing: Event, updateData: Partial<InsertEvent>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [key, after] of Object.entries(updateData)) {
+    if (after === undefined) continue;
+    const before = existing[key as keyof Event] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(after ?? null)) {
+      changes[key] = { before, after: after ?? null };
+    }
+  }
+  return changes;
+}
+
+// Relative fields only mean something on relative events. Events of any
+// other type store them as null, so an event switched away from 'relative'
+// keeps no stale anchor that would still count it as a dependent.
+function clearRelativeFields<T extends Partial<InsertEvent>>(data: T, dateType = data.dateType): T {
+  if (dateType === undefined || dateType === 'relative') return data;
+  return {
+    ...data,
+    relativeEventId: null,
+    relativePeriod: null,
+    relativeUnit: null,
+    relativeDirection: null,
+    relativeWeekday: null,
+    relativeWeekdayOrdinal: null,
+  };
+}
+
+// Runs batch operations in order against `target`, which the caller wraps in
+// its own transaction. Temp ids are swapped for the ids of the events created
+// earlier in the batch.
+async function runBatch(target: IStorage, operations: BatchOperation[], author = DEFAULT_AUTHOR): Promise<BatchResult[]> {
+  const createdIds = new Map<string, string>();
+  const results: BatchResult[] = [];
+
+  const resolveId = (id: string) => createdIds.get(id) ?? id;
+  const resolveAnchor = <T extends { relativeEventTempId?: string }>(index: number, data: T) => {
+    const { relativeEventTempId, ...rest } = data;
+    if (relativeEventTempId === undefined) return rest;
+
+    const anchorId = createdIds.get(relativeEventTempId);
+    if (anchorId === undefined) {
+      throw new BatchOperationError(index, 'unknown_temp_id', `Unknown tempId "${relativeEventTempId}"`);
+    }
+    return { ...rest, relativeEventId: anchorId };
+  };
+
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index];
+    try {
+      switch (operation.op) {
+        case 'create': {
+          const event = await target.createEvent(resolveAnchor(index, operation.data) as InsertEvent);
+          if (operation.tempId) {
+            createdIds.set(operation.tempId, event.id);
+          }
+          results.push({ op: 'create', tempId: operation.tempId, event });
+          break;
+        }
+        case 'update': {
+          const event = await target.updateEvent(resolveId(operation.id), resolveAnchor(index, operation.data), {
+            author,
+            expectedVersion: operation.version,
+          });
+          if (!event) throw new BatchOperationError(index, 'not_found', `Event ${operation.id} not found`);
+          results.push({ op: 'update', event });
+          break;
+        }
+        case 'delete': {
+          const id = resolveId(operation.id);
+          const deleted = await target.deleteEvent(id, operation.version);
+          if (!deleted) throw new BatchOperationError(index, 'not_found', `Event ${operation.id} not found`);
+          results.push({ op: 'delete', id });
+          break;
+        }
+      }
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw new BatchOperationError(index, 'conflict', error.message, error.current);
+      }
+      throw error;
+    }
+  }
+  return results;
+}
+
+// Trashed events listed most recently deleted first
+function byDeletedAtDesc(a: Event, b: Event): number {
+  return (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0);
+}
+
+function isPurgeable(event: Event, deletedBefore?: Date): boolean {
+  if (!event.deletedAt) return false;
+  return !deletedBefore || event.deletedAt.getTime() < deletedBefore.getTime();
+}
+
+// Bump whenever the snapshot layout changes so old servers refuse newer files
+const SNAPSHOT_VERSION = 5;
+
+interface Snapshot {
+  version: number;
+  savedAt: string;
+  events: Event[];
+  revisions?: EventRevision[]; // added in version 2
+  calendars?: Calendar[]; // added in version 3
+  // version 4 references anchors by relativeEventId instead of relativeEventName
+  workCalendars?: WorkCalendar[]; // added in version 5
+}
+
+// Write to a temp file and rename it over the target, so a crash mid-write
+// leaves either the previous snapshot or the new one, never a torn file
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.promises.open(tempPath, 'w');
+  try {
+    await handle.writeFile(contents, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tempPath, filePath);
 }
 
 // localStorage-based storage implementation
 export class LocalStorage implements IStorage {
   private readonly STORAGE_KEY = 'calendar_events';
+  private readonly REVISIONS_KEY = 'calendar_event_revisions';
+  private readonly CALENDARS_KEY = 'calendar_calendars';
+  private readonly WORK_CALENDARS_KEY = 'calendar_work_calendars';
 
   private getEvents(): Event[] {
     if (typeof window === 'undefined') {
@@ -25,12 +302,7 @@ export class LocalStorage implements IStorage {
       
       const parsed = JSON.parse(stored);
       // Convert date strings back to Date objects
-      return parsed.map((event: any) => ({
-        ...event,
-        startDate: event.startDate ? new Date(event.startDate) : null,
-        endDate: event.endDate ? new Date(event.endDate) : null,
-        createdAt: new Date(event.createdAt),
-      }));
+      return migrateAnchorNames(parsed).map(reviveEvent);
     } catch (error) {
       console.error('Error loading events from localStorage:', error);
       return [];
@@ -47,96 +319,1094 @@ export class LocalStorage implements IStorage {
     }
   }
 
+  private getRevisions(): EventRevision[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(this.REVISIONS_KEY);
+      return stored ? JSON.parse(stored).map(reviveRevision) : [];
+    } catch (error) {
+      console.error('Error loading revisions from localStorage:', error);
+      return [];
+    }
+  }
+
+  private saveRevisions(revisions: EventRevision[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.REVISIONS_KEY, JSON.stringify(revisions));
+    } catch (error) {
+      console.error('Error saving revisions to localStorage:', error);
+    }
+  }
+
+  private getCalendars(): Calendar[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(this.CALENDARS_KEY);
+      return stored ? JSON.parse(stored).map(reviveCalendar) : [];
+    } catch (error) {
+      console.error('Error loading calendars from localStorage:', error);
+      return [];
+    }
+  }
+
+  private saveCalendars(calendars: Calendar[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.CALENDARS_KEY, JSON.stringify(calendars));
+    } catch (error) {
+      console.error('Error saving calendars to localStorage:', error);
+    }
+  }
+
+  private getWorkCalendars(): WorkCalendar[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(this.WORK_CALENDARS_KEY);
+      return stored ? JSON.parse(stored).map(reviveWorkCalendar) : [];
+    } catch (error) {
+      console.error('Error loading work calendars from localStorage:', error);
+      return [];
+    }
+  }
+
+  private saveWorkCalendars(workCalendars: WorkCalendar[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.WORK_CALENDARS_KEY, JSON.stringify(workCalendars));
+    } catch (error) {
+      console.error('Error saving work calendars to localStorage:', error);
+    }
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
   async getAllEvents(): Promise<Event[]> {
-    return this.getEvents().sort((a, b) => 
+    return this.getEvents().filter(event => !event.deletedAt).sort((a, b) => 
       new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
   }
 
+  async searchEvents(query: string): Promise<SearchedEvent[]> {
+    return searchEventsInMemory(this.getEvents(), query);
+  }
+
   async getEvent(id: string): Promise<Event | undefined> {
     const events = this.getEvents();
-    return events.find(event => event.id === id);
+    return events.find(event => event.id === id && !event.deletedAt);
   }
 
   async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    insertEvent = clearRelativeFields(insertEvent);
     const events = this.getEvents();
     const id = this.generateId();
     const event: Event = {
       ...insertEvent,
       id,
+      calendarId: insertEvent.calendarId ?? null,
+      workCalendarId: insertEvent.workCalendarId ?? null,
+      weekendAdjustment: insertEvent.weekendAdjustment ?? null,
+      category: insertEvent.category ?? null,
+      tags: insertEvent.tags ?? [],
+      recurUntilYear: insertEvent.recurUntilYear ?? null,
+      nthFrequency: insertEvent.nthFrequency ?? null,
+      nthMonths: insertEvent.nthMonths ?? null,
+      nthInterval: insertEvent.nthInterval ?? null,
+      recurrenceRule: insertEvent.recurrenceRule ?? null,
+      relativeWeekday: insertEvent.relativeWeekday ?? null,
+      relativeWeekdayOrdinal: insertEvent.relativeWeekdayOrdinal ?? null,
+      easterVariant: insertEvent.easterVariant ?? null,
+      easterOffset: insertEvent.easterOffset ?? null,
       createdAt: new Date(),
+      deletedAt: null,
+      version: 1,
     } as Event;
     events.push(event);
     this.saveEvents(events);
     return event;
   }
 
-  async updateEvent(id: string, updateData: Partial<InsertEvent>): Promise<Event | undefined> {
+  async updateEvent(id: string, updateData: Partial<InsertEvent>, options: UpdateOptions = {}): Promise<Event | undefined> {
+    const { author = DEFAULT_AUTHOR, expectedVersion } = options;
     const events = this.getEvents();
-    const index = events.findIndex(event => event.id === id);
+    const index = events.findIndex(event => event.id === id && !event.deletedAt);
     if (index === -1) return undefined;
+    assertVersion(events[index], expectedVersion);
+    updateData = clearRelativeFields(updateData, updateData.dateType ?? events[index].dateType);
     
-    const updatedEvent: Event = { ...events[index], ...updateData };
+    const changes = diffEvent(events[index], updateData);
+    const updatedEvent: Event = { ...events[index], ...updateData, version: events[index].version + 1 };
     events[index] = updatedEvent;
     this.saveEvents(events);
+
+    if (Object.keys(changes).length > 0) {
+      const revisions = this.getRevisions();
+      revisions.push({
+        id: this.generateId(),
+        eventId: id,
+        revision: revisions.filter(revision => revision.eventId === id).length + 1,
+        author,
+        changedAt: new Date(),
+        changes,
+      });
+      this.saveRevisions(revisions);
+    }
     return updatedEvent;
   }
 
-  async deleteEvent(id: string): Promise<boolean> {
+  async deleteEvent(id: string, expectedVersion?: number): Promise<boolean> {
     const events = this.getEvents();
-    const index = events.findIndex(event => event.id === id);
+    const index = events.findIndex(event => event.id === id && !event.deletedAt);
     if (index === -1) return false;
+    assertVersion(events[index], expectedVersion);
     
-    events.splice(index, 1);
+    events[index] = { ...events[index], deletedAt: new Date() };
     this.saveEvents(events);
     return true;
   }
+
+  async getTrashedEvents(): Promise<Event[]> {
+    return this.getEvents().filter(event => event.deletedAt).sort(byDeletedAtDesc);
+  }
+
+  async restoreEvent(id: string): Promise<Event | undefined> {
+    const events = this.getEvents();
+    const index = events.findIndex(event => event.id === id && event.deletedAt);
+    if (index === -1) return undefined;
+
+    const restoredEvent: Event = { ...events[index], deletedAt: null };
+    events[index] = restoredEvent;
+    this.saveEvents(events);
+    return restoredEvent;
+  }
+
+  async purgeTrash(deletedBefore?: Date): Promise<number> {
+    const events = this.getEvents();
+    const remaining = events.filter(event => !isPurgeable(event, deletedBefore));
+    this.saveEvents(remaining);
+
+    const remainingIds = new Set(remaining.map(event => event.id));
+    this.saveRevisions(this.getRevisions().filter(revision => remainingIds.has(revision.eventId)));
+    return events.length - remaining.length;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    return this.getRevisions()
+      .filter(revision => revision.eventId === eventId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async applyBatch(operations: BatchOperation[], author?: string): Promise<BatchResult[]> {
+    const events = this.getEvents();
+    const revisions = this.getRevisions();
+    try {
+      return await runBatch(this, operations, author);
+    } catch (error) {
+      // Put back what the batch had already written
+      this.saveEvents(events);
+      this.saveRevisions(revisions);
+      throw error;
+    }
+  }
+
+  async getAllCalendars(): Promise<Calendar[]> {
+    return this.getCalendars().sort(byCreatedAt);
+  }
+
+  async getCalendar(id: string): Promise<Calendar | undefined> {
+    return this.getCalendars().find(calendar => calendar.id === id);
+  }
+
+  async createCalendar(insertCalendar: InsertCalendar): Promise<Calendar> {
+    const calendars = this.getCalendars();
+    const calendar: Calendar = {
+      description: null,
+      workCalendarId: null,
+      ...insertCalendar,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    calendars.push(calendar);
+    this.saveCalendars(calendars);
+    return calendar;
+  }
+
+  async updateCalendar(id: string, updateData: Partial<InsertCalendar>): Promise<Calendar | undefined> {
+    const calendars = this.getCalendars();
+    const index = calendars.findIndex(calendar => calendar.id === id);
+    if (index === -1) return undefined;
+
+    const updatedCalendar: Calendar = { ...calendars[index], ...updateData };
+    calendars[index] = updatedCalendar;
+    this.saveCalendars(calendars);
+    return updatedCalendar;
+  }
+
+  async deleteCalendar(id: string): Promise<boolean> {
+    const calendars = this.getCalendars();
+    const remaining = calendars.filter(calendar => calendar.id !== id);
+    if (remaining.length === calendars.length) return false;
+
+    this.saveCalendars(remaining);
+    this.saveEvents(this.getEvents().map(event =>
+      event.calendarId === id ? { ...event, calendarId: null } : event
+    ));
+    return true;
+  }
+
+  async getAllWorkCalendars(): Promise<WorkCalendar[]> {
+    return this.getWorkCalendars().sort(byCreatedAt);
+  }
+
+  async getWorkCalendar(id: string): Promise<WorkCalendar | undefined> {
+    return this.getWorkCalendars().find(workCalendar => workCalendar.id === id);
+  }
+
+  async createWorkCalendar(insertWorkCalendar: InsertWorkCalendar): Promise<WorkCalendar> {
+    const workCalendars = this.getWorkCalendars();
+    const workCalendar: WorkCalendar = {
+      ...insertWorkCalendar,
+      weekendDays: insertWorkCalendar.weekendDays ?? [0, 6],
+      holidays: insertWorkCalendar.holidays ?? [],
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    workCalendars.push(workCalendar);
+    this.saveWorkCalendars(workCalendars);
+    return workCalendar;
+  }
+
+  async updateWorkCalendar(id: string, updateData: Partial<InsertWorkCalendar>): Promise<WorkCalendar | undefined> {
+    const workCalendars = this.getWorkCalendars();
+    const index = workCalendars.findIndex(workCalendar => workCalendar.id === id);
+    if (index === -1) return undefined;
+
+    const updatedWorkCalendar: WorkCalendar = { ...workCalendars[index], ...updateData };
+    workCalendars[index] = updatedWorkCalendar;
+    this.saveWorkCalendars(workCalendars);
+    return updatedWorkCalendar;
+  }
+
+  async deleteWorkCalendar(id: string): Promise<boolean> {
+    const workCalendars = this.getWorkCalendars();
+    const remaining = workCalendars.filter(workCalendar => workCalendar.id !== id);
+    if (remaining.length === workCalendars.length) return false;
+
+    this.saveWorkCalendars(remaining);
+    this.saveCalendars(this.getCalendars().map(calendar =>
+      calendar.workCalendarId === id ? { ...calendar, workCalendarId: null } : calendar
+    ));
+    this.saveEvents(this.getEvents().map(event =>
+      event.workCalendarId === id ? { ...event, workCalendarId: null } : event
+    ));
+    return true;
+  }
 }
 
-// In-memory storage implementation (fallback for server-side)
+// In-memory storage implementation (fallback for server-side), optionally
+// snapshotted to a JSON file so events survive restarts
 export class MemStorage implements IStorage {
   private events: Map<string, Event>;
+  private revisions: Map<string, EventRevision[]> = new Map();
+  private calendars: Map<string, Calendar> = new Map();
+  private workCalendars: Map<string, WorkCalendar> = new Map();
+  private pendingWrite: Promise<void> = Promise.resolve();
 
-  constructor() {
+  constructor(private readonly snapshotPath?: string) {
     this.events = new Map();
+    if (snapshotPath) {
+      this.loadSnapshot(snapshotPath);
+    }
+  }
+
+  private loadSnapshot(snapshotPath: string): void {
+    fs.mkdirSync(path.dirname(path.resolve(snapshotPath)), { recursive: true });
+    if (!fs.existsSync(snapshotPath)) return;
+
+    const snapshot: Snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+    if (snapshot.version > SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version} in ${snapshotPath}`);
+    }
+
+    for (const event of migrateAnchorNames(snapshot.events).map(reviveEvent)) {
+      this.events.set(event.id, event);
+    }
+    for (const calendar of (snapshot.calendars ?? []).map(reviveCalendar)) {
+      this.calendars.set(calendar.id, calendar);
+    }
+    for (const workCalendar of (snapshot.workCalendars ?? []).map(reviveWorkCalendar)) {
+      this.workCalendars.set(workCalendar.id, workCalendar);
+    }
+    for (const revision of (snapshot.revisions ?? []).map(reviveRevision)) {
+      this.revisions.set(revision.eventId, [...(this.revisions.get(revision.eventId) ?? []), revision]);
+    }
+  }
+
+  // Writes are chained so concurrent requests land on disk in the order they
+  // were applied in memory, and each write captures the state at that point
+  private persist(): Promise<void> {
+    if (!this.snapshotPath) return Promise.resolve();
+
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      events: Array.from(this.events.values()),
+      revisions: Array.from(this.revisions.values()).flat(),
+      calendars: Array.from(this.calendars.values()),
+      workCalendars: Array.from(this.workCalendars.values()),
+    };
+    const contents = JSON.stringify(snapshot, null, 2);
+    const snapshotPath = this.snapshotPath;
+
+    const write = this.pendingWrite.then(() => writeFileAtomic(snapshotPath, contents));
+    // A failed write should not block every write after it
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  private getActiveEvent(id: string): Event | undefined {
+    const event = this.events.get(id);
+    return event && !event.deletedAt ? event : undefined;
   }
 
   async getEvent(id: string): Promise<Event | undefined> {
-    return this.events.get(id);
+    return this.getActiveEvent(id);
   }
 
   async getAllEvents(): Promise<Event[]> {
-    return Array.from(this.events.values()).sort((a, b) => 
+    return Array.from(this.events.values()).filter(event => !event.deletedAt).sort((a, b) => 
       new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
   }
 
+  async searchEvents(query: string): Promise<SearchedEvent[]> {
+    return searchEventsInMemory(Array.from(this.events.values()), query);
+  }
+
   async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    insertEvent = clearRelativeFields(insertEvent);
     const id = randomUUID();
     const event: Event = { 
       ...insertEvent, 
       id,
-      createdAt: new Date()
+      calendarId: insertEvent.calendarId ?? null,
+      workCalendarId: insertEvent.workCalendarId ?? null,
+      weekendAdjustment: insertEvent.weekendAdjustment ?? null,
+      category: insertEvent.category ?? null,
+      tags: insertEvent.tags ?? [],
+      recurUntilYear: insertEvent.recurUntilYear ?? null,
+      nthFrequency: insertEvent.nthFrequency ?? null,
+      nthMonths: insertEvent.nthMonths ?? null,
+      nthInterval: insertEvent.nthInterval ?? null,
+      recurrenceRule: insertEvent.recurrenceRule ?? null,
+      relativeWeekday: insertEvent.relativeWeekday ?? null,
+      relativeWeekdayOrdinal: insertEvent.relativeWeekdayOrdinal ?? null,
+      easterVariant: insertEvent.easterVariant ?? null,
+      easterOffset: insertEvent.easterOffset ?? null,
+      createdAt: new Date(),
+      deletedAt: null,
+      version: 1,
     } as Event;
     this.events.set(id, event);
+    await this.persist();
     return event;
   }
 
-  async updateEvent(id: string, updateData: Partial<InsertEvent>): Promise<Event | undefined> {
-    const existingEvent = this.events.get(id);
+  async updateEvent(id: string, updateData: Partial<InsertEvent>, options: UpdateOptions = {}): Promise<Event | undefined> {
+    const { author = DEFAULT_AUTHOR, expectedVersion } = options;
+    const existingEvent = this.getActiveEvent(id);
     if (!existingEvent) return undefined;
+    assertVersion(existingEvent, expectedVersion);
+    updateData = clearRelativeFields(updateData, updateData.dateType ?? existingEvent.dateType);
 
-    const updatedEvent: Event = { ...existingEvent, ...updateData };
+    const changes = diffEvent(existingEvent, updateData);
+    const updatedEvent: Event = { ...existingEvent, ...updateData, version: existingEvent.version + 1 };
     this.events.set(id, updatedEvent);
+
+    if (Object.keys(changes).length > 0) {
+      const revisions = this.revisions.get(id) ?? [];
+      revisions.push({
+        id: randomUUID(),
+        eventId: id,
+        revision: revisions.length + 1,
+        author,
+        changedAt: new Date(),
+        changes,
+      });
+      this.revisions.set(id, revisions);
+    }
+    await this.persist();
     return updatedEvent;
   }
 
-  async deleteEvent(id: string): Promise<boolean> {
-    return this.events.delete(id);
+  async deleteEvent(id: string, expectedVersion?: number): Promise<boolean> {
+    const existingEvent = this.getActiveEvent(id);
+    if (!existingEvent) return false;
+    assertVersion(existingEvent, expectedVersion);
+
+    this.events.set(id, { ...existingEvent, deletedAt: new Date() });
+    await this.persist();
+    return true;
+  }
+
+  async getTrashedEvents(): Promise<Event[]> {
+    return Array.from(this.events.values()).filter(event => event.deletedAt).sort(byDeletedAtDesc);
+  }
+
+  async restoreEvent(id: string): Promise<Event | undefined> {
+    const trashedEvent = this.events.get(id);
+    if (!trashedEvent?.deletedAt) return undefined;
+
+    const restoredEvent: Event = { ...trashedEvent, deletedAt: null };
+    this.events.set(id, restoredEvent);
+    await this.persist();
+    return restoredEvent;
+  }
+
+  async purgeTrash(deletedBefore?: Date): Promise<number> {
+    let purgedCount = 0;
+    for (const event of Array.from(this.events.values())) {
+      if (isPurgeable(event, deletedBefore)) {
+        this.events.delete(event.id);
+        this.revisions.delete(event.id);
+        purgedCount++;
+      }
+    }
+    if (purgedCount > 0) {
+      await this.persist();
+    }
+    return purgedCount;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    return [...(this.revisions.get(eventId) ?? [])];
+  }
+
+  async applyBatch(operations: BatchOperation[], author?: string): Promise<BatchResult[]> {
+    // Work on a copy and only swap it in once every operation has succeeded
+    const staging = new MemStorage();
+    staging.events = new Map(this.events);
+    staging.revisions = new Map(Array.from(this.revisions, ([id, revisions]) => [id, [...revisions]]));
+
+    const results = await runBatch(staging, operations, author);
+    this.events = staging.events;
+    this.revisions = staging.revisions;
+    await this.persist();
+    return results;
+  }
+
+  async getAllCalendars(): Promise<Calendar[]> {
+    return Array.from(this.calendars.values()).sort(byCreatedAt);
+  }
+
+  async getCalendar(id: string): Promise<Calendar | undefined> {
+    return this.calendars.get(id);
+  }
+
+  async createCalendar(insertCalendar: InsertCalendar): Promise<Calendar> {
+    const calendar: Calendar = {
+      description: null,
+      workCalendarId: null,
+      ...insertCalendar,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.calendars.set(calendar.id, calendar);
+    await this.persist();
+    return calendar;
+  }
+
+  async updateCalendar(id: string, updateData: Partial<InsertCalendar>): Promise<Calendar | undefined> {
+    const existingCalendar = this.calendars.get(id);
+    if (!existingCalendar) return undefined;
+
+    const updatedCalendar: Calendar = { ...existingCalendar, ...updateData };
+    this.calendars.set(id, updatedCalendar);
+    await this.persist();
+    return updatedCalendar;
+  }
+
+  async deleteCalendar(id: string): Promise<boolean> {
+    if (!this.calendars.delete(id)) return false;
+
+    for (const event of Array.from(this.events.values())) {
+      if (event.calendarId === id) {
+        this.events.set(event.id, { ...event, calendarId: null });
+      }
+    }
+    await this.persist();
+    return true;
+  }
+
+  async getAllWorkCalendars(): Promise<WorkCalendar[]> {
+    return Array.from(this.workCalendars.values()).sort(byCreatedAt);
+  }
+
+  async getWorkCalendar(id: string): Promise<WorkCalendar | undefined> {
+    return this.workCalendars.get(id);
+  }
+
+  async createWorkCalendar(insertWorkCalendar: InsertWorkCalendar): Promise<WorkCalendar> {
+    const workCalendar: WorkCalendar = {
+      ...insertWorkCalendar,
+      weekendDays: insertWorkCalendar.weekendDays ?? [0, 6],
+      holidays: insertWorkCalendar.holidays ?? [],
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.workCalendars.set(workCalendar.id, workCalendar);
+    await this.persist();
+    return workCalendar;
+  }
+
+  async updateWorkCalendar(id: string, updateData: Partial<InsertWorkCalendar>): Promise<WorkCalendar | undefined> {
+    const existingWorkCalendar = this.workCalendars.get(id);
+    if (!existingWorkCalendar) return undefined;
+
+    const updatedWorkCalendar: WorkCalendar = { ...existingWorkCalendar, ...updateData };
+    this.workCalendars.set(id, updatedWorkCalendar);
+    await this.persist();
+    return updatedWorkCalendar;
+  }
+
+  async deleteWorkCalendar(id: string): Promise<boolean> {
+    if (!this.workCalendars.delete(id)) return false;
+
+    for (const calendar of Array.from(this.calendars.values())) {
+      if (calendar.workCalendarId === id) {
+        this.calendars.set(calendar.id, { ...calendar, workCalendarId: null });
+      }
+    }
+    for (const event of Array.from(this.events.values())) {
+      if (event.workCalendarId === id) {
+        this.events.set(event.id, { ...event, workCalendarId: null });
+      }
+    }
+    await this.persist();
+    return true;
+  }
+}
+
+// PostgreSQL storage implementation backed by the Drizzle eventsTable
+export class DrizzleStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // Event ids are uuid columns; anything else can never match and would
+  // make Postgres reject the query instead of returning nothing
+  private isValidId(id: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+  }
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    if (!this.isValidId(id)) return undefined;
+
+    const [event] = await this.db
+      .select()
+      .from(eventsTable)
+      .where(and(eq(eventsTable.id, id), isNull(eventsTable.deletedAt)));
+    return event;
+  }
+
+  async getAllEvents(): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(eventsTable)
+      .where(isNull(eventsTable.deletedAt))
+      .orderBy(asc(eventsTable.createdAt));
+  }
+
+  async searchEvents(query: string): Promise<SearchedEvent[]> {
+    const tokens = tokenizeSearchQuery(query);
+    if (tokens.length === 0) return [];
+
+    // Every word as a prefix, e.g. 'board':* & 'meet':*
+    const tsQuery = sql`to_tsquery('simple', ${tokens.map(token => `'${token.replace(/'/g, "''")}':*`).join(" & ")})`;
+    const searchVector = eventSearchVector(eventsTable);
+
+    const ownMatches = await this.db
+      .select({ id: eventsTable.id })
+      .from(eventsTable)
+      .where(and(isNull(eventsTable.deletedAt), sql`${searchVector} @@ ${tsQuery}`));
+    // Anchors may be trashed; the indexed vector narrows them down before the title check
+    const anchorMatches = await this.db
+      .select({ id: eventsTable.id })
+      .from(eventsTable)
+      .where(sql`${searchVector} @@ ${tsQuery} and to_tsvector('simple', ${eventsTable.title}) @@ ${tsQuery}`);
+
+    const conditions = [];
+    if (ownMatches.length > 0) {
+      conditions.push(inArray(eventsTable.id, ownMatches.map(match => match.id)));
+    }
+    if (anchorMatches.length > 0) {
+      conditions.push(inArray(eventsTable.relativeEventId, anchorMatches.map(match => match.id)));
+    }
+    if (conditions.length === 0) return [];
+
+    const events = await this.db
+      .select()
+      .from(eventsTable)
+      .where(and(isNull(eventsTable.deletedAt), or(...conditions)));
+    const anchorIds = Array.from(new Set(events.flatMap(event => event.relativeEventId ? [event.relativeEventId] : [])));
+    const anchors = anchorIds.length === 0 ? [] : await this.db
+      .select()
+      .from(eventsTable)
+      .where(inArray(eventsTable.id, anchorIds));
+
+    // Ranked in memory like the other backends, so they all order results alike
+    const candidates = new Map([...anchors, ...events].map(event => [event.id, event]));
+    return searchEventsInMemory(Array.from(candidates.values()), query);
+  }
+
+  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    insertEvent = clearRelativeFields(insertEvent);
+    // clock_timestamp() rather than the now() default, which is frozen per
+    // transaction and would tie every event created in the same batch
+    const [event] = await this.db
+      .insert(eventsTable)
+      .values({ ...insertEvent, createdAt: sql`clock_timestamp()` })
+      .returning();
+    return event;
+  }
+
+  async updateEvent(id: string, updateData: Partial<InsertEvent>, options: UpdateOptions = {}): Promise<Event | undefined> {
+    const { author = DEFAULT_AUTHOR, expectedVersion } = options;
+    if (!this.isValidId(id)) return undefined;
+
+    return this.db.transaction(async (tx) => {
+      const [existingEvent] = await tx
+        .select()
+        .from(eventsTable)
+        .where(and(eq(eventsTable.id, id), isNull(eventsTable.deletedAt)))
+        .for('update');
+      if (!existingEvent) return undefined;
+      assertVersion(existingEvent, expectedVersion);
+      updateData = clearRelativeFields(updateData, updateData.dateType ?? existingEvent.dateType);
+
+      const [event] = await tx
+        .update(eventsTable)
+        .set({ ...updateData, version: sql`${eventsTable.version} + 1` })
+        .where(eq(eventsTable.id, id))
+        .returning();
+
+      const changes = diffEvent(existingEvent, updateData);
+      if (Object.keys(changes).length > 0) {
+        const [{ latest }] = await tx
+          .select({ latest: sql<number>`coalesce(max(${eventRevisionsTable.revision}), 0)` })
+          .from(eventRevisionsTable)
+          .where(eq(eventRevisionsTable.eventId, id));
+        await tx.insert(eventRevisionsTable).values({
+          eventId: id,
+          revision: Number(latest) + 1,
+          author,
+          changes,
+        });
+      }
+      return event;
+    });
+  }
+
+  async deleteEvent(id: string, expectedVersion?: number): Promise<boolean> {
+    if (!this.isValidId(id)) return false;
+
+    const deleted = await this.db
+      .update(eventsTable)
+      .set({ deletedAt: new Date() })
+      .where(and(
+        eq(eventsTable.id, id),
+        isNull(eventsTable.deletedAt),
+        expectedVersion !== undefined ? eq(eventsTable.version, expectedVersion) : undefined,
+      ))
+      .returning({ id: eventsTable.id });
+    if (deleted.length > 0) return true;
+
+    // Nothing matched: either the event is gone or the version was stale
+    const current = await this.getEvent(id);
+    if (current) assertVersion(current, expectedVersion);
+    return false;
+  }
+
+  async getTrashedEvents(): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(eventsTable)
+      .where(isNotNull(eventsTable.deletedAt))
+      .orderBy(desc(eventsTable.deletedAt));
+  }
+
+  async restoreEvent(id: string): Promise<Event | undefined> {
+    if (!this.isValidId(id)) return undefined;
+
+    const [event] = await this.db
+      .update(eventsTable)
+      .set({ deletedAt: null })
+      .where(and(eq(eventsTable.id, id), isNotNull(eventsTable.deletedAt)))
+      .returning();
+    return event;
+  }
+
+  async purgeTrash(deletedBefore?: Date): Promise<number> {
+    const purged = await this.db
+      .delete(eventsTable)
+      .where(deletedBefore ? lt(eventsTable.deletedAt, deletedBefore) : isNotNull(eventsTable.deletedAt))
+      .returning({ id: eventsTable.id });
+    return purged.length;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    if (!this.isValidId(eventId)) return [];
+
+    return this.db
+      .select()
+      .from(eventRevisionsTable)
+      .where(eq(eventRevisionsTable.eventId, eventId))
+      .orderBy(asc(eventRevisionsTable.revision));
+  }
+
+  async applyBatch(operations: BatchOperation[], author?: string): Promise<BatchResult[]> {
+    // Transactions opened by the individual operations nest as savepoints
+    return this.db.transaction((tx) => runBatch(new DrizzleStorage(tx), operations, author));
+  }
+
+  async getAllCalendars(): Promise<Calendar[]> {
+    return this.db.select().from(calendarsTable).orderBy(asc(calendarsTable.createdAt));
+  }
+
+  async getCalendar(id: string): Promise<Calendar | undefined> {
+    if (!this.isValidId(id)) return undefined;
+
+    const [calendar] = await this.db.select().from(calendarsTable).where(eq(calendarsTable.id, id));
+    return calendar;
+  }
+
+  async createCalendar(insertCalendar: InsertCalendar): Promise<Calendar> {
+    const [calendar] = await this.db.insert(calendarsTable).values(insertCalendar).returning();
+    return calendar;
+  }
+
+  async updateCalendar(id: string, updateData: Partial<InsertCalendar>): Promise<Calendar | undefined> {
+    if (!this.isValidId(id)) return undefined;
+    if (Object.keys(updateData).length === 0) return this.getCalendar(id);
+
+    const [calendar] = await this.db
+      .update(calendarsTable)
+      .set(updateData)
+      .where(eq(calendarsTable.id, id))
+      .returning();
+    return calendar;
+  }
+
+  async deleteCalendar(id: string): Promise<boolean> {
+    if (!this.isValidId(id)) return false;
+
+    // The calendar_id foreign key detaches the calendar's events
+    const deleted = await this.db
+      .delete(calendarsTable)
+      .where(eq(calendarsTable.id, id))
+      .returning({ id: calendarsTable.id });
+    return deleted.length > 0;
+  }
+
+  async getAllWorkCalendars(): Promise<WorkCalendar[]> {
+    return this.db.select().from(workCalendarsTable).orderBy(asc(workCalendarsTable.createdAt));
+  }
+
+  async getWorkCalendar(id: string): Promise<WorkCalendar | undefined> {
+    if (!this.isValidId(id)) return undefined;
+
+    const [workCalendar] = await this.db.select().from(workCalendarsTable).where(eq(workCalendarsTable.id, id));
+    return workCalendar;
+  }
+
+  async createWorkCalendar(insertWorkCalendar: InsertWorkCalendar): Promise<WorkCalendar> {
+    const [workCalendar] = await this.db.insert(workCalendarsTable).values(insertWorkCalendar).returning();
+    return workCalendar;
+  }
+
+  async updateWorkCalendar(id: string, updateData: Partial<InsertWorkCalendar>): Promise<WorkCalendar | undefined> {
+    if (!this.isValidId(id)) return undefined;
+    if (Object.keys(updateData).length === 0) return this.getWorkCalendar(id);
+
+    const [workCalendar] = await this.db
+      .update(workCalendarsTable)
+      .set(updateData)
+      .where(eq(workCalendarsTable.id, id))
+      .returning();
+    return workCalendar;
+  }
+
+  async deleteWorkCalendar(id: string): Promise<boolean> {
+    if (!this.isValidId(id)) return false;
+
+    // The work_calendar_id foreign keys detach its events and calendars
+    const deleted = await this.db
+      .delete(workCalendarsTable)
+      .where(eq(workCalendarsTable.id, id))
+      .returning({ id: workCalendarsTable.id });
+    return deleted.length > 0;
+  }
+}
+
+// File-backed SQLite storage implementation for single-user and offline use
+export class SqliteStorage implements IStorage {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    return this.db
+      .select()
+      .from(sqliteEventsTable)
+      .where(and(eq(sqliteEventsTable.id, id), isNull(sqliteEventsTable.deletedAt)))
+      .get();
+  }
+
+  async getAllEvents(): Promise<Event[]> {
+    // rowid keeps insertion order for events created within the same millisecond
+    return this.db
+      .select()
+      .from(sqliteEventsTable)
+      .where(isNull(sqliteEventsTable.deletedAt))
+      .orderBy(asc(sqliteEventsTable.createdAt), sql`rowid`)
+      .all();
+  }
+
+  async searchEvents(query: string): Promise<SearchedEvent[]> {
+    const tokens = tokenizeSearchQuery(query);
+    if (tokens.length === 0) return [];
+
+    // events_fts is kept in step with the events table by triggers; every word
+    // is matched as a quoted prefix, e.g. "board"* "meet"*
+    const phrases = tokens.map(token => `"${token.replace(/"/g, '""')}"*`);
+    const ownMatches = this.db.all<{ id: string }>(sql`
+      select event_id as id from events_fts where events_fts match ${phrases.join(" ")}
+    `);
+    const anchorMatches = this.db.all<{ id: string }>(sql`
+      select event_id as id from events_fts where events_fts match ${phrases.map(phrase => `title : ${phrase}`).join(" AND ")}
+    `);
+
+    const conditions = [];
+    if (ownMatches.length > 0) {
+      conditions.push(inArray(sqliteEventsTable.id, ownMatches.map(match => match.id)));
+    }
+    if (anchorMatches.length > 0) {
+      conditions.push(inArray(sqliteEventsTable.relativeEventId, anchorMatches.map(match => match.id)));
+    }
+    if (conditions.length === 0) return [];
+
+    const events = this.db
+      .select()
+      .from(sqliteEventsTable)
+      .where(and(isNull(sqliteEventsTable.deletedAt), or(...conditions)))
+      .all();
+    const anchorIds = events.flatMap(event => event.relativeEventId ? [event.relativeEventId] : []);
+    const anchors = anchorIds.length === 0 ? [] : this.db
+      .select()
+      .from(sqliteEventsTable)
+      .where(inArray(sqliteEventsTable.id, Array.from(new Set(anchorIds))))
+      .all();
+
+    // FTS5's bm25 gives words found in half the events no weight at all, which
+    // on a small calendar ranks the best matches last; the few candidates are
+    // ranked like the in-memory backends instead
+    const candidates = new Map([...anchors, ...events].map(event => [event.id, event]));
+    return searchEventsInMemory(Array.from(candidates.values()), query);
+  }
+
+  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    insertEvent = clearRelativeFields(insertEvent);
+    return this.db
+      .insert(sqliteEventsTable)
+      .values({ ...insertEvent, id: randomUUID(), createdAt: new Date(), deletedAt: null, version: 1 })
+      .returning()
+      .get();
+  }
+
+  async updateEvent(id: string, updateData: Partial<InsertEvent>, options: UpdateOptions = {}): Promise<Event | undefined> {
+    const { author = DEFAULT_AUTHOR, expectedVersion } = options;
+
+    return this.db.transaction((tx) => {
+      const existingEvent = tx
+        .select()
+        .from(sqliteEventsTable)
+        .where(and(eq(sqliteEventsTable.id, id), isNull(sqliteEventsTable.deletedAt)))
+        .get();
+      if (!existingEvent) return undefined;
+      assertVersion(existingEvent, expectedVersion);
+      updateData = clearRelativeFields(updateData, updateData.dateType ?? existingEvent.dateType);
+
+      const event = tx
+        .update(sqliteEventsTable)
+        .set({ ...updateData, version: existingEvent.version + 1 })
+        .where(eq(sqliteEventsTable.id, id))
+        .returning()
+        .get();
+
+      const changes = diffEvent(existingEvent, updateData);
+      if (Object.keys(changes).length > 0) {
+        const { latest } = tx
+          .select({ latest: sql<number>`coalesce(max(${sqliteEventRevisionsTable.revision}), 0)` })
+          .from(sqliteEventRevisionsTable)
+          .where(eq(sqliteEventRevisionsTable.eventId, id))
+          .get()!;
+        tx.insert(sqliteEventRevisionsTable).values({
+          id: randomUUID(),
+          eventId: id,
+          revision: latest + 1,
+          author,
+          changedAt: new Date(),
+          changes,
+        }).run();
+      }
+      return event;
+    });
+  }
+
+  async deleteEvent(id: string, expectedVersion?: number): Promise<boolean> {
+    return this.db.transaction((tx) => {
+      const existingEvent = tx
+        .select()
+        .from(sqliteEventsTable)
+        .where(and(eq(sqliteEventsTable.id, id), isNull(sqliteEventsTable.deletedAt)))
+        .get();
+      if (!existingEvent) return false;
+      assertVersion(existingEvent, expectedVersion);
+
+      tx.update(sqliteEventsTable)
+        .set({ deletedAt: new Date() })
+        .where(eq(sqliteEventsTable.id, id))
+        .run();
+      return true;
+    });
+  }
+
+  async getTrashedEvents(): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(sqliteEventsTable)
+      .where(isNotNull(sqliteEventsTable.deletedAt))
+      .orderBy(desc(sqliteEventsTable.deletedAt))
+      .all();
+  }
+
+  async restoreEvent(id: string): Promise<Event | undefined> {
+    return this.db
+      .update(sqliteEventsTable)
+      .set({ deletedAt: null })
+      .where(and(eq(sqliteEventsTable.id, id), isNotNull(sqliteEventsTable.deletedAt)))
+      .returning()
+      .get();
+  }
+
+  async purgeTrash(deletedBefore?: Date): Promise<number> {
+    const result = this.db
+      .delete(sqliteEventsTable)
+      .where(deletedBefore ? lt(sqliteEventsTable.deletedAt, deletedBefore) : isNotNull(sqliteEventsTable.deletedAt))
+      .run();
+    return result.changes;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    return this.db
+      .select()
+      .from(sqliteEventRevisionsTable)
+      .where(eq(sqliteEventRevisionsTable.eventId, eventId))
+      .orderBy(asc(sqliteEventRevisionsTable.revision))
+      .all();
+  }
+
+  async applyBatch(operations: BatchOperation[], author?: string): Promise<BatchResult[]> {
+    // better-sqlite3 only takes synchronous transaction callbacks, so the
+    // transaction is opened by hand. Every operation completes synchronously
+    // underneath its promise, so no other request can run in between.
+    this.db.run(sql`BEGIN IMMEDIATE`);
+    try {
+      const results = await runBatch(this, operations, author);
+      this.db.run(sql`COMMIT`);
+      return results;
+    } catch (error) {
+      this.db.run(sql`ROLLBACK`);
+      throw error;
+    }
+  }
+
+  async getAllCalendars(): Promise<Calendar[]> {
+    return this.db
+      .select()
+      .from(sqliteCalendarsTable)
+      .orderBy(asc(sqliteCalendarsTable.createdAt), sql`rowid`)
+      .all();
+  }
+
+  async getCalendar(id: string): Promise<Calendar | undefined> {
+    return this.db.select().from(sqliteCalendarsTable).where(eq(sqliteCalendarsTable.id, id)).get();
+  }
+
+  async createCalendar(insertCalendar: InsertCalendar): Promise<Calendar> {
+    return this.db
+      .insert(sqliteCalendarsTable)
+      .values({ ...insertCalendar, id: randomUUID(), createdAt: new Date() })
+      .returning()
+      .get();
+  }
+
+  async updateCalendar(id: string, updateData: Partial<InsertCalendar>): Promise<Calendar | undefined> {
+    if (Object.keys(updateData).length === 0) return this.getCalendar(id);
+
+    return this.db
+      .update(sqliteCalendarsTable)
+      .set(updateData)
+      .where(eq(sqliteCalendarsTable.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteCalendar(id: string): Promise<boolean> {
+    // The calendar_id foreign key detaches the calendar's events
+    const result = this.db.delete(sqliteCalendarsTable).where(eq(sqliteCalendarsTable.id, id)).run();
+    return result.changes > 0;
+  }
+
+  async getAllWorkCalendars(): Promise<WorkCalendar[]> {
+    return this.db
+      .select()
+      .from(sqliteWorkCalendarsTable)
+      .orderBy(asc(sqliteWorkCalendarsTable.createdAt), sql`rowid`)
+      .all();
+  }
+
+  async getWorkCalendar(id: string): Promise<WorkCalendar | undefined> {
+    return this.db.select().from(sqliteWorkCalendarsTable).where(eq(sqliteWorkCalendarsTable.id, id)).get();
+  }
+
+  async createWorkCalendar(insertWorkCalendar: InsertWorkCalendar): Promise<WorkCalendar> {
+    return this.db
+      .insert(sqliteWorkCalendarsTable)
+      .values({ ...insertWorkCalendar, id: randomUUID(), createdAt: new Date() })
+      .returning()
+      .get();
+  }
+
+  async updateWorkCalendar(id: string, updateData: Partial<InsertWorkCalendar>): Promise<WorkCalendar | undefined> {
+    if (Object.keys(updateData).length === 0) return this.getWorkCalendar(id);
+
+    return this.db
+      .update(sqliteWorkCalendarsTable)
+      .set(updateData)
+      .where(eq(sqliteWorkCalendarsTable.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteWorkCalendar(id: string): Promise<boolean> {
+    // The work_calendar_id foreign keys detach its events and calendars
+    const result = this.db.delete(sqliteWorkCalendarsTable).where(eq(sqliteWorkCalendarsTable.id, id)).run();
+    return result.changes > 0;
   }
 }
 
@@ -145,8 +1415,17 @@ const createStorage = (): IStorage => {
   // Use LocalStorage for both client and server (server will use MemStorage as fallback)
   if (typeof window !== 'undefined') {
     return new LocalStorage();
+  } else if (process.env.SQLITE_DB_PATH) {
+    log(`Using SQLite storage at ${process.env.SQLITE_DB_PATH}`);
+    return new SqliteStorage(createSqliteDatabase(process.env.SQLITE_DB_PATH));
+  } else if (process.env.DATABASE_URL) {
+    log('Using PostgreSQL storage');
+    return new DrizzleStorage(createDatabase(process.env.DATABASE_URL));
+  } else if (process.env.STORAGE_SNAPSHOT_PATH) {
+    log(`Using in-memory storage with JSON snapshot at ${process.env.STORAGE_SNAPSHOT_PATH}`);
+    return new MemStorage(process.env.STORAGE_SNAPSHOT_PATH);
   } else {
-    console.log('Using in-memory storage for server-side');
+    log('Using in-memory storage for server-side');
     return new MemStorage();
   }
 };
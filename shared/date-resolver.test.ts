@@ -0,0 +1,348 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Event } from "./schema";
+import {
+  EventDateResolver,
+  addDays,
+  adjustToWorkday,
+  calculateEasterDate,
+  calculateNthDate,
+  calculateRelativeDate,
+  calculateWeekdayDate,
+  formatCalendarDate,
+  isBusinessDay,
+  isHoliday,
+  resolveEventDate,
+  toCalendarDate,
+  toStoredDate,
+} from "./date-resolver";
+
+function makeEvent(fields: Partial<Event> & Pick<Event, 'id' | 'dateType'>): Event {
+  return {
+    title: fields.id,
+    description: null,
+    calendarId: null,
+    workCalendarId: null,
+    weekendAdjustment: null,
+    category: null,
+    tags: [],
+    startDate: null,
+    endDate: null,
+    nthOccurrence: null,
+    dayOfWeek: null,
+    month: null,
+    baseYear: null,
+    recurUntilYear: null,
+    nthFrequency: null,
+    nthMonths: null,
+    nthInterval: null,
+    relativePeriod: null,
+    relativeUnit: null,
+    relativeDirection: null,
+    relativeEventId: null,
+    relativeWeekday: null,
+    relativeWeekdayOrdinal: null,
+    recurrenceRule: null,
+    easterVariant: null,
+    easterOffset: null,
+    createdAt: new Date(0),
+    deletedAt: null,
+    version: 1,
+    ...fields,
+  };
+}
+
+function fixed(id: string, day: string): Event {
+  return makeEvent({ id, dateType: 'fixed', startDate: new Date(`${day}T00:00:00.000Z`) });
+}
+
+function relative(id: string, anchorId: string, period: number, unit: Event['relativeUnit'], direction: Event['relativeDirection'] = 'after'): Event {
+  return makeEvent({ id, dateType: 'relative', relativeEventId: anchorId, relativePeriod: period, relativeUnit: unit, relativeDirection: direction });
+}
+
+const day = (value: string) => toCalendarDate(value);
+const format = (date: Date | null) => date && formatCalendarDate(date);
+
+describe('calculateRelativeDate', () => {
+  it('clamps to the last day of shorter months', () => {
+    expect(format(calculateRelativeDate(day('2026-01-31'), 1, 'months', 'after'))).toBe('2026-02-28');
+    expect(format(calculateRelativeDate(day('2028-01-31'), 1, 'months', 'after'))).toBe('2028-02-29');
+    expect(format(calculateRelativeDate(day('2026-03-31'), 1, 'months', 'before'))).toBe('2026-02-28');
+    expect(format(calculateRelativeDate(day('2026-05-31'), 1, 'months', 'after'))).toBe('2026-06-30');
+  });
+
+  it('moves a leap day to February 28 in common years', () => {
+    expect(format(calculateRelativeDate(day('2028-02-29'), 1, 'years', 'after'))).toBe('2029-02-28');
+    expect(format(calculateRelativeDate(day('2028-02-29'), 4, 'years', 'after'))).toBe('2032-02-29');
+    expect(format(calculateRelativeDate(day('2028-02-29'), 1, 'years', 'before'))).toBe('2027-02-28');
+  });
+
+  it('crosses month and year ends by days and weeks', () => {
+    expect(format(calculateRelativeDate(day('2026-12-31'), 1, 'days', 'after'))).toBe('2027-01-01');
+    expect(format(calculateRelativeDate(day('2028-03-01'), 1, 'days', 'before'))).toBe('2028-02-29');
+    expect(format(calculateRelativeDate(day('2026-02-22'), 1, 'weeks', 'after'))).toBe('2026-03-01');
+  });
+
+  it('skips weekends and holidays in business days', () => {
+    // 2026-01-30 is a Friday
+    expect(format(calculateRelativeDate(day('2026-01-30'), 1, 'businessDays', 'after'))).toBe('2026-02-02');
+    expect(format(calculateRelativeDate(day('2026-01-31'), 1, 'businessDays', 'after'))).toBe('2026-02-02');
+    expect(format(calculateRelativeDate(day('2026-02-02'), 1, 'businessDays', 'before'))).toBe('2026-01-30');
+
+    const workWeek = { weekendDays: [5, 6], holidays: [{ type: 'annual' as const, month: 2, day: 1 }] };
+    expect(format(calculateRelativeDate(day('2026-01-29'), 1, 'businessDays', 'after', workWeek))).toBe('2026-02-02');
+  });
+
+  it('gives up on work weeks without business days', () => {
+    const workWeek = { weekendDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] };
+    expect(() => calculateRelativeDate(day('2026-01-01'), 1, 'businessDays', 'after', workWeek)).toThrow();
+  });
+});
+
+describe('calculateNthDate', () => {
+  it('finds the last weekday of the month with -1', () => {
+    expect(format(calculateNthDate(-1, 1, 5, 2026))).toBe('2026-05-25');
+    expect(format(calculateNthDate(-1, 0, 2, 2026))).toBe('2026-02-22');
+    // February 29 2032 is a Sunday, the last one of the month
+    expect(format(calculateNthDate(-1, 0, 2, 2032))).toBe('2032-02-29');
+    expect(format(calculateNthDate(-1, 4, 12, 2026))).toBe('2026-12-31');
+  });
+
+  it('counts from the first of the month', () => {
+    expect(format(calculateNthDate(4, 4, 11, 2026))).toBe('2026-11-26');
+    expect(format(calculateNthDate(1, 3, 4, 2026))).toBe('2026-04-01');
+  });
+
+  it('throws for occurrences past the end of the month', () => {
+    expect(() => calculateNthDate(5, 1, 2, 2026)).toThrow();
+    // 2026-02 has exactly four of every weekday; 2032-02 has a fifth Sunday
+    expect(format(calculateNthDate(5, 0, 2, 2032))).toBe('2032-02-29');
+  });
+});
+
+describe('calculateWeekdayDate', () => {
+  it('counts weekdays from the base date', () => {
+    // 2026-01-01 is a Thursday
+    expect(format(calculateWeekdayDate(day('2026-01-01'), 1, 1, 'after'))).toBe('2026-01-05');
+    expect(format(calculateWeekdayDate(day('2026-01-01'), 4, 1, 'after'))).toBe('2026-01-08');
+    expect(format(calculateWeekdayDate(day('2026-01-01'), 4, 0, 'after'))).toBe('2026-01-01');
+    expect(format(calculateWeekdayDate(day('2026-01-01'), 5, 2, 'before'))).toBe('2025-12-19');
+  });
+});
+
+describe('calculateEasterDate', () => {
+  it('computes Western and Orthodox Easter', () => {
+    expect(format(calculateEasterDate(2026))).toBe('2026-04-05');
+    expect(format(calculateEasterDate(2026, 'orthodox'))).toBe('2026-04-12');
+    expect(format(calculateEasterDate(2024))).toBe('2024-03-31');
+    expect(format(calculateEasterDate(2024, 'orthodox'))).toBe('2024-05-05');
+  });
+});
+
+describe('adjustToWorkday', () => {
+  it('moves days off as asked', () => {
+    const workWeek = { weekendDays: [0, 6], holidays: [{ type: 'date' as const, date: '2026-07-06' }] };
+    const adjust = (value: string, adjustment: Parameters<typeof adjustToWorkday>[1]) => format(adjustToWorkday(day(value), adjustment, workWeek));
+    expect(adjust('2026-07-04', 'nearest')).toBe('2026-07-03');
+    expect(adjust('2026-07-05', 'nextWorkday')).toBe('2026-07-07');
+    expect(adjust('2026-07-05', 'previousWorkday')).toBe('2026-07-03');
+    // Friday and Tuesday are as near to the Sunday before the holiday Monday
+    expect(adjust('2026-07-05', 'nearest')).toBe('2026-07-07');
+    expect(adjust('2026-07-04', 'none')).toBe('2026-07-04');
+    expect(adjust('2026-07-04', null)).toBe('2026-07-04');
+    expect(adjust('2026-07-02', 'nextWorkday')).toBe('2026-07-02');
+  });
+
+  it('gives up on work weeks without business days', () => {
+    expect(() => adjustToWorkday(day('2026-07-04'), 'nearest', { weekendDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] })).toThrow();
+  });
+});
+
+describe('isHoliday', () => {
+  it('matches the last weekday of a month', () => {
+    const rule = { type: 'nth' as const, nthOccurrence: -1, dayOfWeek: 1, month: 5 };
+    expect(isHoliday(day('2026-05-25'), rule)).toBe(true);
+    expect(isHoliday(day('2026-05-18'), rule)).toBe(false);
+  });
+
+  it('matches leap-day holidays only in leap years', () => {
+    const rule = { type: 'annual' as const, month: 2, day: 29 };
+    expect(isHoliday(day('2028-02-29'), rule)).toBe(true);
+    expect(isBusinessDay(day('2026-03-02'), { weekendDays: [0, 6], holidays: [rule] })).toBe(true);
+  });
+});
+
+describe('timezones', () => {
+  const originalTimezone = process.env.TZ;
+  afterEach(() => {
+    if (originalTimezone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTimezone;
+  });
+
+  for (const timezone of ['America/Los_Angeles', 'Pacific/Auckland', 'Pacific/Kiritimati', 'UTC']) {
+    it(`keeps stored days in ${timezone}`, () => {
+      process.env.TZ = timezone;
+      const resolved = toCalendarDate(new Date('2026-03-01T00:00:00.000Z'));
+      expect(format(resolved)).toBe('2026-03-01');
+      expect(toStoredDate(resolved).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+      expect(format(toCalendarDate('2026-03-01T00:00:00.000Z'))).toBe('2026-03-01');
+    });
+  }
+
+  it('steps over daylight saving changes by whole days', () => {
+    process.env.TZ = 'America/Los_Angeles';
+    // Clocks go forward on 2026-03-08 and back on 2026-11-01
+    expect(format(addDays(day('2026-03-07'), 1))).toBe('2026-03-08');
+    expect(format(addDays(day('2026-03-08'), 1))).toBe('2026-03-09');
+    expect(format(addDays(day('2026-10-31'), 2))).toBe('2026-11-02');
+    expect(format(calculateRelativeDate(day('2026-03-01'), 1, 'weeks', 'after'))).toBe('2026-03-08');
+  });
+
+  it('resolves relative events to the same day in every timezone', () => {
+    const events = [fixed('a', '2026-01-31'), relative('b', 'a', 1, 'months')];
+    for (const timezone of ['America/Los_Angeles', 'Pacific/Auckland']) {
+      process.env.TZ = timezone;
+      expect(format(resolveEventDate(events[1], events).date)).toBe('2026-02-28');
+    }
+  });
+});
+
+describe('resolveEventDate', () => {
+  it('follows anchor chains', () => {
+    const events = [fixed('a', '2026-01-31'), relative('b', 'a', 1, 'months'), relative('c', 'b', 2, 'days', 'before')];
+    expect(format(resolveEventDate(events[2], events).date)).toBe('2026-02-26');
+  });
+
+  it('reports missing anchors and anchors without a date', () => {
+    const events = [makeEvent({ id: 'a', dateType: 'fixed' }), relative('b', 'a', 1, 'days'), relative('c', 'gone', 1, 'days')];
+    expect(resolveEventDate(events[1], events).problem).toEqual({ type: 'anchorWithoutDate', eventId: 'b', anchorId: 'a' });
+    expect(resolveEventDate(events[2], events).problem).toEqual({ type: 'missingAnchor', eventId: 'c', anchorId: 'gone' });
+  });
+
+  it('reports cycles from where they start', () => {
+    const events = [relative('a', 'b', 1, 'days'), relative('b', 'a', 1, 'days'), relative('c', 'a', 1, 'days')];
+    expect(resolveEventDate(events[0], events).problem).toEqual({ type: 'cycle', path: ['a', 'b', 'a'] });
+    expect(resolveEventDate(events[2], events).problem).toEqual({ type: 'cycle', path: ['a', 'b', 'a'] });
+  });
+});
+
+describe('EventDateResolver', () => {
+  it('resolves anchor chains deeper than the call stack', () => {
+    const events = [fixed('e0', '2026-01-01')];
+    for (let index = 1; index <= 20000; index++) events.push(relative(`e${index}`, `e${index - 1}`, 1, 'days'));
+    const resolver = new EventDateResolver(events);
+    expect(format(resolver.getDate('e20000'))).toBe('2080-10-04');
+    expect(resolver.getOccurrences('e20000').map(span => format(span.start))).toEqual(['2080-10-04']);
+    expect(format(resolveEventDate(events[20000], events).date)).toBe('2080-10-04');
+  });
+
+  it('agrees with resolveEventDate', () => {
+    const events = [
+      fixed('a', '2028-02-29'),
+      relative('b', 'a', 1, 'years'),
+      relative('c', 'b', 1, 'businessDays'),
+      relative('d', 'gone', 1, 'days'),
+    ];
+    const resolver = new EventDateResolver(events);
+    for (const event of events) {
+      expect(resolver.resolve(event.id)).toEqual(resolveEventDate(event, events));
+    }
+    expect(format(resolver.getDate('c'))).toBe('2029-03-01');
+  });
+
+  it('marks every member of an anchor loop and what hangs off it', () => {
+    const events = [
+      relative('a', 'c', 1, 'days'),
+      relative('b', 'a', 1, 'days'),
+      relative('c', 'b', 1, 'days'),
+      relative('d', 'b', 1, 'days'),
+      makeEvent({ id: 'e', dateType: 'relative', relativeEventId: 'f' }),
+      relative('f', 'e', 1, 'days'),
+    ];
+    const resolver = new EventDateResolver(events);
+    const problem = resolver.resolve('a').problem;
+    expect(problem?.type).toBe('cycle');
+    expect(problem?.type === 'cycle' && [...problem.path].sort()).toEqual(['a', 'a', 'b', 'c']);
+    for (const id of ['b', 'c', 'd']) expect(resolver.resolve(id).problem).toEqual(problem);
+    // An incomplete event breaks the loop it sits on
+    expect(resolver.resolve('e')).toEqual({ date: null, problem: null });
+    expect(resolver.resolve('f').problem).toEqual({ type: 'anchorWithoutDate', eventId: 'f', anchorId: 'e' });
+
+    resolver.update(fixed('c', '2026-01-01'));
+    expect(format(resolver.getDate('d'))).toBe('2026-01-04');
+  });
+
+  it('resolves 10k events in loops and chains quickly', () => {
+    const count = 10000;
+    const loop = Array.from({ length: count }, (_, index) => relative(`l${index}`, `l${(index + 1) % count}`, 1, 'days'));
+    const chain = Array.from({ length: count }, (_, index) => relative(`c${index}`, index === 0 ? 'l0' : `c${index - 1}`, 1, 'days'));
+    const events = [...loop, ...chain];
+
+    const started = performance.now();
+    const resolver = new EventDateResolver(events);
+    expect(resolver.resolve(`c${count - 1}`).problem?.type).toBe('cycle');
+    expect(events.every(event => resolver.resolve(event.id).problem?.type === 'cycle')).toBe(true);
+    resolver.update(fixed('l0', '2026-01-01'));
+    expect(format(resolver.getDate('l1'))).toBe('2053-05-18');
+    expect(format(resolver.getDate(`c${count - 1}`))).toBe('2053-05-19');
+    // Took minutes when each leftover event walked its own chain
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it('repeats relative events with every occurrence of their anchor', () => {
+    const events = [
+      makeEvent({ id: 'a', dateType: 'nth', nthOccurrence: -1, dayOfWeek: 5, month: 1, nthFrequency: 'monthly', baseYear: 2026 }),
+      relative('b', 'a', 1, 'days'),
+    ];
+    const resolver = new EventDateResolver(events);
+    const starts = resolver.getOccurrences('b').map(span => format(span.start));
+    expect(starts.slice(0, 3)).toEqual(['2026-01-31', '2026-02-28', '2026-03-28']);
+    expect(starts).toHaveLength(12);
+  });
+
+  it('leaves out occurrences that find no business day', () => {
+    // Saturdays are the only business days, and none of them in 2027
+    const holidays = [];
+    for (let saturday = day('2027-01-02'); saturday < day('2028-01-15'); saturday = addDays(saturday, 7)) {
+      holidays.push({ type: 'date' as const, date: formatCalendarDate(saturday) });
+    }
+    const workWeek = { weekendDays: [0, 1, 2, 3, 4, 5], holidays };
+    const events = [
+      makeEvent({ id: 'a', dateType: 'nth', nthOccurrence: 1, dayOfWeek: 1, month: 1, baseYear: 2026, recurUntilYear: 2028 }),
+      relative('b', 'a', 1, 'businessDays'),
+    ];
+    const resolver = new EventDateResolver(events, () => workWeek);
+    expect(resolver.getOccurrences('b').map(span => format(span.start))).toEqual(['2026-01-10', '2028-01-15']);
+    expect(resolver.getOccurrenceProblem('b')).toEqual({ type: 'noBusinessDays', eventId: 'b' });
+    expect(resolver.getOccurrenceProblem('a')).toBeNull();
+
+    resolver.update({ ...events[1], relativeUnit: 'days' });
+    expect(resolver.getOccurrences('b')).toHaveLength(3);
+    expect(resolver.getOccurrenceProblem('b')).toBeNull();
+  });
+
+  it('moves every occurrence off days off, and its dependents with it', () => {
+    const events = [
+      makeEvent({ id: 'a', dateType: 'fixed', startDate: new Date('2026-07-04T00:00:00.000Z'), weekendAdjustment: 'nearest' }),
+      makeEvent({ id: 'b', dateType: 'nth', nthOccurrence: 1, dayOfWeek: 6, month: 7, baseYear: 2026, recurUntilYear: 2027, weekendAdjustment: 'nextWorkday' }),
+      relative('c', 'b', 1, 'days'),
+    ];
+    const resolver = new EventDateResolver(events);
+    expect(format(resolver.getDate('a'))).toBe('2026-07-03');
+    expect(resolver.getOccurrences('b').map(span => format(span.start))).toEqual(['2026-07-06', '2027-07-05']);
+    expect(resolver.getOccurrences('c').map(span => format(span.start))).toEqual(['2026-07-07', '2027-07-06']);
+    expect(resolveEventDate(events[2], events)).toEqual({ date: day('2026-07-07'), problem: null });
+
+    // Five days after Monday is a Saturday
+    resolver.update({ ...events[2], weekendAdjustment: 'previousWorkday', relativePeriod: 5 });
+    expect(format(resolver.getDate('c'))).toBe('2026-07-10');
+  });
+
+  it('re-resolves dependents after an update', () => {
+    const events = [fixed('a', '2026-01-31'), relative('b', 'a', 1, 'months')];
+    const resolver = new EventDateResolver(events);
+    expect(resolver.update(fixed('a', '2026-03-31')).sort()).toEqual(['a', 'b']);
+    expect(format(resolver.getDate('b'))).toBe('2026-04-30');
+    resolver.remove('a');
+    expect(resolver.resolve('b').problem).toEqual({ type: 'missingAnchor', eventId: 'b', anchorId: 'a' });
+  });
+});
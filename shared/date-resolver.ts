@@ -0,0 +1,967 @@
+import type { Calendar, EasterVariant, Event, HolidayRule, WeekendAdjustment, WorkCalendar } from "./schema";
+import { describeRecurrence, expandRecurrence, firstRecurrence, parseRecurrenceRule } from "./recurrence";
+
+// Date resolution shared by the server (API, ICS export) and the client (list,
+// form preview, client-side ICS export).
+//
+// Resolved dates are calendar days, represented as local midnight so that
+// getDate()/getDay() and friends read the intended day in any timezone. Fixed
+// dates are stored as UTC midnight of their day and reach this module either as
+// Date objects or as their ISO strings; both are read by their UTC date.
+
+export type RelativeUnit = NonNullable<Event['relativeUnit']>;
+export type RelativeDirection = NonNullable<Event['relativeDirection']>;
+
+// Calendar day of a stored fixed date, e.g. "2025-09-01", "2025-09-01T00:00:00.000Z"
+// or the equivalent Date
+export function toCalendarDate(value: Date | string): Date {
+  if (typeof value === 'string') {
+    const [year, month, day] = value.split('T')[0].split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate());
+}
+
+// Inverse of toCalendarDate: UTC midnight of a resolved day, ready to be stored
+export function toStoredDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+// YYYY-MM-DD of a resolved day
+export function formatCalendarDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Moves by whole months, clamping to the last day of shorter months
+// (Jan 31 + 1 month is Feb 28, or Feb 29 in a leap year)
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+// The nth (1-4) or last (-1) given weekday of a month; throws when the month
+// has no such occurrence
+export function calculateNthDate(
+  nthOccurrence: number,
+  dayOfWeek: number,
+  month: number,
+  year: number = new Date().getFullYear()
+): Date {
+  if (nthOccurrence === -1) {
+    const lastDay = new Date(year, month, 0);
+    return addDays(lastDay, -((lastDay.getDay() - dayOfWeek + 7) % 7));
+  }
+
+  const firstDay = new Date(year, month - 1, 1);
+  const firstOccurrence = addDays(firstDay, (dayOfWeek - firstDay.getDay() + 7) % 7);
+  const date = addDays(firstOccurrence, (nthOccurrence - 1) * 7);
+  if (date.getMonth() !== month - 1) {
+    throw new Error(`No ${nthOccurrence} occurrence in month`);
+  }
+  return date;
+}
+
+// Easter Sunday in the Gregorian calendar: Western Easter by the anonymous
+// Gregorian computus, Orthodox Easter by the Julian computus, moved from the
+// Julian calendar to the Gregorian one
+export function calculateEasterDate(year: number, variant: EasterVariant = 'western'): Date {
+  if (variant === 'orthodox') {
+    const d = (19 * (year % 19) + 15) % 30;
+    const e = (2 * (year % 4) + 4 * (year % 7) - d + 34) % 7;
+    const month = Math.floor((d + e + 114) / 31);
+    const day = ((d + e + 114) % 31) + 1;
+    const julianLag = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+    return new Date(year, month - 1, day + julianLag);
+  }
+
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+// The days business-day offsets count: every day but the weekend days (0-6,
+// Sunday to Saturday) and the holidays. Work calendars are work weeks.
+export interface WorkWeek {
+  weekendDays: readonly number[];
+  holidays: readonly HolidayRule[];
+}
+
+export const STANDARD_WORK_WEEK: WorkWeek = { weekendDays: [0, 6], holidays: [] };
+
+// The work week an event's own business-day offset follows
+export type WorkWeekLookup = (event: Event) => WorkWeek;
+
+const standardWorkWeeks: WorkWeekLookup = () => STANDARD_WORK_WEEK;
+
+// Events follow their own work calendar, else their calendar's, else `fallback`
+export function createWorkWeekLookup(
+  workCalendars: WorkCalendar[],
+  calendars: Calendar[],
+  fallback: WorkWeek = STANDARD_WORK_WEEK
+): WorkWeekLookup {
+  const workCalendarsById = new Map(workCalendars.map(workCalendar => [workCalendar.id, workCalendar]));
+  const calendarsById = new Map(calendars.map(calendar => [calendar.id, calendar]));
+  return event => {
+    const workCalendarId = event.workCalendarId ?? calendarsById.get(event.calendarId ?? '')?.workCalendarId;
+    return workCalendarsById.get(workCalendarId ?? '') ?? fallback;
+  };
+}
+
+export function isHoliday(date: Date, rule: HolidayRule): boolean {
+  switch (rule.type) {
+    case 'date':
+      return formatCalendarDate(date) === rule.date;
+    case 'annual':
+      return date.getMonth() + 1 === rule.month && date.getDate() === rule.day;
+    case 'nth':
+      if (date.getMonth() + 1 !== rule.month || date.getDay() !== rule.dayOfWeek) return false;
+      // The last occurrence is the one with no same weekday after it in the month
+      return rule.nthOccurrence === -1
+        ? addDays(date, 7).getMonth() !== date.getMonth()
+        : Math.ceil(date.getDate() / 7) === rule.nthOccurrence;
+  }
+}
+
+export function isBusinessDay(date: Date, workWeek: WorkWeek = STANDARD_WORK_WEEK): boolean {
+  return !workWeek.weekendDays.includes(date.getDay()) && !workWeek.holidays.some(rule => isHoliday(date, rule));
+}
+
+// Counts business days from the day after (or before) `date`, so one business
+// day after a Friday or a Saturday is the Monday. Throws rather than searching
+// forever when a whole year goes by without a business day.
+function addBusinessDays(date: Date, amount: number, workWeek: WorkWeek): Date {
+  const step = amount < 0 ? -1 : 1;
+  let current = date;
+  for (let remaining = Math.abs(amount), daysOff = 0; remaining > 0;) {
+    current = addDays(current, step);
+    if (isBusinessDay(current, workWeek)) {
+      remaining--;
+      daysOff = 0;
+    } else if (++daysOff > 366) {
+      throw new Error('No business days within a year');
+    }
+  }
+  return current;
+}
+
+// Moves a day that is not a business day of `workWeek` as `adjustment` says.
+// Throws when no business day lies within a year in the direction searched.
+export function adjustToWorkday(date: Date, adjustment: WeekendAdjustment | null, workWeek: WorkWeek = STANDARD_WORK_WEEK): Date {
+  if (!adjustment || adjustment === 'none' || isBusinessDay(date, workWeek)) return date;
+  switch (adjustment) {
+    case 'nextWorkday':
+      return addBusinessDays(date, 1, workWeek);
+    case 'previousWorkday':
+      return addBusinessDays(date, -1, workWeek);
+    case 'nearest':
+      // A Saturday moves back to Friday and a Sunday on to Monday
+      for (let distance = 1; distance <= 366; distance++) {
+        if (isBusinessDay(addDays(date, distance), workWeek)) return addDays(date, distance);
+        if (isBusinessDay(addDays(date, -distance), workWeek)) return addDays(date, -distance);
+      }
+      throw new Error('No business days within a year');
+  }
+}
+
+export function calculateRelativeDate(
+  baseDate: Date,
+  period: number,
+  unit: RelativeUnit,
+  direction: RelativeDirection,
+  workWeek: WorkWeek = STANDARD_WORK_WEEK
+): Date {
+  const amount = direction === 'before' ? -period : period;
+
+  switch (unit) {
+    case 'days':
+      return addDays(baseDate, amount);
+    case 'businessDays':
+      return addBusinessDays(baseDate, amount, workWeek);
+    case 'weeks':
+      return addDays(baseDate, amount * 7);
+    case 'months':
+      return addMonths(baseDate, amount);
+    case 'years':
+      return addMonths(baseDate, amount * 12);
+    default:
+      throw new Error(`Invalid unit: ${unit}`);
+  }
+}
+
+// The ordinal-th `dayOfWeek` (0-6) before or after `baseDate`, counted from
+// it: 1 for the nearest, 2 for the one a week further. Ordinal 0 is the
+// nearest on or before/after, which is `baseDate` itself when it falls on
+// `dayOfWeek`.
+export function calculateWeekdayDate(
+  baseDate: Date,
+  dayOfWeek: number,
+  ordinal: number,
+  direction: RelativeDirection
+): Date {
+  if (direction === 'before') {
+    const nearest = ordinal === 0
+      ? (baseDate.getDay() - dayOfWeek + 7) % 7
+      : (baseDate.getDay() - dayOfWeek + 6) % 7 + 1;
+    return addDays(baseDate, -(nearest + Math.max(0, ordinal - 1) * 7));
+  }
+  const nearest = ordinal === 0
+    ? (dayOfWeek - baseDate.getDay() + 7) % 7
+    : (dayOfWeek - baseDate.getDay() + 6) % 7 + 1;
+  return addDays(baseDate, nearest + Math.max(0, ordinal - 1) * 7);
+}
+
+// The day a complete relative event falls on when its anchor falls on `anchorDate`
+export function calculateRelativeEventDate(event: Event, anchorDate: Date, workWeek: WorkWeek = STANDARD_WORK_WEEK): Date {
+  if (hasWeekdayTarget(event)) {
+    return calculateWeekdayDate(anchorDate, event.relativeWeekday!, event.relativeWeekdayOrdinal ?? 1, event.relativeDirection!);
+  }
+  return calculateRelativeDate(anchorDate, event.relativePeriod!, event.relativeUnit!, event.relativeDirection!, workWeek);
+}
+
+// Why an event has no date although its pattern is filled in. Event ids
+// identify the event at fault, which may sit further up the anchor chain.
+export type ResolutionProblem =
+  // Anchors lead back to an event already on the chain; the path ends where it started
+  | { type: 'cycle'; path: string[] }
+  | { type: 'missingAnchor'; eventId: string; anchorId: string }
+  // The anchor exists but has no date of its own, e.g. a fixed event without a start date
+  | { type: 'anchorWithoutDate'; eventId: string; anchorId: string }
+  | { type: 'impossibleNth'; eventId: string; nthOccurrence: number; dayOfWeek: number; month: number; year: number }
+  // The recurrence rule cannot be read, or its EXDATEs remove every occurrence
+  | { type: 'invalidRecurrence'; eventId: string; reason: string }
+  // The event counts business days or moves off days off, but its work week
+  // has no business day for a year
+  | { type: 'noBusinessDays'; eventId: string };
+
+export interface EventResolution {
+  date: Date | null;
+  // null when the date resolved, or when the pattern itself is incomplete
+  problem: ResolutionProblem | null;
+}
+
+type EventLookup = (id: string) => Event | undefined;
+
+// Moves a resolved date off the event's days off, as its weekendAdjustment says
+function adjustResolution(event: Event, resolution: EventResolution, workWeeks: WorkWeekLookup): EventResolution {
+  if (!resolution.date) return resolution;
+  try {
+    return { date: adjustToWorkday(resolution.date, event.weekendAdjustment, workWeeks(event)), problem: null };
+  } catch {
+    return { date: null, problem: { type: 'noBusinessDays', eventId: event.id } };
+  }
+}
+
+// Date of a fixed, nth, recurring or easter event, which depends on no other event
+function resolveOwnDate(event: Event): EventResolution {
+  switch (event.dateType) {
+    case 'fixed':
+      return { date: event.startDate ? toCalendarDate(event.startDate) : null, problem: null };
+
+    case 'nth': {
+      if (!hasNthPattern(event)) return { date: null, problem: null };
+      // The first occurrence: the pattern in its first month of the base year
+      const nthOccurrence = event.nthOccurrence!;
+      const dayOfWeek = event.dayOfWeek!;
+      const month = event.nthFrequency === 'selectedMonths' ? event.nthMonths![0] : event.month!;
+      const year = event.baseYear || new Date().getFullYear();
+      try {
+        return { date: calculateNthDate(nthOccurrence, dayOfWeek, month, year), problem: null };
+      } catch {
+        return { date: null, problem: { type: 'impossibleNth', eventId: event.id, nthOccurrence, dayOfWeek, month, year } };
+      }
+    }
+
+    case 'recurring': {
+      if (!event.recurrenceRule) return { date: null, problem: null };
+      try {
+        const date = firstRecurrence(parseRecurrenceRule(event.recurrenceRule));
+        if (date) return { date, problem: null };
+        return { date: null, problem: { type: 'invalidRecurrence', eventId: event.id, reason: 'every occurrence is excluded' } };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { date: null, problem: { type: 'invalidRecurrence', eventId: event.id, reason } };
+      }
+    }
+
+    case 'easter':
+      // The first occurrence, in the base year
+      return { date: easterDates(event)[0], problem: null };
+
+    default:
+      return { date: null, problem: null };
+  }
+}
+
+function hasNthPattern(event: Event): boolean {
+  if (!event.nthOccurrence || event.dayOfWeek === null || event.dayOfWeek === undefined) return false;
+  switch (event.nthFrequency) {
+    case 'selectedMonths': return !!event.nthMonths?.length;
+    case 'weeks': return !!event.month && !!event.nthInterval;
+    default: return !!event.month;
+  }
+}
+
+// First and last year an nth or easter event repeats in
+function yearRange(event: Event): [number, number] {
+  const baseYear = event.baseYear || new Date().getFullYear();
+  return [baseYear, Math.max(baseYear, event.recurUntilYear ?? baseYear)];
+}
+
+// Whether an nth or easter event repeats beyond its base year
+export function recursYearly(event: Event): boolean {
+  if (event.dateType !== 'nth' && event.dateType !== 'easter') return false;
+  const [firstYear, lastYear] = yearRange(event);
+  return lastYear > firstYear;
+}
+
+// Months between occurrences of the frequencies that step through the year
+const MONTH_STEPS = { yearly: 12, quarterly: 3, monthly: 1 } as const;
+
+// Every day a complete nth event falls on, earliest first. Months without
+// the occurrence are skipped.
+function nthDates(event: Event): Date[] {
+  const nthOccurrence = event.nthOccurrence!;
+  const dayOfWeek = event.dayOfWeek!;
+  const [firstYear, lastYear] = yearRange(event);
+  const frequency = event.nthFrequency ?? 'yearly';
+  const dates: Date[] = [];
+  const add = (month: number, year: number) => {
+    try {
+      dates.push(calculateNthDate(nthOccurrence, dayOfWeek, month, year));
+    } catch {
+      // No such occurrence this month
+    }
+  };
+
+  if (frequency === 'weeks') {
+    add(event.month!, firstYear);
+    const lastDay = new Date(lastYear, 11, 31);
+    while (dates.length > 0) {
+      const next = addDays(dates[dates.length - 1], event.nthInterval! * 7);
+      if (next > lastDay) break;
+      dates.push(next);
+    }
+    return dates;
+  }
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    if (frequency === 'selectedMonths') {
+      event.nthMonths!.forEach(month => add(month, year));
+      continue;
+    }
+    const start = event.month!;
+    for (let month = 1; month <= 12; month++) {
+      const inStep = (month - start + 12) % MONTH_STEPS[frequency] === 0;
+      if (inStep && (year > firstYear || month >= start)) add(month, year);
+    }
+  }
+  return dates;
+}
+
+// The day of every year an easter event repeats in, earliest first
+function easterDates(event: Event): Date[] {
+  const [firstYear, lastYear] = yearRange(event);
+  const dates: Date[] = [];
+  for (let year = firstYear; year <= lastYear; year++) {
+    dates.push(addDays(calculateEasterDate(year, event.easterVariant ?? 'western'), event.easterOffset ?? 0));
+  }
+  return dates;
+}
+
+function hasWeekdayTarget(event: Event): boolean {
+  return event.relativeWeekday !== null && event.relativeWeekday !== undefined;
+}
+
+function hasRelativePattern(event: Event): boolean {
+  if (!event.relativeEventId || !event.relativeDirection) return false;
+  return hasWeekdayTarget(event) || !!(event.relativePeriod && event.relativeUnit);
+}
+
+// Date of a complete relative event given its anchor's resolution
+function resolveFromAnchor(event: Event, referenceEvent: Event, reference: EventResolution, workWeeks: WorkWeekLookup): EventResolution {
+  if (!reference.date) {
+    return {
+      date: null,
+      problem: reference.problem ?? { type: 'anchorWithoutDate', eventId: event.id, anchorId: referenceEvent.id },
+    };
+  }
+  try {
+    const date = calculateRelativeEventDate(event, reference.date, workWeeks(event));
+    return adjustResolution(event, { date, problem: null }, workWeeks);
+  } catch {
+    return { date: null, problem: { type: 'noBusinessDays', eventId: event.id } };
+  }
+}
+
+// Follows anchors up from `event` until an event that resolves on its own,
+// then resolves the chain back down. Iterative, as chains can be thousands of
+// events long.
+function resolveChain(event: Event, lookup: EventLookup, workWeeks: WorkWeekLookup): EventResolution {
+  const chain: Event[] = [];
+  const positions = new Map<string, number>();
+  let current = event;
+  let resolution: EventResolution;
+
+  for (;;) {
+    if (current.dateType !== 'relative') {
+      resolution = adjustResolution(current, resolveOwnDate(current), workWeeks);
+      break;
+    }
+    if (!hasRelativePattern(current)) {
+      resolution = { date: null, problem: null };
+      break;
+    }
+    const position = positions.get(current.id);
+    if (position !== undefined) {
+      resolution = { date: null, problem: { type: 'cycle', path: [...chain.slice(position).map(e => e.id), current.id] } };
+      break;
+    }
+    const referenceEvent = lookup(current.relativeEventId!);
+    if (!referenceEvent) {
+      resolution = { date: null, problem: { type: 'missingAnchor', eventId: current.id, anchorId: current.relativeEventId! } };
+      break;
+    }
+    positions.set(current.id, chain.length);
+    chain.push(current);
+    current = referenceEvent;
+  }
+
+  for (let index = chain.length - 1; index >= 0; index--) {
+    resolution = resolveFromAnchor(chain[index], current, resolution, workWeeks);
+    current = chain[index];
+  }
+  return resolution;
+}
+
+// Resolves the day a single event falls on. Relative events resolve against
+// `allEvents`, which should include any trashed anchors, and business-day
+// offsets and weekend adjustments follow each event's work week. To resolve many events, use an
+// EventDateResolver instead.
+export function resolveEventDate(event: Event, allEvents: Event[], workWeeks: WorkWeekLookup = standardWorkWeeks): EventResolution {
+  const eventsById = new Map(allEvents.map(e => [e.id, e]));
+  return resolveChain(event, id => eventsById.get(id), workWeeks);
+}
+
+// The day an event falls on, or null when it cannot be resolved (see resolveEventDate)
+export function calculateEventDate(event: Event, allEvents: Event[], workWeeks: WorkWeekLookup = standardWorkWeeks): Date | null {
+  return resolveEventDate(event, allEvents, workWeeks).date;
+}
+
+// The anchor loop that `event` would close, as ids from the event back to
+// itself (e.g. [a, b, a]), or null. Use it to vet edits before saving them;
+// `event` replaces its stored version in `allEvents`.
+export function findAnchorCycle(event: Pick<Event, 'id' | 'dateType' | 'relativeEventId'>, allEvents: Event[]): string[] | null {
+  const eventsById = new Map(allEvents.map(e => [e.id, e]));
+  const path = [event.id];
+  const onPath = new Set(path);
+  let current = event;
+  while (current.dateType === 'relative' && current.relativeEventId) {
+    const anchorId = current.relativeEventId;
+    if (anchorId === event.id) return [...path, anchorId];
+    // A loop further up the chain that this event does not close
+    if (onPath.has(anchorId)) return null;
+
+    const anchor = eventsById.get(anchorId);
+    if (!anchor) return null;
+    path.push(anchorId);
+    onPath.add(anchorId);
+    current = anchor;
+  }
+  return null;
+}
+
+const UNIT_NAMES: Record<RelativeUnit, string> = {
+  days: 'day', weeks: 'week', months: 'month', years: 'year', businessDays: 'business day',
+};
+const ORDINALS = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Human-readable explanation of a problem, naming events by title
+export function describeResolutionProblem(problem: ResolutionProblem, allEvents: Event[]): string {
+  const title = (id: string) => `"${allEvents.find(e => e.id === id)?.title ?? 'Unknown event'}"`;
+
+  switch (problem.type) {
+    case 'cycle':
+      return `Anchor loop: ${problem.path.map(title).join(' → ')}`;
+    case 'missingAnchor':
+      return `${title(problem.eventId)} refers to an event that no longer exists`;
+    case 'anchorWithoutDate':
+      return `${title(problem.anchorId)} has no date to count from`;
+    case 'impossibleNth':
+      return `There is no ${ORDINALS[problem.nthOccurrence] ?? `${problem.nthOccurrence}th`} ${DAY_NAMES[problem.dayOfWeek]} in ${MONTH_NAMES[problem.month - 1]} ${problem.year}`;
+    case 'invalidRecurrence':
+      return `${title(problem.eventId)} has an unusable recurrence rule: ${problem.reason}`;
+    case 'noBusinessDays':
+      return `${title(problem.eventId)} needs a business day, but its work calendar has none within a year`;
+  }
+}
+
+// "March", "March and June", "March, June and September"
+function joinWords(words: string[]): string {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words.join('');
+}
+
+// e.g. "2026-12-24", "December 25" or "fourth Thursday of November", after
+// the holiday's name when it has one
+export function describeHolidayRule(rule: HolidayRule): string {
+  let when: string;
+  switch (rule.type) {
+    case 'date':
+      when = rule.date;
+      break;
+    case 'annual':
+      when = `${MONTH_NAMES[rule.month - 1]} ${rule.day}`;
+      break;
+    case 'nth':
+      when = `${rule.nthOccurrence === -1 ? 'last' : ORDINALS[rule.nthOccurrence]} ${DAY_NAMES[rule.dayOfWeek]} of ${MONTH_NAMES[rule.month - 1]}`;
+      break;
+  }
+  return rule.name ? `${rule.name}: ${when}` : when;
+}
+
+const ADJUSTMENT_TARGETS: Record<Exclude<WeekendAdjustment, 'none'>, string> = {
+  nextWorkday: 'the next business day',
+  previousWorkday: 'the previous business day',
+  nearest: 'the nearest business day',
+};
+
+// The rule an event's date follows, e.g. "last Friday of December 2025",
+// "3 days before Holiday Party" or "July 4 2026, or the nearest business day
+// when that is a day off"
+export function describeDateRule(event: Event, anchorTitle: string | null = null): string {
+  const pattern = describePattern(event, anchorTitle);
+  const adjustment = event.weekendAdjustment;
+  return adjustment && adjustment !== 'none' ? `${pattern}, or ${ADJUSTMENT_TARGETS[adjustment]} when that is a day off` : pattern;
+}
+
+function describePattern(event: Event, anchorTitle: string | null): string {
+  switch (event.dateType) {
+    case 'fixed': {
+      if (!event.startDate) return 'no date set';
+      const start = formatCalendarDate(toCalendarDate(event.startDate));
+      const end = event.endDate ? formatCalendarDate(toCalendarDate(event.endDate)) : start;
+      return end === start ? `fixed date ${start}` : `fixed dates ${start} to ${end}`;
+    }
+    case 'nth': {
+      if (!hasNthPattern(event)) return 'incomplete nth pattern';
+      const occurrence = event.nthOccurrence === -1 ? 'last' : ORDINALS[event.nthOccurrence!] ?? `${event.nthOccurrence}th`;
+      const weekday = `${occurrence} ${DAY_NAMES[event.dayOfWeek!]}`;
+      const [firstYear, lastYear] = yearRange(event);
+      const start = `${MONTH_NAMES[(event.month ?? 1) - 1]} ${firstYear}`;
+      const everyYear = lastYear > firstYear ? `, every year through ${lastYear}` : '';
+
+      switch (event.nthFrequency ?? 'yearly') {
+        case 'monthly':
+          return `${weekday} of every month from ${start} through December ${lastYear}`;
+        case 'quarterly':
+          return `${weekday} of every third month from ${start} through December ${lastYear}`;
+        case 'selectedMonths':
+          return `${weekday} of ${joinWords(event.nthMonths!.map(month => MONTH_NAMES[month - 1]))} ${firstYear}${everyYear}`;
+        case 'weeks': {
+          const every = event.nthInterval === 1 ? 'week' : `${event.nthInterval} weeks`;
+          return `every ${every} on ${DAY_NAMES[event.dayOfWeek!]} from the ${weekday} of ${start} through December ${lastYear}`;
+        }
+        default:
+          return `${weekday} of ${start}${everyYear}`;
+      }
+    }
+    case 'relative': {
+      if (!hasRelativePattern(event)) return 'incomplete relative pattern';
+      const anchor = anchorTitle ?? 'a missing event';
+      if (hasWeekdayTarget(event)) {
+        // e.g. "first Monday after Launch Day", "last Friday before Board Meeting" or "Monday on or after Launch Day"
+        const weekday = DAY_NAMES[event.relativeWeekday!];
+        const ordinal = event.relativeWeekdayOrdinal ?? 1;
+        if (ordinal === 0) return `${weekday} on or ${event.relativeDirection} ${anchor}`;
+        const position = ordinal === 1 && event.relativeDirection === 'before' ? 'last' : ORDINALS[ordinal];
+        return `${position} ${weekday} ${event.relativeDirection} ${anchor}`;
+      }
+      const unit = UNIT_NAMES[event.relativeUnit!];
+      return `${event.relativePeriod} ${event.relativePeriod === 1 ? unit : `${unit}s`} ${event.relativeDirection} ${anchor}`;
+    }
+    case 'recurring': {
+      if (!event.recurrenceRule) return 'no recurrence rule';
+      try {
+        return describeRecurrence(parseRecurrenceRule(event.recurrenceRule));
+      } catch {
+        return 'unreadable recurrence rule';
+      }
+    }
+    case 'easter': {
+      const [firstYear, lastYear] = yearRange(event);
+      const easter = `${event.easterVariant === 'orthodox' ? 'Orthodox' : 'Western'} Easter ${firstYear}`;
+      const offset = event.easterOffset ?? 0;
+      const days = Math.abs(offset) === 1 ? '1 day' : `${Math.abs(offset)} days`;
+      const day = offset === 0 ? easter : `${days} ${offset < 0 ? 'before' : 'after'} ${easter}`;
+      return lastYear > firstYear ? `${day}, every year through ${lastYear}` : day;
+    }
+    default:
+      return 'unknown date type';
+  }
+}
+
+// One event on the way from an event up to the root of its anchor chain
+export interface ResolutionStep {
+  eventId: string;
+  title: string;
+  rule: string;
+  date: string | null; // YYYY-MM-DD this event resolves to
+  trashed: boolean;
+}
+
+export interface ResolutionExplanation {
+  eventId: string;
+  date: string | null;
+  problem: ResolutionProblem | null;
+  message: string | null; // readable problem
+  // The event itself first, then each anchor up to a fixed or nth event
+  steps: ResolutionStep[];
+  // e.g. "3 days before Holiday Party → Holiday Party = last Friday of December 2025 → 2025-12-26 → 2025-12-23"
+  summary: string;
+}
+
+// How an event's date was derived. `resolver` must hold the event's anchors,
+// trashed ones included.
+export function explainEventDate(event: Event, resolver: EventDateResolver): ResolutionExplanation {
+  const steps: ResolutionStep[] = [];
+  const visited = new Set<string>();
+  let current: Event | undefined = event;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    const anchor: Event | undefined = current.dateType === 'relative' && current.relativeEventId
+      ? resolver.getEvent(current.relativeEventId)
+      : undefined;
+    const date = resolver.has(current.id) ? resolver.getDate(current.id) : resolveEventDate(current, []).date;
+
+    steps.push({
+      eventId: current.id,
+      title: current.title,
+      rule: describeDateRule(current, anchor?.title ?? null),
+      date: date && formatCalendarDate(date),
+      trashed: !!current.deletedAt,
+    });
+    current = anchor;
+  }
+
+  const resolution = resolver.has(event.id) ? resolver.resolve(event.id) : resolveEventDate(event, []);
+  const rules = steps.map((step, index) => index === 0 ? step.rule : `${step.title} = ${step.rule}`);
+  // Dates from the root anchor back down to the event
+  const dates = steps.map(step => step.date).reverse();
+  const summary = (resolution.date ? [...rules, ...dates] : rules).join(' → ');
+
+  return {
+    eventId: event.id,
+    date: resolution.date && formatCalendarDate(resolution.date),
+    problem: resolution.problem,
+    message: resolution.problem && describeResolutionProblem(resolution.problem, resolver.getEvents()),
+    steps,
+    summary,
+  };
+}
+
+export interface EventSpan {
+  start: Date;
+  end: Date; // last day, inclusive
+}
+
+function spanFrom(event: Event, start: Date | null): EventSpan | null {
+  if (!start) return null;
+
+  // Only fixed events span more than one day
+  const end = event.dateType === 'fixed' && event.endDate ? toCalendarDate(event.endDate) : start;
+  return { start, end: end < start ? start : end };
+}
+
+// Whether a span has a day within from..to; a missing bound is open
+export function spanOverlaps(span: EventSpan, from: Date | null, to: Date | null): boolean {
+  return (!to || span.start <= to) && (!from || span.end >= from);
+}
+
+// First and last day of an event
+export function calculateEventSpan(event: Event, allEvents: Event[], workWeeks: WorkWeekLookup = standardWorkWeeks): EventSpan | null {
+  return spanFrom(event, calculateEventDate(event, allEvents, workWeeks));
+}
+
+// Resolves a whole set of events at once. The anchor graph is indexed once
+// and walked in topological order, so every event is resolved exactly once
+// from its anchor's cached result instead of re-walking its chain. After a
+// change, update() and remove() re-resolve only the events downstream of it.
+export class EventDateResolver {
+  private readonly events = new Map<string, Event>();
+  // Anchor id -> ids of the relative events anchored to it, whether or not the anchor exists
+  private readonly dependents = new Map<string, Set<string>>();
+  private readonly resolutions = new Map<string, EventResolution>();
+  // Filled in lazily by getOccurrences() and dropped whenever the event is re-resolved
+  private readonly occurrences = new Map<string, EventSpan[]>();
+  // Why some of an event's occurrences were left out, filled in alongside `occurrences`
+  private readonly occurrenceProblems = new Map<string, ResolutionProblem>();
+
+  // `events` should include trashed events so that their dependents still
+  // resolve; business-day offsets and weekend adjustments follow each event's
+  // work week
+  constructor(events: Event[], private readonly workWeeks: WorkWeekLookup = standardWorkWeeks) {
+    for (const event of events) {
+      this.events.set(event.id, event);
+      this.link(event);
+    }
+    this.resolveInOrder(this.events.keys());
+  }
+
+  has(id: string): boolean {
+    return this.events.has(id);
+  }
+
+  getEvent(id: string): Event | undefined {
+    return this.events.get(id);
+  }
+
+  getEvents(): Event[] {
+    return Array.from(this.events.values());
+  }
+
+  resolve(id: string): EventResolution {
+    return this.resolutions.get(id) ?? { date: null, problem: null };
+  }
+
+  getDate(id: string): Date | null {
+    return this.resolve(id).date;
+  }
+
+  getSpan(id: string): EventSpan | null {
+    const event = this.events.get(id);
+    return event ? spanFrom(event, this.getDate(id)) : null;
+  }
+
+  // Every span the event falls on, by start date: one per occurrence of an
+  // nth event's pattern or a recurring event's rule, one per year of an easter
+  // event, one per occurrence of the anchor for a relative event, and none
+  // when the event has no date
+  getOccurrences(id: string): EventSpan[] {
+    // Relative events repeat their anchor's occurrences, so collect the
+    // uncached chain above `id` and fill it in from the top. An event with a
+    // span has a resolved anchor, so the walk cannot loop.
+    const chain = [id];
+    for (;;) {
+      const event = this.events.get(chain[chain.length - 1]);
+      const anchorId = event && event.dateType === 'relative' && this.getSpan(event.id) ? this.anchorOf(event) : null;
+      if (!anchorId || this.occurrences.has(anchorId)) break;
+      chain.push(anchorId);
+    }
+
+    for (let index = chain.length - 1; index >= 0; index--) {
+      if (!this.occurrences.has(chain[index])) this.occurrences.set(chain[index], this.computeOccurrences(chain[index]));
+    }
+    return this.occurrences.get(id)!;
+  }
+
+  // Why getOccurrences(id) left out some of the event's occurrences, e.g. a
+  // business-day offset that finds no business day in a later year
+  getOccurrenceProblem(id: string): ResolutionProblem | null {
+    this.getOccurrences(id);
+    return this.occurrenceProblems.get(id) ?? null;
+  }
+
+  // Adds or replaces an event; returns the ids that were re-resolved
+  update(event: Event): string[] {
+    const previous = this.events.get(event.id);
+    if (previous) this.unlink(previous);
+    this.events.set(event.id, event);
+    this.link(event);
+    return this.refresh(event.id);
+  }
+
+  // Drops an event, leaving its dependents with a missing anchor; returns the
+  // ids that were re-resolved
+  remove(id: string): string[] {
+    const previous = this.events.get(id);
+    if (!previous) return [];
+    this.unlink(previous);
+    this.events.delete(id);
+    this.resolutions.delete(id);
+    this.forgetOccurrences(id);
+    return this.refresh(id);
+  }
+
+  private anchorOf(event: Event): string | null {
+    return event.dateType === 'relative' ? event.relativeEventId : null;
+  }
+
+  private link(event: Event): void {
+    const anchorId = this.anchorOf(event);
+    if (!anchorId) return;
+    let dependents = this.dependents.get(anchorId);
+    if (!dependents) {
+      dependents = new Set();
+      this.dependents.set(anchorId, dependents);
+    }
+    dependents.add(event.id);
+  }
+
+  private unlink(event: Event): void {
+    const anchorId = this.anchorOf(event);
+    if (anchorId) this.dependents.get(anchorId)?.delete(event.id);
+  }
+
+  // Re-resolves `id` and everything anchored to it, directly or not
+  private refresh(id: string): string[] {
+    const affected = new Set([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      this.dependents.get(queue.pop()!)?.forEach(dependent => {
+        if (!affected.has(dependent)) {
+          affected.add(dependent);
+          queue.push(dependent);
+        }
+      });
+    }
+    // A removed event stays reachable through its dependents' links
+    affected.forEach(affectedId => {
+      if (!this.events.has(affectedId)) affected.delete(affectedId);
+    });
+    this.resolveInOrder(affected.keys());
+    return Array.from(affected);
+  }
+
+  // Resolves the given events, anchors before their dependents. Every event
+  // has at most one anchor, so an event is ready as soon as its anchor is
+  // resolved or lies outside the set. Incomplete relative events resolve
+  // without their anchor and are ready straight away.
+  private resolveInOrder(ids: Iterable<string>): void {
+    const pending = new Set(ids);
+    const ready: string[] = [];
+    pending.forEach(id => {
+      this.forgetOccurrences(id);
+      const anchorId = this.waitsFor(this.events.get(id)!);
+      if (!anchorId || !pending.has(anchorId)) ready.push(id);
+    });
+    this.resolveReady(pending, ready);
+
+    // Whatever is left sits on an anchor loop or downstream of one. Following
+    // anchors up from a leftover event comes back to an event of the walk,
+    // which closes the loop; its members all get the same cycle problem and
+    // everything downstream resolves from them. Each walk resolves every
+    // event it passed, so no event is walked twice.
+    pending.forEach(start => {
+      if (!pending.has(start)) return;
+      const walk = new Map<string, number>();
+      let id = start;
+      while (!walk.has(id)) {
+        walk.set(id, walk.size);
+        id = this.waitsFor(this.events.get(id)!)!;
+      }
+
+      const loop = Array.from(walk.keys()).slice(walk.get(id));
+      const problem: ResolutionProblem = { type: 'cycle', path: [...loop, id] };
+      loop.forEach(member => {
+        pending.delete(member);
+        this.resolutions.set(member, { date: null, problem });
+      });
+      loop.forEach(member => this.queueDependents(member, pending, ready));
+      this.resolveReady(pending, ready);
+    });
+  }
+
+  // Resolves the ready events and, as they resolve, the pending events
+  // anchored to them
+  private resolveReady(pending: Set<string>, ready: string[]): void {
+    while (ready.length > 0) {
+      const id = ready.pop()!;
+      pending.delete(id);
+      this.resolutions.set(id, this.resolveOne(this.events.get(id)!));
+      this.queueDependents(id, pending, ready);
+    }
+  }
+
+  private queueDependents(id: string, pending: Set<string>, ready: string[]): void {
+    this.dependents.get(id)?.forEach(dependent => {
+      if (pending.has(dependent)) ready.push(dependent);
+    });
+  }
+
+  // The anchor an event's resolution depends on
+  private waitsFor(event: Event): string | null {
+    return hasRelativePattern(event) ? this.anchorOf(event) : null;
+  }
+
+  private forgetOccurrences(id: string): void {
+    this.occurrences.delete(id);
+    this.occurrenceProblems.delete(id);
+  }
+
+  // getOccurrences() for an event whose anchor's occurrences are cached
+  private computeOccurrences(id: string): EventSpan[] {
+    const event = this.events.get(id);
+    const span = this.getSpan(id);
+    if (!event || !span) return [];
+
+    const anchorId = this.anchorOf(event);
+    if (event.dateType === 'nth') {
+      return this.spansOn(event, nthDates(event));
+    }
+    if (event.dateType === 'easter') {
+      return this.spansOn(event, easterDates(event));
+    }
+    if (event.dateType === 'recurring') {
+      // The rule parsed, or this event would have no span
+      return this.spansOn(event, expandRecurrence(parseRecurrenceRule(event.recurrenceRule!)));
+    }
+    if (anchorId) {
+      // The anchor resolved, or this event would have no span
+      const workWeek = this.workWeeks(event);
+      const anchorDays = this.occurrences.get(anchorId)!.map(anchorSpan => anchorSpan.start);
+      return this.spansOn(event, anchorDays, anchorDay => calculateRelativeEventDate(event, anchorDay, workWeek));
+    }
+    return [span];
+  }
+
+  // The event's spans on `days`, each day first mapped through `dateOf` and
+  // moved off days off as the event asks. Each occurrence is counted on its
+  // own, so one that finds no business day is left out with a problem instead
+  // of losing the rest.
+  private spansOn(event: Event, days: Date[], dateOf: (day: Date) => Date = day => day): EventSpan[] {
+    const workWeek = this.workWeeks(event);
+    return days.flatMap(day => {
+      try {
+        return [spanFrom(event, adjustToWorkday(dateOf(day), event.weekendAdjustment, workWeek))!];
+      } catch {
+        this.occurrenceProblems.set(event.id, { type: 'noBusinessDays', eventId: event.id });
+        return [];
+      }
+    });
+  }
+
+  private resolveOne(event: Event): EventResolution {
+    if (event.dateType !== 'relative') return adjustResolution(event, resolveOwnDate(event), this.workWeeks);
+    if (!hasRelativePattern(event)) return { date: null, problem: null };
+
+    const referenceEvent = this.events.get(event.relativeEventId!);
+    if (!referenceEvent) {
+      return { date: null, problem: { type: 'missingAnchor', eventId: event.id, anchorId: event.relativeEventId! } };
+    }
+    return resolveFromAnchor(event, referenceEvent, this.resolve(referenceEvent.id), this.workWeeks);
+  }
+}
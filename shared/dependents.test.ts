@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import type { Event } from "./schema";
+import { findDependents } from "./dependents";
+
+function makeEvent(id: string, dateType: Event['dateType'], relativeEventId: string | null): Event {
+  return { id, dateType, relativeEventId } as Event;
+}
+
+describe('findDependents', () => {
+  it('follows relative events breadth-first', () => {
+    const events = [
+      makeEvent('a', 'fixed', null),
+      makeEvent('c', 'relative', 'b'),
+      makeEvent('b', 'relative', 'a'),
+      makeEvent('d', 'relative', 'a'),
+    ];
+    expect(findDependents('a', events).map(event => event.id)).toEqual(['b', 'd', 'c']);
+  });
+
+  it('ignores anchors left on events of other types', () => {
+    const events = [
+      makeEvent('a', 'fixed', null),
+      makeEvent('b', 'fixed', 'a'),
+      makeEvent('c', 'relative', 'b'),
+      makeEvent('d', 'recurring', 'a'),
+    ];
+    expect(findDependents('a', events)).toEqual([]);
+    expect(findDependents('b', events).map(event => event.id)).toEqual(['c']);
+  });
+
+  it('walks long chains in linear time', () => {
+    const events = Array.from({ length: 20000 }, (_, index) =>
+      makeEvent(`e${index}`, index === 0 ? 'fixed' : 'relative', index === 0 ? null : `e${index - 1}`));
+    const started = performance.now();
+    expect(findDependents('e0', events)).toHaveLength(19999);
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+});
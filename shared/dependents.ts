@@ -0,0 +1,29 @@
+import type { Event } from "./schema";
+
+// Events whose date resolves through the event `id`: relative events anchored
+// to it, then events anchored to those, in breadth-first order. Events of
+// other date types are never dependents, whatever relativeEventId they carry.
+export function findDependents(id: string, events: Event[]): Event[] {
+  const byAnchor = new Map<string, Event[]>();
+  for (const event of events) {
+    if (event.dateType !== 'relative' || !event.relativeEventId) continue;
+    const siblings = byAnchor.get(event.relativeEventId);
+    if (siblings) siblings.push(event);
+    else byAnchor.set(event.relativeEventId, [event]);
+  }
+
+  const dependents: Event[] = [];
+  const seen = new Set([id]);
+  const queue = [id];
+
+  // Walk the queue by index; shift() would make long chains quadratic
+  for (let next = 0; next < queue.length; next++) {
+    for (const event of byAnchor.get(queue[next]) ?? []) {
+      if (seen.has(event.id)) continue;
+      seen.add(event.id);
+      dependents.push(event);
+      queue.push(event.id);
+    }
+  }
+  return dependents;
+}
@@ -0,0 +1,209 @@
+import type { Event, InsertEvent, WeekendAdjustment } from "./schema";
+import { addDays, calculateEasterDate, calculateNthDate, describeHolidayRule, formatCalendarDate } from "./date-resolver";
+import { formatRecurrenceRule, type RecurrenceRule } from "./recurrence";
+
+// Built-in public holidays, computed offline from rules. Dates are the
+// holidays themselves. Where a holiday on a weekend gives a day off on a
+// weekday instead, the pack's observance says which one; installed with
+// `observed`, its events carry it as their weekend adjustment and fall on the
+// day off. The adjustment only skips the work calendar's days off, so two
+// holidays moved off the same weekend (Christmas and Boxing Day) land on
+// separate days only when the work calendar lists the first of them.
+
+// How a pack holiday's date is found in a given year
+export type PackHolidayRule =
+  // The same month and day every year
+  | { type: 'fixed'; month: number; day: number }
+  // The nth (1-4) or last (-1) weekday of a month
+  | { type: 'nth'; nthOccurrence: number; dayOfWeek: number; month: number }
+  // The last given weekday before a day, e.g. the Monday before May 25
+  | { type: 'weekdayBefore'; dayOfWeek: number; month: number; day: number }
+  // Days from Easter Sunday, e.g. -2 for Good Friday
+  | { type: 'easter'; offset: number };
+
+export interface PackHoliday {
+  id: string; // unique within its pack
+  name: string;
+  rule: PackHolidayRule;
+}
+
+export interface HolidayPack {
+  id: string;
+  name: string;
+  // Where a holiday on a weekend is observed
+  observance: WeekendAdjustment;
+  holidays: PackHoliday[];
+}
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+export const HOLIDAY_PACKS: HolidayPack[] = [
+  {
+    id: 'us-federal',
+    name: 'US federal holidays',
+    observance: 'nearest',
+    holidays: [
+      { id: 'new-years-day', name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 } },
+      { id: 'martin-luther-king-jr-day', name: 'Martin Luther King Jr. Day', rule: { type: 'nth', nthOccurrence: 3, dayOfWeek: MONDAY, month: 1 } },
+      { id: 'washingtons-birthday', name: "Washington's Birthday", rule: { type: 'nth', nthOccurrence: 3, dayOfWeek: MONDAY, month: 2 } },
+      { id: 'memorial-day', name: 'Memorial Day', rule: { type: 'nth', nthOccurrence: -1, dayOfWeek: MONDAY, month: 5 } },
+      { id: 'juneteenth', name: 'Juneteenth National Independence Day', rule: { type: 'fixed', month: 6, day: 19 } },
+      { id: 'independence-day', name: 'Independence Day', rule: { type: 'fixed', month: 7, day: 4 } },
+      { id: 'labor-day', name: 'Labor Day', rule: { type: 'nth', nthOccurrence: 1, dayOfWeek: MONDAY, month: 9 } },
+      { id: 'columbus-day', name: 'Columbus Day', rule: { type: 'nth', nthOccurrence: 2, dayOfWeek: MONDAY, month: 10 } },
+      { id: 'veterans-day', name: 'Veterans Day', rule: { type: 'fixed', month: 11, day: 11 } },
+      { id: 'thanksgiving-day', name: 'Thanksgiving Day', rule: { type: 'nth', nthOccurrence: 4, dayOfWeek: THURSDAY, month: 11 } },
+      { id: 'christmas-day', name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 } },
+    ],
+  },
+  {
+    id: 'uk-bank',
+    name: 'UK bank holidays (England and Wales)',
+    observance: 'nextWorkday',
+    holidays: [
+      { id: 'new-years-day', name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 } },
+      { id: 'good-friday', name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+      { id: 'easter-monday', name: 'Easter Monday', rule: { type: 'easter', offset: 1 } },
+      { id: 'early-may-bank-holiday', name: 'Early May bank holiday', rule: { type: 'nth', nthOccurrence: 1, dayOfWeek: MONDAY, month: 5 } },
+      { id: 'spring-bank-holiday', name: 'Spring bank holiday', rule: { type: 'nth', nthOccurrence: -1, dayOfWeek: MONDAY, month: 5 } },
+      { id: 'summer-bank-holiday', name: 'Summer bank holiday', rule: { type: 'nth', nthOccurrence: -1, dayOfWeek: MONDAY, month: 8 } },
+      { id: 'christmas-day', name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 } },
+      { id: 'boxing-day', name: 'Boxing Day', rule: { type: 'fixed', month: 12, day: 26 } },
+    ],
+  },
+  {
+    id: 'ca-statutory',
+    name: 'Canadian statutory holidays (federal)',
+    observance: 'nextWorkday',
+    holidays: [
+      { id: 'new-years-day', name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 } },
+      { id: 'good-friday', name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+      { id: 'victoria-day', name: 'Victoria Day', rule: { type: 'weekdayBefore', dayOfWeek: MONDAY, month: 5, day: 25 } },
+      { id: 'canada-day', name: 'Canada Day', rule: { type: 'fixed', month: 7, day: 1 } },
+      { id: 'labour-day', name: 'Labour Day', rule: { type: 'nth', nthOccurrence: 1, dayOfWeek: MONDAY, month: 9 } },
+      { id: 'truth-and-reconciliation-day', name: 'National Day for Truth and Reconciliation', rule: { type: 'fixed', month: 9, day: 30 } },
+      { id: 'thanksgiving', name: 'Thanksgiving', rule: { type: 'nth', nthOccurrence: 2, dayOfWeek: MONDAY, month: 10 } },
+      { id: 'remembrance-day', name: 'Remembrance Day', rule: { type: 'fixed', month: 11, day: 11 } },
+      { id: 'christmas-day', name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 } },
+      { id: 'boxing-day', name: 'Boxing Day', rule: { type: 'fixed', month: 12, day: 26 } },
+    ],
+  },
+];
+
+// Pack holidays are referred to as "<pack id>:<holiday id>", e.g. "us-federal:labor-day"
+export function packHolidayKey(pack: HolidayPack, holiday: PackHoliday): string {
+  return `${pack.id}:${holiday.id}`;
+}
+
+// Installed holidays are recognized by their title and the pack's tag
+export function isPackHolidayEvent(event: Event, pack: HolidayPack, holiday: PackHoliday): boolean {
+  return event.title === holiday.name && event.tags.includes(pack.id);
+}
+
+export function findPackHoliday(key: string): { pack: HolidayPack; holiday: PackHoliday } | undefined {
+  const [packId, holidayId] = key.trim().toLowerCase().split(':');
+  const pack = HOLIDAY_PACKS.find(candidate => candidate.id === packId);
+  const holiday = pack?.holidays.find(candidate => candidate.id === holidayId);
+  return pack && holiday ? { pack, holiday } : undefined;
+}
+
+export function calculatePackHolidayDate(rule: PackHolidayRule, year: number): Date {
+  switch (rule.type) {
+    case 'fixed':
+      return new Date(year, rule.month - 1, rule.day);
+    case 'nth':
+      return calculateNthDate(rule.nthOccurrence, rule.dayOfWeek, rule.month, year);
+    case 'weekdayBefore': {
+      const dayBefore = new Date(year, rule.month - 1, rule.day - 1);
+      return addDays(dayBefore, -((dayBefore.getDay() - rule.dayOfWeek + 7) % 7));
+    }
+    case 'easter':
+      return addDays(calculateEasterDate(year), rule.offset);
+  }
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// e.g. "July 4", "fourth Thursday of November" or "2 days before Easter Sunday"
+export function describePackHolidayRule(rule: PackHolidayRule): string {
+  switch (rule.type) {
+    case 'fixed':
+      return describeHolidayRule({ type: 'annual', month: rule.month, day: rule.day });
+    case 'nth':
+      return describeHolidayRule(rule);
+    case 'weekdayBefore':
+      return `${DAY_NAMES[rule.dayOfWeek]} before ${describeHolidayRule({ type: 'annual', month: rule.month, day: rule.day })}`;
+    case 'easter': {
+      if (rule.offset === 0) return 'Easter Sunday';
+      const days = Math.abs(rule.offset) === 1 ? '1 day' : `${Math.abs(rule.offset)} days`;
+      return `${days} ${rule.offset < 0 ? 'before' : 'after'} Easter Sunday`;
+    }
+  }
+}
+
+// The event that installing a pack holiday creates, repeating every year from
+// fromYear through toYear: nth and easter holidays as events of their date
+// type, fixed ones as a yearly recurrence rule, and the rest as a recurrence
+// listing each year's date. Observed events move off weekends as the pack does.
+export function packHolidayEvent(pack: HolidayPack, holiday: PackHoliday, fromYear: number, toYear: number, observed = false): InsertEvent {
+  const base = {
+    title: holiday.name,
+    description: `${pack.name}: ${describePackHolidayRule(holiday.rule)}`,
+    category: 'Holiday',
+    tags: [pack.id],
+    weekendAdjustment: observed ? pack.observance : null,
+  };
+
+  if (holiday.rule.type === 'nth') {
+    return {
+      ...base,
+      dateType: 'nth',
+      startDate: null,
+      endDate: null,
+      nthOccurrence: holiday.rule.nthOccurrence,
+      dayOfWeek: holiday.rule.dayOfWeek,
+      month: holiday.rule.month,
+      baseYear: fromYear,
+      recurUntilYear: toYear > fromYear ? toYear : null,
+      nthFrequency: 'yearly',
+    };
+  }
+
+  if (holiday.rule.type === 'easter') {
+    return {
+      ...base,
+      dateType: 'easter',
+      startDate: null,
+      endDate: null,
+      easterVariant: 'western',
+      easterOffset: holiday.rule.offset,
+      baseYear: fromYear,
+      recurUntilYear: toYear > fromYear ? toYear : null,
+    };
+  }
+
+  const years = Array.from({ length: toYear - fromYear + 1 }, (_, index) => fromYear + index);
+  const [start, ...rest] = years.map(year => calculatePackHolidayDate(holiday.rule, year));
+  const yearly = holiday.rule.type === 'fixed' && years.length > 1;
+  const rule: RecurrenceRule = {
+    start,
+    frequency: yearly ? 'YEARLY' : null,
+    interval: 1,
+    count: null,
+    until: yearly ? new Date(toYear, 11, 31) : null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 1,
+    exDates: [],
+    rDates: yearly ? [] : rest,
+  };
+  return { ...base, dateType: 'recurring', startDate: null, endDate: null, recurrenceRule: formatRecurrenceRule(rule) };
+}
+
+// A pack holiday's date in `year`, as listed by GET /api/holiday-packs
+export function packHolidayDay(holiday: PackHoliday, year: number): string {
+  return formatCalendarDate(calculatePackHolidayDate(holiday.rule, year));
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { escapeICSText, foldICSLine, joinICSLines } from "./ics";
+
+describe('escapeICSText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeICSText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldICSLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldICSLine('SUMMARY:Board meeting')).toBe('SUMMARY:Board meeting');
+  });
+
+  it('folds at 75 octets with a leading space on each continuation', () => {
+    const folded = foldICSLine(`DESCRIPTION:${'x'.repeat(200)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.map(line => line.length)).toEqual([75, 75, 64]);
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, index) => index === 0 ? line : line.slice(1)).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+
+  it('counts octets and keeps multi-byte characters whole', () => {
+    const lines = foldICSLine(`SUMMARY:${'é'.repeat(40)}`).split('\r\n');
+    const encoder = new TextEncoder();
+    expect(lines.every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(lines[0]).toBe(`SUMMARY:${'é'.repeat(33)}`);
+  });
+});
+
+describe('joinICSLines', () => {
+  it('joins folded lines with CRLF', () => {
+    expect(joinICSLines(['BEGIN:VCALENDAR', `X:${'y'.repeat(80)}`, 'END:VCALENDAR']))
+      .toBe(`BEGIN:VCALENDAR\r\nX:${'y'.repeat(73)}\r\n ${'y'.repeat(7)}\r\nEND:VCALENDAR`);
+  });
+});
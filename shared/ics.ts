@@ -0,0 +1,40 @@
+// Helpers for writing iCalendar (RFC 5545) documents, shared by the server's
+// export endpoints and the client's download
+
+// Escapes a TEXT value such as SUMMARY or DESCRIPTION. Line breaks become \n;
+// a CR of a CRLF pair is dropped.
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n|\r/g, '\\n');
+}
+
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+// Splits a content line into lines of at most 75 octets, each continuation
+// starting with a space. Never splits a UTF-8 character.
+export function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(part);
+      part = ' ';
+      octets = 1;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n');
+}
+
+// Joins content lines into a document, folding each one
+export function joinICSLines(lines: string[]): string {
+  return lines.map(foldICSLine).join('\r\n');
+}
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  RecurrenceRuleError,
+  assertRecurrenceHasDays,
+  describeRecurrence,
+  expandRecurrence,
+  firstRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from "./recurrence";
+
+function days(text: string, limit?: number): string[] {
+  return expandRecurrence(parseRecurrenceRule(text), limit).map(date => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  });
+}
+
+describe('parseRecurrenceRule', () => {
+  it('round-trips through formatRecurrenceRule', () => {
+    const text = 'DTSTART;VALUE=DATE:20260102\nRRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=10;BYDAY=FR\nEXDATE;VALUE=DATE:20260130';
+    expect(formatRecurrenceRule(parseRecurrenceRule(text))).toBe(text);
+  });
+
+  it('accepts space-separated lines and a bare RRULE', () => {
+    const rule = parseRecurrenceRule('DTSTART:20260102T090000Z FREQ=DAILY;COUNT=3');
+    expect(rule.frequency).toBe('DAILY');
+    expect(rule.count).toBe(3);
+  });
+
+  it('rejects impossible dates and unsupported parts', () => {
+    expect(() => parseRecurrenceRule('DTSTART:20260230')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('DTSTART:20270229')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=HOURLY')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=DAILY;COUNT=2;UNTIL=20260110')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=WEEKLY;BYDAY=1MO')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('RRULE:FREQ=DAILY')).toThrow('DTSTART is required');
+  });
+
+  it('brings UNTIL back to the expansion horizon', () => {
+    expect(formatRecurrenceRule(parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=DAILY;UNTIL=99991231')))
+      .toBe('DTSTART;VALUE=DATE:20260101\nRRULE:FREQ=DAILY;UNTIL=20761231');
+  });
+
+  it('accepts leap days in leap years', () => {
+    expect(parseRecurrenceRule('DTSTART:20280229').start.getDate()).toBe(29);
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('skips months too short for the start day', () => {
+    expect(days('DTSTART:20260131 RRULE:FREQ=MONTHLY;COUNT=4')).toEqual(['2026-01-31', '2026-03-31', '2026-05-31', '2026-07-31']);
+  });
+
+  it('counts negative month days from the end of each month', () => {
+    expect(days('DTSTART:20260131 RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=4'))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(days('DTSTART:20280131 RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=2')).toEqual(['2028-01-31', '2028-02-29']);
+    expect(days('DTSTART:20260101 RRULE:FREQ=MONTHLY;BYMONTHDAY=-31;COUNT=3'))
+      .toEqual(['2026-01-01', '2026-03-01', '2026-05-01']);
+  });
+
+  it('finds the last weekday of the month with -1', () => {
+    expect(days('DTSTART:20260130 RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')).toEqual(['2026-01-30', '2026-02-27', '2026-03-27']);
+    expect(days('DTSTART:20260130 RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3'))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-31']);
+  });
+
+  it('repeats leap days only in leap years', () => {
+    expect(days('DTSTART:20240229 RRULE:FREQ=YEARLY;COUNT=3')).toEqual(['2024-02-29', '2028-02-29', '2032-02-29']);
+    expect(days('DTSTART:20240229 RRULE:FREQ=YEARLY;UNTIL=20300101')).toEqual(['2024-02-29', '2028-02-29']);
+  });
+
+  it('counts numbered weekdays within the year for YEARLY rules', () => {
+    // The 20th Monday of the year
+    expect(days('DTSTART:20260518 RRULE:FREQ=YEARLY;BYDAY=20MO;COUNT=2')).toEqual(['2026-05-18', '2027-05-17']);
+  });
+
+  it('starts weeks on WKST', () => {
+    expect(days('DTSTART:20260105 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU;COUNT=4')).toEqual(['2026-01-05', '2026-01-11', '2026-01-19', '2026-01-25']);
+    expect(days('DTSTART:20260105 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU;WKST=SU;COUNT=4')).toEqual(['2026-01-05', '2026-01-18', '2026-01-19', '2026-02-01']);
+  });
+
+  it('crosses year ends', () => {
+    expect(days('DTSTART:20261230 RRULE:FREQ=DAILY;COUNT=4')).toEqual(['2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02']);
+  });
+
+  it('applies EXDATE and RDATE', () => {
+    expect(days('DTSTART:20260101 RRULE:FREQ=DAILY;COUNT=3 EXDATE:20260102 RDATE:20260110'))
+      .toEqual(['2026-01-01', '2026-01-03', '2026-01-10']);
+  });
+
+  it('caps unbounded rules', () => {
+    expect(days('DTSTART:20260101 RRULE:FREQ=DAILY', 10)).toHaveLength(10);
+    expect(days('DTSTART:20260101 RRULE:FREQ=YEARLY')).toHaveLength(51);
+  });
+});
+
+describe('rules that pick no day', () => {
+  it('expand quickly to DTSTART alone', () => {
+    const started = performance.now();
+    expect(days('DTSTART:20260101 RRULE:FREQ=DAILY;BYMONTH=2;BYMONTHDAY=30;UNTIL=99991231')).toEqual(['2026-01-01']);
+    expect(firstRecurrence(parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=DAILY;BYMONTH=2;BYMONTHDAY=30 EXDATE:20260101'))).toBeNull();
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+
+  it('are rejected', () => {
+    const check = (text: string) => () => assertRecurrenceHasDays(parseRecurrenceRule(text));
+    expect(check('DTSTART:20260101 RRULE:FREQ=DAILY;BYMONTH=2;BYMONTHDAY=30')).toThrow('RRULE matches no day');
+    expect(check('DTSTART:20260101 RRULE:FREQ=MONTHLY;BYMONTH=4;BYMONTHDAY=31')).toThrow('RRULE matches no day');
+    expect(check('DTSTART:20260101 RRULE:FREQ=DAILY;COUNT=1 EXDATE:20260101')).toThrow('EXDATE removes every occurrence');
+    expect(check('DTSTART:20260101 RRULE:FREQ=DAILY;BYMONTH=2;BYMONTHDAY=29')).not.toThrow();
+    expect(check('DTSTART:20260101 RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29')).not.toThrow();
+    expect(check('DTSTART:20260101')).not.toThrow();
+  });
+
+  it('still find days after long gaps', () => {
+    // 2096 to 2104 skips the leap year 2100
+    expect(days('DTSTART:20960229 RRULE:FREQ=DAILY;BYMONTH=2;BYMONTHDAY=29;COUNT=2')).toEqual(['2096-02-29', '2104-02-29']);
+  });
+});
+
+describe('firstRecurrence', () => {
+  it('returns null when EXDATE removes every day', () => {
+    expect(firstRecurrence(parseRecurrenceRule('DTSTART:20260101 RRULE:FREQ=DAILY;COUNT=2 EXDATE:20260101,20260102'))).toBeNull();
+    expect(firstRecurrence(parseRecurrenceRule('DTSTART:20260101 EXDATE:20260101 RDATE:20260105'))).toEqual(new Date(2026, 0, 5));
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('reads the rule out', () => {
+    expect(describeRecurrence(parseRecurrenceRule('DTSTART:20260102 RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;COUNT=10')))
+      .toBe('every 2 weeks on Friday from 2026-01-02, 10 times');
+    expect(describeRecurrence(parseRecurrenceRule('DTSTART:20260130 RRULE:FREQ=MONTHLY;BYDAY=-1FR')))
+      .toBe('every month on the last Friday from 2026-01-30');
+  });
+});
+
+describe('timezones', () => {
+  const originalTimezone = process.env.TZ;
+  afterEach(() => {
+    if (originalTimezone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTimezone;
+  });
+
+  for (const timezone of ['America/Los_Angeles', 'Pacific/Auckland', 'UTC']) {
+    it(`expands to the same days in ${timezone}`, () => {
+      process.env.TZ = timezone;
+      // Spans both daylight saving changes in either hemisphere
+      expect(days('DTSTART:20260301 RRULE:FREQ=WEEKLY;COUNT=3')).toEqual(['2026-03-01', '2026-03-08', '2026-03-15']);
+      expect(days('DTSTART:20260404 RRULE:FREQ=DAILY;COUNT=3')).toEqual(['2026-04-04', '2026-04-05', '2026-04-06']);
+      expect(days('DTSTART:20261101T235959Z RRULE:FREQ=DAILY;COUNT=2')).toEqual(['2026-11-01', '2026-11-02']);
+    });
+  }
+});
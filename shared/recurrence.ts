@@ -0,0 +1,489 @@
+// All-day recurrence rules in the RFC 5545 format: a DTSTART day, an optional
+// RRULE and EXDATE/RDATE day lists, one property per line, e.g.
+//
+//   DTSTART;VALUE=DATE:20260102
+//   RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;COUNT=10
+//   EXDATE;VALUE=DATE:20260130
+//
+// Events last whole days, so only the date part of DATE-TIME values is read
+// and the rule parts below a day (BYHOUR and friends) are not supported.
+// Days are local midnight, as in date-resolver.
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface RecurrenceWeekday {
+  day: number; // 0-6 (Sunday to Saturday)
+  nth: number | null; // e.g. 2 in 2TU or -1 in -1FR; MONTHLY and YEARLY rules only
+}
+
+export interface RecurrenceRule {
+  start: Date; // DTSTART, always the first occurrence
+  frequency: RecurrenceFrequency | null; // null without an RRULE: only DTSTART and the RDATE days
+  interval: number;
+  count: number | null;
+  until: Date | null; // inclusive
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[]; // 1 to 31, or -1 (last day) to -31
+  byMonth: number[]; // 1-12
+  bySetPos: number[]; // picks among each period's days; negative counts from the end
+  weekStart: number; // WKST, 0-6; Monday unless given
+  exDates: Date[];
+  rDates: Date[];
+}
+
+// Thrown for rules that are malformed or use parts this module does not support
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Rules without COUNT or UNTIL are expanded this many years past DTSTART,
+// later UNTIL days are brought back to the same horizon, and no rule yields
+// more occurrences than MAX_OCCURRENCES
+const UNBOUNDED_YEARS = 50;
+const MAX_OCCURRENCES = 5000;
+// Expansion gives up after this many periods in a row without a day. The
+// longest gap of a rule that matches at all is a daily rule for February 29,
+// which goes up to 2922 days across a skipped leap year.
+const MAX_EMPTY_PERIODS = 3000;
+
+// YYYYMMDD, the DATE value format
+export function formatRecurrenceDay(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+// Last day a rule starting on `start` is expanded to
+function expansionEnd(start: Date): Date {
+  return new Date(start.getFullYear() + UNBOUNDED_YEARS, 11, 31);
+}
+
+// A DATE value, or the day of a DATE-TIME value such as 20260102T090000Z
+function parseDay(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) throw new RecurrenceRuleError(`Invalid date "${value}", expected YYYYMMDD`);
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new RecurrenceRuleError(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
+function parseInteger(name: string, value: string, min: number, max: number, allowNegative = false): number {
+  const number = /^[+-]?\d+$/.test(value) ? Number(value) : NaN;
+  const magnitude = Math.abs(number);
+  if (isNaN(number) || magnitude < min || magnitude > max || (number < 0 && !allowNegative)) {
+    throw new RecurrenceRuleError(`Invalid ${name} value "${value}"`);
+  }
+  return number;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) throw new RecurrenceRuleError(`Invalid BYDAY value "${value}"`);
+  return {
+    day: WEEKDAY_CODES.indexOf(match[2]),
+    nth: match[1] ? parseInteger('BYDAY', match[1], 1, 53, true) : null,
+  };
+}
+
+function parseRRule(value: string, rule: RecurrenceRule): void {
+  const seen = new Set<string>();
+  for (const part of value.split(';')) {
+    const [name, partValue] = part.toUpperCase().split('=');
+    if (!partValue) throw new RecurrenceRuleError(`Invalid RRULE part "${part}"`);
+    if (seen.has(name)) throw new RecurrenceRuleError(`${name} is given twice`);
+    seen.add(name);
+    const list = partValue.split(',');
+
+    switch (name) {
+      case 'FREQ':
+        if (!RECURRENCE_FREQUENCIES.includes(partValue as RecurrenceFrequency)) {
+          throw new RecurrenceRuleError(`Unsupported frequency "${partValue}"; use DAILY, WEEKLY, MONTHLY or YEARLY`);
+        }
+        rule.frequency = partValue as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, partValue, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, partValue, 1, MAX_OCCURRENCES);
+        break;
+      case 'UNTIL':
+        rule.until = parseDay(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = list.map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = list.map(day => parseInteger(name, day, 1, 31, true));
+        break;
+      case 'BYMONTH':
+        rule.byMonth = list.map(month => parseInteger(name, month, 1, 12));
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = list.map(position => parseInteger(name, position, 1, 366, true));
+        break;
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(partValue)) throw new RecurrenceRuleError(`Invalid WKST value "${partValue}"`);
+        rule.weekStart = WEEKDAY_CODES.indexOf(partValue);
+        break;
+      case 'BYYEARDAY':
+      case 'BYWEEKNO':
+      case 'BYHOUR':
+      case 'BYMINUTE':
+      case 'BYSECOND':
+        throw new RecurrenceRuleError(`${name} is not supported`);
+      default:
+        throw new RecurrenceRuleError(`Unknown RRULE part "${name}"`);
+    }
+  }
+
+  if (!rule.frequency) throw new RecurrenceRuleError('RRULE needs a FREQ');
+  if (rule.count !== null && rule.until) throw new RecurrenceRuleError('RRULE cannot have both COUNT and UNTIL');
+  if (rule.byDay.some(weekday => weekday.nth !== null) && rule.frequency !== 'MONTHLY' && rule.frequency !== 'YEARLY') {
+    throw new RecurrenceRuleError('Numbered BYDAY values such as 2TU need a MONTHLY or YEARLY rule');
+  }
+  if (rule.byMonthDay.length > 0 && rule.frequency === 'WEEKLY') {
+    throw new RecurrenceRuleError('BYMONTHDAY cannot be used with a WEEKLY rule');
+  }
+}
+
+// Reads a rule from its property lines. Lines may also be separated by spaces,
+// as property values never contain whitespace, and a bare FREQ=... line is
+// taken as the RRULE.
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  let start: Date | null = null;
+  let hasRRule = false;
+  const rule: RecurrenceRule = {
+    start: new Date(NaN),
+    frequency: null,
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 1,
+    exDates: [],
+    rDates: [],
+  };
+
+  for (const line of text.trim().split(/\s+/).filter(Boolean)) {
+    const colon = line.indexOf(':');
+    const [name, ...params] = (colon === -1 ? 'RRULE' : line.slice(0, colon)).toUpperCase().split(';');
+    const value = colon === -1 ? line : line.slice(colon + 1);
+    if (params.some(param => param.startsWith('VALUE=') && param !== 'VALUE=DATE' && param !== 'VALUE=DATE-TIME')) {
+      throw new RecurrenceRuleError(`${name} only takes DATE or DATE-TIME values`);
+    }
+
+    switch (name) {
+      case 'DTSTART':
+        if (start) throw new RecurrenceRuleError('DTSTART is given twice');
+        start = parseDay(value);
+        break;
+      case 'RRULE':
+        if (hasRRule) throw new RecurrenceRuleError('Only one RRULE is supported');
+        hasRRule = true;
+        parseRRule(value, rule);
+        break;
+      case 'EXDATE':
+        rule.exDates.push(...value.split(',').map(parseDay));
+        break;
+      case 'RDATE':
+        rule.rDates.push(...value.split(',').map(parseDay));
+        break;
+      default:
+        throw new RecurrenceRuleError(`Unsupported property "${name}"`);
+    }
+  }
+
+  if (!start) throw new RecurrenceRuleError('DTSTART is required');
+  rule.start = start;
+  // Nothing past the expansion horizon is ever generated, so UNTIL=99991231
+  // means the same as no UNTIL
+  if (rule.until && rule.until > expansionEnd(start)) rule.until = expansionEnd(start);
+  return rule;
+}
+
+// The RRULE value of a rule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=FR, or null
+// when it has no frequency
+export function formatRRule(rule: RecurrenceRule): string | null {
+  if (!rule.frequency) return null;
+
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatRecurrenceDay(rule.until)}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(weekday => `${weekday.nth ?? ''}${WEEKDAY_CODES[weekday.day]}`).join(',')}`);
+  }
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+// The RRULE, EXDATE and RDATE lines of a rule, which follow DTSTART both in
+// stored rules and in an ICS VEVENT
+export function recurrenceRuleLines(rule: RecurrenceRule): string[] {
+  const lines: string[] = [];
+  const rrule = formatRRule(rule);
+  if (rrule) lines.push(`RRULE:${rrule}`);
+  if (rule.exDates.length > 0) lines.push(`EXDATE;VALUE=DATE:${rule.exDates.map(formatRecurrenceDay).join(',')}`);
+  if (rule.rDates.length > 0) lines.push(`RDATE;VALUE=DATE:${rule.rDates.map(formatRecurrenceDay).join(',')}`);
+  return lines;
+}
+
+// The property lines of a rule, as stored on events
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [`DTSTART;VALUE=DATE:${formatRecurrenceDay(rule.start)}`, ...recurrenceRuleLines(rule)].join('\n');
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+// Every given weekday in days first..last of a month, or only the nth (from
+// the end when negative) of them
+function weekdaysBetween(first: Date, last: Date, weekday: RecurrenceWeekday): Date[] {
+  const days: Date[] = [];
+  for (let day = addDays(first, (weekday.day - first.getDay() + 7) % 7); day <= last; day = addDays(day, 7)) {
+    days.push(day);
+  }
+  if (weekday.nth === null) return days;
+  const picked = weekday.nth > 0 ? days[weekday.nth - 1] : days[days.length + weekday.nth];
+  return picked ? [picked] : [];
+}
+
+// Candidate days of one month of a MONTHLY or YEARLY rule. Numbered BYDAY
+// values count within the month unless `yearlyWeekdays` is set.
+function monthDays(rule: RecurrenceRule, year: number, month: number): Date[] {
+  const length = daysInMonth(year, month);
+  const byMonthDay = rule.byMonthDay
+    .map(day => day > 0 ? day : length + day + 1)
+    .filter(day => day >= 1 && day <= length)
+    .map(day => new Date(year, month - 1, day));
+  const byDay = rule.byDay.flatMap(weekday =>
+    weekdaysBetween(new Date(year, month - 1, 1), new Date(year, month - 1, length), weekday));
+
+  if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+    return byMonthDay.filter(day => byDay.some(other => other.getTime() === day.getTime()));
+  }
+  if (rule.byMonthDay.length > 0) return byMonthDay;
+  if (rule.byDay.length > 0) return byDay;
+  // Without either, the rule repeats DTSTART's day of the month, skipping months too short for it
+  return rule.start.getDate() <= length ? [new Date(year, month - 1, rule.start.getDate())] : [];
+}
+
+// Days of the period starting at `periodStart`, before BYSETPOS
+function periodDays(rule: RecurrenceRule, periodStart: Date): Date[] {
+  const inMonths = (day: Date) => rule.byMonth.length === 0 || rule.byMonth.includes(day.getMonth() + 1);
+  const year = periodStart.getFullYear();
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const length = daysInMonth(year, periodStart.getMonth() + 1);
+      const matches = inMonths(periodStart)
+        && (rule.byMonthDay.length === 0 || rule.byMonthDay.some(day => (day > 0 ? day : length + day + 1) === periodStart.getDate()))
+        && (rule.byDay.length === 0 || rule.byDay.some(weekday => weekday.day === periodStart.getDay()));
+      return matches ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(weekday => weekday.day) : [rule.start.getDay()];
+      return Array.from({ length: 7 }, (_, offset) => addDays(periodStart, offset))
+        .filter(day => weekdays.includes(day.getDay()) && inMonths(day));
+    }
+    case 'MONTHLY':
+      return inMonths(periodStart) ? monthDays(rule, year, periodStart.getMonth() + 1) : [];
+    case 'YEARLY': {
+      if (rule.byMonth.length > 0) {
+        return rule.byMonth.flatMap(month => monthDays(rule, year, month));
+      }
+      if (rule.byMonthDay.length > 0) {
+        return Array.from({ length: 12 }, (_, index) => monthDays(rule, year, index + 1)).flat();
+      }
+      if (rule.byDay.length > 0) {
+        // Numbered weekdays count within the year, e.g. 20MO is the 20th Monday
+        return rule.byDay.flatMap(weekday => weekdaysBetween(new Date(year, 0, 1), new Date(year, 11, 31), weekday));
+      }
+      const day = new Date(year, rule.start.getMonth(), rule.start.getDate());
+      return day.getMonth() === rule.start.getMonth() ? [day] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+// Start of the period `index` periods after the one holding DTSTART
+function periodStart(rule: RecurrenceRule, index: number): Date {
+  const start = rule.start;
+  switch (rule.frequency) {
+    case 'WEEKLY':
+      return addDays(start, index * 7 - (start.getDay() - rule.weekStart + 7) % 7);
+    case 'MONTHLY':
+      return new Date(start.getFullYear(), start.getMonth() + index, 1);
+    case 'YEARLY':
+      return new Date(start.getFullYear() + index, 0, 1);
+    default:
+      return addDays(start, index);
+  }
+}
+
+// Days of the period starting at `periodStart` that the rule picks, earliest first
+function pickedDays(rule: RecurrenceRule, start: Date): Date[] {
+  const candidates = periodDays(rule, start)
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter((day, position, sorted) => position === 0 || day.getTime() !== sorted[position - 1].getTime());
+  if (rule.bySetPos.length === 0) return candidates;
+  return rule.bySetPos
+    .map(position => position > 0 ? candidates[position - 1] : candidates[candidates.length + position])
+    .filter((day): day is Date => !!day)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+// DTSTART and the days the RRULE adds after it, earliest first, at most `limit`
+function ruleDays(rule: RecurrenceRule, limit: number): Date[] {
+  const days = [rule.start];
+  if (!rule.frequency) return days;
+
+  const max = Math.min(limit, rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const last = rule.until ?? expansionEnd(rule.start);
+  for (let index = 0, emptyPeriods = 0; days.length < max && emptyPeriods < MAX_EMPTY_PERIODS; index += rule.interval) {
+    const start = periodStart(rule, index);
+    if (start > last) break;
+
+    const picked = pickedDays(rule, start);
+    emptyPeriods = picked.length > 0 ? 0 : emptyPeriods + 1;
+    for (const day of picked) {
+      if (day <= rule.start) continue;
+      if (day > last || days.length >= max) return days;
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+// Whether the RRULE picks any day at all within the expansion horizon,
+// ignoring COUNT and UNTIL
+function matchesAnyDay(rule: RecurrenceRule): boolean {
+  const last = expansionEnd(rule.start);
+  for (let index = 0, emptyPeriods = 0; emptyPeriods < MAX_EMPTY_PERIODS; index += rule.interval, emptyPeriods++) {
+    const start = periodStart(rule, index);
+    if (start > last) return false;
+    if (pickedDays(rule, start).length > 0) return true;
+  }
+  return false;
+}
+
+// Days of the recurrence set, earliest first: DTSTART, the RRULE's days and
+// the RDATE days, less the EXDATE days. `limit` caps how many RRULE days are
+// generated; the first day of the set only needs the EXDATE count plus one.
+export function expandRecurrence(rule: RecurrenceRule, limit: number = MAX_OCCURRENCES): Date[] {
+  const excluded = new Set(rule.exDates.map(formatRecurrenceDay));
+  const days = new Map<string, Date>();
+  [...ruleDays(rule, limit), ...rule.rDates].forEach(day => {
+    const key = formatRecurrenceDay(day);
+    if (!excluded.has(key)) days.set(key, day);
+  });
+  return Array.from(days.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+// First day of the recurrence set, or null when EXDATE removes every day.
+// At most one more day than there are EXDATEs is generated, so this stays
+// cheap however far the rule runs.
+export function firstRecurrence(rule: RecurrenceRule): Date | null {
+  const days = expandRecurrence(rule, rule.exDates.length + 1);
+  return days.length > 0 ? days[0] : null;
+}
+
+// Throws for rules that can never be meant: an RRULE that picks no day, such
+// as FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30, and EXDATEs that remove every day
+export function assertRecurrenceHasDays(rule: RecurrenceRule): void {
+  if (rule.frequency && !matchesAnyDay(rule)) {
+    throw new RecurrenceRuleError('RRULE matches no day');
+  }
+  if (!firstRecurrence(rule)) {
+    throw new RecurrenceRuleError('EXDATE removes every occurrence');
+  }
+}
+
+function ordinal(nth: number): string {
+  const names = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+  if (nth === -1) return 'last';
+  if (nth < 0) return `${ordinal(-nth)} to last`;
+  return names[nth] ?? `${nth}th`;
+}
+
+// "Monday", "Monday and Friday", "Monday, Wednesday and Friday"
+function joinWords(words: string[]): string {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words.join('');
+}
+
+function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Plain-English rule, e.g. "every 2 weeks on Friday from 2026-01-02, 10 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const from = formatDay(rule.start);
+  let text: string;
+
+  if (!rule.frequency) {
+    text = `on ${from}`;
+  } else {
+    const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+    const unit = units[rule.frequency];
+    const parts = [rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`];
+
+    if (rule.byMonth.length > 0) {
+      parts.push(`in ${joinWords(rule.byMonth.map(month => MONTH_NAMES[month - 1]))}`);
+    }
+    if (rule.byMonthDay.length > 0) {
+      parts.push(`on ${joinWords(rule.byMonthDay.map(day => day > 0 ? `day ${day}` : `the ${ordinal(day)} day`))}`);
+    }
+    if (rule.byDay.length > 0) {
+      const isWorkWeek = rule.byDay.length === 5 && rule.byDay.every(weekday => weekday.nth === null && weekday.day >= 1 && weekday.day <= 5);
+      const names = rule.byDay.map(weekday =>
+        weekday.nth === null ? WEEKDAY_NAMES[weekday.day] : `the ${ordinal(weekday.nth)} ${WEEKDAY_NAMES[weekday.day]}`);
+      if (rule.bySetPos.length > 0) {
+        const which = joinWords(rule.bySetPos.map(ordinal));
+        parts.push(isWorkWeek ? `on the ${which} weekday` : `on the ${which} of ${joinWords(names)}`);
+      } else {
+        parts.push(isWorkWeek ? 'on weekdays' : `on ${joinWords(names)}`);
+      }
+    } else if (rule.bySetPos.length > 0) {
+      parts.push(`taking the ${joinWords(rule.bySetPos.map(ordinal))} day`);
+    }
+
+    parts.push(`from ${from}`);
+    text = parts.join(' ');
+    if (rule.until) text += ` until ${formatDay(rule.until)}`;
+    if (rule.count !== null) text += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  }
+
+  if (rule.exDates.length > 0) text += `, except ${joinWords(rule.exDates.map(formatDay))}`;
+  if (rule.rDates.length > 0) text += `, also ${joinWords(rule.rDates.map(formatDay))}`;
+  return text;
+}
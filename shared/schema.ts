@@ -1,14 +1,106 @@
 import { z } from "zod";
-import { pgTable, uuid, varchar, text, timestamp, integer, pgEnum } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, uuid, varchar, text, timestamp, integer, pgEnum, jsonb, uniqueIndex, index, type PgColumn } from "drizzle-orm/pg-core";
+import { assertRecurrenceHasDays, formatRecurrenceRule, parseRecurrenceRule } from "./recurrence";
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// A day off in a work calendar: a single date, the same month and day every
+// year, or the nth weekday of a month every year (-1 for the last one)
+export const holidayRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('date'),
+    name: z.string().trim().max(100).optional(),
+    date: isoDateSchema,
+  }),
+  z.object({
+    type: z.literal('annual'),
+    name: z.string().trim().max(100).optional(),
+    month: z.number().int().min(1).max(12),
+    day: z.number().int().min(1).max(31),
+  }),
+  z.object({
+    type: z.literal('nth'),
+    name: z.string().trim().max(100).optional(),
+    nthOccurrence: z.number().int().min(-1).max(4).refine(nth => nth !== 0, "Expected 1-4 or -1 for the last"),
+    dayOfWeek: z.number().int().min(0).max(6),
+    month: z.number().int().min(1).max(12),
+  }),
+]);
+
+export type HolidayRule = z.infer<typeof holidayRuleSchema>;
+
+// Which days count as business days for the events that use it, e.g. a
+// Friday-Saturday weekend and a country's public holidays
+export interface WorkCalendar {
+  id: string;
+  name: string;
+  weekendDays: number[]; // 0-6 (Sunday to Saturday)
+  holidays: HolidayRule[];
+  createdAt: Date;
+}
+
+export const insertWorkCalendarSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  // At least one day of the week has to stay a business day
+  weekendDays: z.array(z.number().int().min(0).max(6)).optional()
+    .transform(days => days && Array.from(new Set(days)).sort((a, b) => a - b))
+    .refine(days => !days || days.length < 7, "At least one day must be a business day"),
+  holidays: z.array(holidayRuleSchema).max(500).optional(),
+});
+
+export type InsertWorkCalendar = z.infer<typeof insertWorkCalendarSchema>;
+
+// A named calendar grouping events, e.g. company holidays or the release train
+export interface Calendar {
+  id: string;
+  name: string;
+  description: string | null;
+  workCalendarId: string | null; // business days of its events, unless an event names its own
+  createdAt: Date;
+}
+
+export const insertCalendarSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().nullable().optional(),
+  workCalendarId: z.string().nullable().optional(),
+});
+
+export type InsertCalendar = z.infer<typeof insertCalendarSchema>;
+
+// How often an nth pattern repeats within its years: in `month` only, every
+// month or every third month from `month` on, in each of `nthMonths`, or every
+// `nthInterval` weeks from its first occurrence in `month`
+export const nthFrequencySchema = z.enum(['yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks']);
+
+export type NthFrequency = z.infer<typeof nthFrequencySchema>;
+
+// Which Easter an easter event follows: the Gregorian (Western) date, or the
+// Julian (Orthodox) date converted to the Gregorian calendar
+export const easterVariantSchema = z.enum(['western', 'orthodox']);
+
+export type EasterVariant = z.infer<typeof easterVariantSchema>;
+
+// Where an event moves when it falls on a day off of its work calendar (a
+// weekend day or holiday): nowhere, to the next or previous business day, or
+// to the nearer of the two, the next one on a tie
+export const weekendAdjustmentSchema = z.enum(['none', 'nextWorkday', 'previousWorkday', 'nearest']);
+
+export type WeekendAdjustment = z.infer<typeof weekendAdjustmentSchema>;
 
 // Event interface for localStorage-based storage
 export interface Event {
   id: string;
   title: string;
   description: string | null;
+  calendarId: string | null; // null when the event belongs to no calendar
+  workCalendarId: string | null; // null follows the calendar's work calendar
+  weekendAdjustment: WeekendAdjustment | null; // null behaves as 'none'
+  category: string | null;
+  tags: string[]; // free-form labels, unique per event
   
-  // Date type: 'fixed', 'nth', 'relative'
-  dateType: 'fixed' | 'nth' | 'relative';
+  // Date type: 'fixed', 'nth', 'relative', 'recurring', 'easter'
+  dateType: 'fixed' | 'nth' | 'relative' | 'recurring' | 'easter';
   
   // For fixed dates
   startDate: Date | null;
@@ -18,22 +110,45 @@ export interface Event {
   nthOccurrence: number | null; // 1, 2, 3, 4, -1 (for last)
   dayOfWeek: number | null; // 0-6 (Sunday to Saturday)
   month: number | null; // 1-12
-  baseYear: number | null; // base year for nth date calculations
+  baseYear: number | null; // base year for nth and easter date calculations
+  recurUntilYear: number | null; // repeats every year from baseYear through this year; null for baseYear only
+  nthFrequency: NthFrequency | null; // which months the pattern repeats in; null behaves as 'yearly'
+  nthMonths: number[] | null; // 1-12, for the 'selectedMonths' frequency
+  nthInterval: number | null; // weeks between occurrences, for the 'weeks' frequency
   
   // For relative dates
   relativePeriod: number | null; // number of units
-  relativeUnit: 'days' | 'weeks' | 'months' | 'years' | null;
+  relativeUnit: 'days' | 'weeks' | 'months' | 'years' | 'businessDays' | null; // businessDays skips weekends and holidays
   relativeDirection: 'before' | 'after' | null;
-  relativeEventName: string | null; // Changed from ID to name
+  relativeEventId: string | null; // id of the anchor event
+  // Instead of the period and unit: the relativeWeekdayOrdinal-th weekday (0-6,
+  // Sunday to Saturday) before or after the anchor
+  relativeWeekday: number | null;
+  relativeWeekdayOrdinal: number | null; // 1-4, counted from the anchor; 0 for on or before/after it; null behaves as 1
+  
+  // For recurring dates
+  recurrenceRule: string | null; // RFC 5545 DTSTART, RRULE, EXDATE and RDATE lines
+  
+  // For easter dates, which also use baseYear and recurUntilYear
+  easterVariant: EasterVariant | null; // null behaves as 'western'
+  easterOffset: number | null; // days from Easter Sunday, negative for before; null behaves as 0
   
   // Metadata
   createdAt: Date;
+  deletedAt: Date | null; // set while the event sits in the trash
+  version: number; // incremented on every update, used for optimistic concurrency
 }
 
 export const insertEventSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().nullable().optional(),
-  dateType: z.enum(['fixed', 'nth', 'relative']),
+  calendarId: z.string().nullable().optional(),
+  workCalendarId: z.string().nullable().optional(),
+  weekendAdjustment: weekendAdjustmentSchema.nullable().optional(),
+  category: z.string().trim().max(100).nullable().optional().transform(val => val || null),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional()
+    .transform(tags => tags && Array.from(new Set(tags))),
+  dateType: z.enum(['fixed', 'nth', 'relative', 'recurring', 'easter']),
   
   // For fixed dates
   startDate: z.union([z.string(), z.date()]).nullable().optional().transform(val => {
@@ -52,28 +167,245 @@ export const insertEventSchema = z.object({
   dayOfWeek: z.number().min(0).max(6).nullable().optional(),
   month: z.number().min(1).max(12).nullable().optional(),
   baseYear: z.number().min(2020).max(2050).nullable().optional(),
+  recurUntilYear: z.number().int().min(2020).max(2050).nullable().optional(),
+  nthFrequency: nthFrequencySchema.nullable().optional(),
+  nthMonths: z.array(z.number().int().min(1).max(12)).min(1).max(12).nullable().optional()
+    .transform(months => months && Array.from(new Set(months)).sort((a, b) => a - b)),
+  nthInterval: z.number().int().min(1).max(52).nullable().optional(),
   
   // For relative dates
   relativePeriod: z.number().positive().nullable().optional(),
-  relativeUnit: z.enum(['days', 'weeks', 'months', 'years']).nullable().optional(),
+  relativeUnit: z.enum(['days', 'weeks', 'months', 'years', 'businessDays']).nullable().optional(),
   relativeDirection: z.enum(['before', 'after']).nullable().optional(),
-  relativeEventName: z.string().nullable().optional(), // Changed from ID to name
+  relativeEventId: z.string().nullable().optional(),
+  relativeWeekday: z.number().int().min(0).max(6).nullable().optional(),
+  relativeWeekdayOrdinal: z.number().int().min(0).max(4).nullable().optional(),
+  
+  // For recurring dates, stored in the canonical line format
+  recurrenceRule: z.string().max(4000).nullable().optional().transform((val, ctx) => {
+    if (!val?.trim()) return val === undefined ? undefined : null;
+    try {
+      const rule = parseRecurrenceRule(val);
+      assertRecurrenceHasDays(rule);
+      return formatRecurrenceRule(rule);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'Invalid recurrence rule' });
+      return z.NEVER;
+    }
+  }),
+  
+  // For easter dates
+  easterVariant: easterVariantSchema.nullable().optional(),
+  easterOffset: z.number().int().min(-366).max(366).nullable().optional(),
 });
 
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 
+// Batch operations may reference events created earlier in the same batch by
+// their client-supplied tempId, both as an update/delete target and as the
+// anchor of a new relative event
+const batchEventRefs = {
+  relativeEventTempId: z.string().min(1).optional(),
+};
+
+export const batchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create'),
+    tempId: z.string().min(1).optional(),
+    data: insertEventSchema.extend(batchEventRefs),
+  }),
+  z.object({
+    op: z.literal('update'),
+    id: z.string().min(1), // event id or tempId
+    version: z.number().int().positive().optional(),
+    data: insertEventSchema.partial().extend(batchEventRefs),
+  }),
+  z.object({
+    op: z.literal('delete'),
+    id: z.string().min(1), // event id or tempId
+    version: z.number().int().positive().optional(),
+  }),
+]);
+
+export const batchRequestSchema = z.object({
+  operations: z.array(batchOperationSchema).min(1).max(500),
+});
+
+export type BatchOperation = z.infer<typeof batchOperationSchema>;
+
+export type BatchResult =
+  | { op: 'create'; tempId?: string; event: Event }
+  | { op: 'update'; event: Event }
+  | { op: 'delete'; id: string };
+
+// How DELETE /api/events/:id treats events anchored to the deleted event:
+// trash them too, drop their anchor, or pin them to their current date
+export const deleteCascadeSchema = z.enum(['delete', 'detach', 'convertToFixed']);
+
+export type DeleteCascade = z.infer<typeof deleteCascadeSchema>;
+
+// Character range [start, end) of a search match within a field
+export type HighlightRange = [number, number];
+
+// Why an event matched a search: its rank (higher is better) and where the
+// query words occur in its title, description and its anchor's title
+export interface EventSearchMatch {
+  score: number;
+  anchorTitle: string | null;
+  highlights: {
+    title: HighlightRange[];
+    description: HighlightRange[];
+    anchorTitle: HighlightRange[];
+  };
+}
+
+export type SearchedEvent = Event & { search: EventSearchMatch };
+
+// Orders for GET /api/events; relevance only applies to searches (?q=)
+export const eventSortSchema = z.enum(['createdAt', 'title', 'date', 'relevance']);
+
+export type EventSort = z.infer<typeof eventSortSchema>;
+
+// Paging and filtering parameters of GET /api/events. Without a limit every
+// matching event is returned; otherwise the X-Next-Cursor response header
+// names the cursor of the following page. from/to are inclusive bounds on
+// the resolved date, so events whose date cannot be resolved are left out;
+// recurring events match when any of their occurrences falls in the range.
+export const eventListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: eventSortSchema.optional(),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  calendarId: z.string().min(1).optional(),
+  type: insertEventSchema.shape.dateType.optional(),
+});
+
+export type EventListQuery = z.infer<typeof eventListQuerySchema>;
+
+// What the events list shows beside an event besides its own fields,
+// resolved on the server so the list does not need every anchor. Sent as
+// `listing` on each event of a page (?limit=) of GET /api/events.
+export interface EventListing {
+  start: string | null; // YYYY-MM-DD
+  end: string | null; // YYYY-MM-DD, last day, inclusive
+  problem: string | null; // why the event has no date, readable
+  anchorTitle: string | null;
+  anchorTrashed: boolean;
+  // Events anchored to this one, directly or not
+  dependentCount: number;
+}
+
+export type ListedEvent = (Event | SearchedEvent) & { listing: EventListing };
+
+// An event as offered by anchor pickers (GET /api/events/anchors). A pack
+// holiday that is not installed yet has its key as id and its pack's name as
+// `pack`; anchoring an event to it installs it.
+export type AnchorOption = Pick<Event, 'id' | 'title' | 'dateType'> & { pack?: string };
+
+// Response of GET /api/events/summary: the numbers behind the list and the
+// export panel, with ?calendarId= and ?tags= applied to `counts` only
+export interface EventSummary {
+  counts: Record<Event['dateType'], number> & { total: number };
+  activeCount: number; // every active event, whatever the filters
+  tags: string[]; // every tag in use, sorted
+}
+
+// Range of GET /api/occurrences, inclusive at both ends
+export const occurrenceQuerySchema = z.object({
+  from: isoDateSchema,
+  to: isoDateSchema,
+  calendarId: z.string().min(1).optional(),
+}).refine(range => range.from <= range.to, { message: "from must not be after to", path: ['to'] });
+
+export type OccurrenceQuery = z.infer<typeof occurrenceQuerySchema>;
+
+// Body of POST /api/holiday-packs/:id/install: the years the installed
+// holidays repeat in, this year and the nine after it by default, the
+// calendar they are added to, and whether they fall on the day off the pack
+// gives for a holiday on a weekend rather than on the holiday itself
+export const holidayPackInstallSchema = z.object({
+  fromYear: z.number().int().min(2020).max(2050).optional(),
+  toYear: z.number().int().min(2020).max(2050).optional(),
+  calendarId: z.string().nullable().optional(),
+  observed: z.boolean().optional(),
+}).refine(range => !range.fromYear || !range.toYear || range.fromYear <= range.toYear, {
+  message: "fromYear must not be after toYear",
+  path: ['toYear'],
+});
+
+export type HolidayPackInstall = z.infer<typeof holidayPackInstallSchema>;
+
+// One dated instance of an event: a repeating nth event, and every relative
+// event anchored to one, has an instance per occurrence of the pattern
+export interface EventOccurrence {
+  eventId: string;
+  title: string;
+  calendarId: string | null;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, last day, inclusive
+}
+
+// Before and after values of a single field touched by an update
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// Append-only log entry recorded for every update that changes an event
+export interface EventRevision {
+  id: string;
+  eventId: string;
+  revision: number; // 1, 2, 3, ... per event
+  author: string;
+  changedAt: Date;
+  changes: Record<string, FieldChange>;
+}
+
 // Drizzle enums
-export const dateTypeEnum = pgEnum('date_type', ['fixed', 'nth', 'relative']);
-export const relativeUnitEnum = pgEnum('relative_unit', ['days', 'weeks', 'months', 'years']);
+export const dateTypeEnum = pgEnum('date_type', ['fixed', 'nth', 'relative', 'recurring', 'easter']);
+export const nthFrequencyEnum = pgEnum('nth_frequency', ['yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks']);
+export const relativeUnitEnum = pgEnum('relative_unit', ['days', 'weeks', 'months', 'years', 'businessDays']);
 export const relativeDirectionEnum = pgEnum('relative_direction', ['before', 'after']);
+export const easterVariantEnum = pgEnum('easter_variant', ['western', 'orthodox']);
+export const weekendAdjustmentEnum = pgEnum('weekend_adjustment', ['none', 'nextWorkday', 'previousWorkday', 'nearest']);
+
+// Full-text search document of an event: title words weigh more (A) than
+// description words (B). Queries must use this exact expression to hit
+// events_search_idx.
+export function eventSearchVector(table: { title: PgColumn; description: PgColumn }): SQL {
+  return sql`(setweight(to_tsvector('simple', ${table.title}), 'A') || setweight(to_tsvector('simple', coalesce(${table.description}, '')), 'B'))`;
+}
+
+// Drizzle table definitions
+export const workCalendarsTable = pgTable('work_calendars', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 255 }).notNull(),
+  weekendDays: integer('weekend_days').array().default([0, 6]).notNull(), // 0-6 (Sunday to Saturday)
+  holidays: jsonb('holidays').$type<HolidayRule[]>().default([]).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const calendarsTable = pgTable('calendars', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  workCalendarId: uuid('work_calendar_id').references(() => workCalendarsTable.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
 
-// Drizzle table definition
 export const eventsTable = pgTable('events', {
   id: uuid('id').primaryKey().defaultRandom(),
   title: varchar('title', { length: 255 }).notNull(),
   description: text('description'),
+  calendarId: uuid('calendar_id').references(() => calendarsTable.id, { onDelete: 'set null' }),
+  workCalendarId: uuid('work_calendar_id').references(() => workCalendarsTable.id, { onDelete: 'set null' }),
+  weekendAdjustment: weekendAdjustmentEnum('weekend_adjustment'), // null behaves as 'none'
+  category: varchar('category', { length: 100 }),
+  tags: text('tags').array().default([]).notNull(),
   
-  // Date type: 'fixed', 'nth', 'relative'
+  // Date type: 'fixed', 'nth', 'relative', 'recurring', 'easter'
   dateType: dateTypeEnum('date_type').notNull(),
   
   // For fixed dates
@@ -84,14 +416,42 @@ export const eventsTable = pgTable('events', {
   nthOccurrence: integer('nth_occurrence'), // 1, 2, 3, 4, -1 (for last)
   dayOfWeek: integer('day_of_week'), // 0-6 (Sunday to Saturday)
   month: integer('month'), // 1-12
-  baseYear: integer('base_year'), // base year for nth date calculations
+  baseYear: integer('base_year'), // base year for nth and easter date calculations
+  recurUntilYear: integer('recur_until_year'), // last year an nth or easter event repeats in
+  nthFrequency: nthFrequencyEnum('nth_frequency'), // null behaves as 'yearly'
+  nthMonths: integer('nth_months').array(), // 1-12, for the 'selectedMonths' frequency
+  nthInterval: integer('nth_interval'), // weeks, for the 'weeks' frequency
   
   // For relative dates
   relativePeriod: integer('relative_period'), // number of units
   relativeUnit: relativeUnitEnum('relative_unit'),
   relativeDirection: relativeDirectionEnum('relative_direction'),
-  relativeEventName: varchar('relative_event_name', { length: 255 }), // Changed from ID to name
+  relativeEventId: uuid('relative_event_id'), // id of the anchor event
+  relativeWeekday: integer('relative_weekday'), // 0-6, replaces the period and unit
+  relativeWeekdayOrdinal: integer('relative_weekday_ordinal'), // 0-4, null behaves as 1
+  
+  // For recurring dates
+  recurrenceRule: text('recurrence_rule'), // RFC 5545 DTSTART, RRULE, EXDATE and RDATE lines
+  
+  // For easter dates
+  easterVariant: easterVariantEnum('easter_variant'), // null behaves as 'western'
+  easterOffset: integer('easter_offset'), // days from Easter Sunday
   
   // Metadata
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+  deletedAt: timestamp('deleted_at'), // set while the event sits in the trash
+  version: integer('version').default(1).notNull(), // incremented on every update
+}, (table) => [
+  index('events_search_idx').using('gin', eventSearchVector(table)),
+]);
+
+export const eventRevisionsTable = pgTable('event_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  eventId: uuid('event_id').notNull().references(() => eventsTable.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(),
+  author: varchar('author', { length: 255 }).notNull(),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
+  changes: jsonb('changes').$type<Record<string, FieldChange>>().notNull(),
+}, (table) => [
+  uniqueIndex('event_revisions_event_revision_idx').on(table.eventId, table.revision),
+]);
@@ -0,0 +1,107 @@
+import type { Event, HighlightRange, SearchedEvent } from "./schema";
+
+// Runs of characters other than whitespace and ASCII punctuation. Kept close
+// to the word splitting of Postgres' "simple" parser and SQLite's unicode61.
+const WORD_PATTERN = /[^\s!-\/:-@\[-`{-~]+/g;
+
+const MAX_QUERY_WORDS = 10;
+
+// Relative weight of a query word found in each field, matching the default
+// ts_rank weights of the A and B labels used by Postgres
+const TITLE_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 0.4;
+// Added when the anchor's title holds every query word. Scores from the
+// event's own fields are multiples of 0.2, so this only breaks their ties.
+const ANCHOR_BONUS = 0.1;
+
+// Lower-cased, distinct words of a search query
+export function tokenizeSearchQuery(query: string): string[] {
+  const words = query.toLowerCase().match(WORD_PATTERN) ?? [];
+  return Array.from(new Set(words)).slice(0, MAX_QUERY_WORDS);
+}
+
+// Ranges of the words in `text` that start with one of `tokens`
+export function highlightMatches(text: string | null, tokens: string[]): HighlightRange[] {
+  if (!text) return [];
+
+  const ranges: HighlightRange[] = [];
+  const pattern = new RegExp(WORD_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0].toLowerCase();
+    const token = tokens.find(candidate => word.startsWith(candidate));
+    if (token) {
+      ranges.push([match.index, match.index + token.length]);
+    }
+  }
+  return ranges;
+}
+
+function containsAll(text: string | null, tokens: string[]): boolean {
+  const words = text?.toLowerCase().match(WORD_PATTERN) ?? [];
+  return tokens.every(token => words.some(word => word.startsWith(token)));
+}
+
+function containsToken(text: string | null, token: string): boolean {
+  return containsAll(text, [token]);
+}
+
+function toSearchedEvent(event: Event, anchorTitle: string | null, tokens: string[], score: number): SearchedEvent {
+  return {
+    ...event,
+    search: {
+      score,
+      anchorTitle,
+      highlights: {
+        title: highlightMatches(event.title, tokens),
+        description: highlightMatches(event.description, tokens),
+        anchorTitle: highlightMatches(anchorTitle, tokens),
+      },
+    },
+  };
+}
+
+// Best match first, then oldest first like the unfiltered list
+function bySearchScore(a: SearchedEvent, b: SearchedEvent): number {
+  return b.search.score - a.search.score
+    || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+// Searches and ranks `events`, which every backend does in memory so that
+// they all agree: the database backends only narrow the events down first.
+// `events` may include trashed events: they can still be anchors but are
+// never returned.
+//
+// An event matches when every query word starts a word of its title or
+// description (words may be split across the two), or of its anchor's title.
+// Each word scores for every field it is found in; a match through the
+// anchor only breaks ties.
+export function searchEventsInMemory(events: Event[], query: string): SearchedEvent[] {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return [];
+
+  const titles = new Map(events.map(event => [event.id, event.title]));
+  const ownScores = new Map<string, number>();
+  const matchingAnchors = new Set<string>();
+
+  for (const event of events) {
+    if (tokens.every(token => containsToken(event.title, token) || containsToken(event.description, token))) {
+      const score = tokens.reduce((total, token) => total
+        + (containsToken(event.title, token) ? TITLE_WEIGHT : 0)
+        + (containsToken(event.description, token) ? DESCRIPTION_WEIGHT : 0), 0);
+      ownScores.set(event.id, score);
+    }
+    if (containsAll(event.title, tokens)) {
+      matchingAnchors.add(event.id);
+    }
+  }
+
+  return events
+    .filter(event => !event.deletedAt && (ownScores.has(event.id) || (!!event.relativeEventId && matchingAnchors.has(event.relativeEventId))))
+    .map(event => {
+      const anchorId = event.relativeEventId;
+      const score = (ownScores.get(event.id) ?? 0) + (anchorId && matchingAnchors.has(anchorId) ? ANCHOR_BONUS : 0);
+      return toSearchedEvent(event, anchorId ? titles.get(anchorId) ?? null : null, tokens, score);
+    })
+    .sort(bySearchScore);
+}
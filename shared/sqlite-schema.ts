@@ -0,0 +1,87 @@
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, check, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { FieldChange, HolidayRule } from "./schema";
+
+// SQLite mirror of eventsTable for embedded deployments. SQLite has no enum
+// types, so the Postgres enums are enforced with CHECK constraints instead.
+export const sqliteWorkCalendarsTable = sqliteTable('work_calendars', {
+  id: text('id').primaryKey(),
+  name: text('name', { length: 255 }).notNull(),
+  weekendDays: text('weekend_days', { mode: 'json' }).$type<number[]>().default([0, 6]).notNull(), // 0-6 (Sunday to Saturday)
+  holidays: text('holidays', { mode: 'json' }).$type<HolidayRule[]>().default([]).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+});
+
+export const sqliteCalendarsTable = sqliteTable('calendars', {
+  id: text('id').primaryKey(),
+  name: text('name', { length: 255 }).notNull(),
+  description: text('description'),
+  workCalendarId: text('work_calendar_id').references(() => sqliteWorkCalendarsTable.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+});
+
+export const sqliteEventsTable = sqliteTable('events', {
+  id: text('id').primaryKey(),
+  title: text('title', { length: 255 }).notNull(),
+  description: text('description'),
+  calendarId: text('calendar_id').references(() => sqliteCalendarsTable.id, { onDelete: 'set null' }),
+  workCalendarId: text('work_calendar_id').references(() => sqliteWorkCalendarsTable.id, { onDelete: 'set null' }),
+  weekendAdjustment: text('weekend_adjustment', { enum: ['none', 'nextWorkday', 'previousWorkday', 'nearest'] }), // null behaves as 'none'
+  category: text('category', { length: 100 }),
+  tags: text('tags', { mode: 'json' }).$type<string[]>().default([]).notNull(),
+  
+  // Date type: 'fixed', 'nth', 'relative', 'recurring', 'easter'
+  dateType: text('date_type', { enum: ['fixed', 'nth', 'relative', 'recurring', 'easter'] }).notNull(),
+  
+  // For fixed dates
+  startDate: integer('start_date', { mode: 'timestamp_ms' }),
+  endDate: integer('end_date', { mode: 'timestamp_ms' }),
+  
+  // For nth dates
+  nthOccurrence: integer('nth_occurrence'), // 1, 2, 3, 4, -1 (for last)
+  dayOfWeek: integer('day_of_week'), // 0-6 (Sunday to Saturday)
+  month: integer('month'), // 1-12
+  baseYear: integer('base_year'), // base year for nth and easter date calculations
+  recurUntilYear: integer('recur_until_year'), // last year an nth or easter event repeats in
+  nthFrequency: text('nth_frequency', { enum: ['yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks'] }), // null behaves as 'yearly'
+  nthMonths: text('nth_months', { mode: 'json' }).$type<number[]>(), // 1-12, for the 'selectedMonths' frequency
+  nthInterval: integer('nth_interval'), // weeks, for the 'weeks' frequency
+  
+  // For relative dates
+  relativePeriod: integer('relative_period'), // number of units
+  relativeUnit: text('relative_unit', { enum: ['days', 'weeks', 'months', 'years', 'businessDays'] }),
+  relativeDirection: text('relative_direction', { enum: ['before', 'after'] }),
+  relativeEventId: text('relative_event_id'), // id of the anchor event
+  relativeWeekday: integer('relative_weekday'), // 0-6, replaces the period and unit
+  relativeWeekdayOrdinal: integer('relative_weekday_ordinal'), // 0-4, null behaves as 1
+  
+  // For recurring dates
+  recurrenceRule: text('recurrence_rule'), // RFC 5545 DTSTART, RRULE, EXDATE and RDATE lines
+  
+  // For easter dates
+  easterVariant: text('easter_variant', { enum: ['western', 'orthodox'] }), // null behaves as 'western'
+  easterOffset: integer('easter_offset'), // days from Easter Sunday
+  
+  // Metadata
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  deletedAt: integer('deleted_at', { mode: 'timestamp_ms' }), // set while the event sits in the trash
+  version: integer('version').default(1).notNull(), // incremented on every update
+}, (table) => [
+  check('events_date_type_check', sql`${table.dateType} IN ('fixed', 'nth', 'relative', 'recurring', 'easter')`),
+  check('events_nth_frequency_check', sql`${table.nthFrequency} IN ('yearly', 'monthly', 'quarterly', 'selectedMonths', 'weeks')`),
+  check('events_relative_unit_check', sql`${table.relativeUnit} IN ('days', 'weeks', 'months', 'years', 'businessDays')`),
+  check('events_relative_direction_check', sql`${table.relativeDirection} IN ('before', 'after')`),
+  check('events_easter_variant_check', sql`${table.easterVariant} IN ('western', 'orthodox')`),
+  check('events_weekend_adjustment_check', sql`${table.weekendAdjustment} IN ('none', 'nextWorkday', 'previousWorkday', 'nearest')`),
+]);
+
+export const sqliteEventRevisionsTable = sqliteTable('event_revisions', {
+  id: text('id').primaryKey(),
+  eventId: text('event_id').notNull().references(() => sqliteEventsTable.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(),
+  author: text('author', { length: 255 }).notNull(),
+  changedAt: integer('changed_at', { mode: 'timestamp_ms' }).notNull(),
+  changes: text('changes', { mode: 'json' }).$type<Record<string, FieldChange>>().notNull(),
+}, (table) => [
+  uniqueIndex('event_revisions_event_revision_idx').on(table.eventId, table.revision),
+]);